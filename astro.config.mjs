@@ -2,13 +2,14 @@ import { defineConfig } from 'astro/config';
 import react from '@astrojs/react';
 import tailwind from '@astrojs/tailwind';
 import node from '@astrojs/node';
+import importWorker from './src/integrations/import-worker';
 
 export default defineConfig({
   output: 'server',
   adapter: node({
     mode: 'standalone'
   }),
-  integrations: [react(), tailwind()],
+  integrations: [react(), tailwind(), importWorker()],
   server: {
     host: '0.0.0.0',
     port: Number(process.env.PORT) || 4321,
@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+/**
+ * Re-record the test fixtures listed in tests/fixtures/fixtures.json from the live sites
+ *
+ * Usage: npm run fixtures:refresh [-- <file prefix>...]
+ *   npm run fixtures:refresh               # every fixture
+ *   npm run fixtures:refresh -- deezer/    # only tests/fixtures/deezer/*
+ *
+ * A response that fails keeps its old file. Tests assert on recorded values, so review the
+ * diff and update expectations when a site's content (not just its markup) changed.
+ * Fixtures marked `synthetic` are hand-written pages whose tests assert on invented content;
+ * they are skipped. To replace one with a recording, drop the flag and update its tests.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_DIR = new URL('../tests/fixtures/', import.meta.url);
+const TIMEOUT_MS = 15000;
+
+// Same browser-like headers the scrapers send (see SCRAPER_HEADERS in src/lib/import/scrapers.ts)
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Cache-Control': 'no-cache',
+};
+
+/**
+ * Fetch one fixture's URL
+ * @returns The response body, formatted for readable diffs when it's JSON
+ */
+async function record(fixture) {
+  const response = await fetch(fixture.url, {
+    method: fixture.method ?? 'GET',
+    headers: fixture.body ? { ...HEADERS, 'Content-Type': 'application/json' } : HEADERS,
+    body: fixture.body,
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (response.status !== (fixture.status ?? 200)) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  const text = await response.text();
+  return fixture.file.endsWith('.json') ? `${JSON.stringify(JSON.parse(text), null, 2)}\n` : text;
+}
+
+async function main() {
+  const prefixes = process.argv.slice(2);
+  const selected = JSON.parse(await readFile(new URL('fixtures.json', FIXTURES_DIR), 'utf8'))
+    .filter((fixture) => prefixes.length === 0 || prefixes.some((prefix) => fixture.file.startsWith(prefix)));
+  const fixtures = selected.filter((fixture) => !fixture.synthetic);
+  for (const fixture of selected.filter((fixture) => fixture.synthetic)) {
+    console.log(`skipped  ${fixture.file} (synthetic)`);
+  }
+
+  let failed = 0;
+  for (const fixture of fixtures) {
+    const path = fileURLToPath(new URL(fixture.file, FIXTURES_DIR));
+    try {
+      const body = await record(fixture);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, body, 'utf8');
+      console.log(`updated  ${fixture.file}`);
+    } catch (error) {
+      failed++;
+      console.error(`failed   ${fixture.file} (${fixture.method ?? 'GET'} ${fixture.url}): ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  console.log(`\n${fixtures.length - failed} of ${fixtures.length} fixtures refreshed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();
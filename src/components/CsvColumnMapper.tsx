@@ -0,0 +1,135 @@
+import { useState, useEffect, useRef } from 'react';
+import { CSV_COLUMNS, isCompleteMapping, type CsvColumn, type CsvTable } from '../lib/csv';
+
+/** Props for the CSV column mapping dialog */
+interface CsvColumnMapperProps {
+  /** Table read from the pasted or dropped text */
+  table: CsvTable;
+  /** Callback with the field chosen for each column */
+  onConfirm: (columns: CsvColumn[]) => void;
+  /** Callback to close the dialog without importing */
+  onCancel: () => void;
+}
+
+const COLUMN_LABELS: Record<CsvColumn, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  album: 'Album',
+  duration: 'Duration',
+  isrc: 'ISRC',
+  spotifyUri: 'Spotify URI',
+  ignore: 'Ignore',
+};
+
+// Rows shown in the preview
+const PREVIEW_ROWS = 5;
+
+export default function CsvColumnMapper({ table, onConfirm, onCancel }: CsvColumnMapperProps) {
+  const [columns, setColumns] = useState<CsvColumn[]>(table.columns);
+  const firstSelectRef = useRef<HTMLSelectElement>(null);
+
+  const isComplete = isCompleteMapping(columns);
+  const hasTitle = columns.includes('title');
+
+  useEffect(() => {
+    firstSelectRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  // Picking a field for one column takes it away from any other column that had it
+  const setColumn = (index: number, column: CsvColumn): void => {
+    setColumns((prev) => prev.map((current, i) => {
+      if (i === index) return column;
+      return column !== 'ignore' && current === column ? 'ignore' : current;
+    }));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="csv-mapper-title"
+      onClick={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <div className="bg-spotify-black border border-spotify-gray/30 rounded-lg w-full max-w-3xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="p-4 border-b border-spotify-gray/30">
+          <h2 id="csv-mapper-title" className="font-bold text-white">Choose columns</h2>
+          <p className="text-sm text-spotify-lightgray">
+            {table.rows.length} {table.rows.length === 1 ? 'row' : 'rows'} · pick what each column holds
+          </p>
+        </div>
+
+        {/* Preview */}
+        <div className="overflow-auto flex-grow p-2">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                {table.headers.map((header, index) => (
+                  <th key={index} scope="col" className="p-2 text-left align-bottom font-normal">
+                    <span className="block text-xs text-spotify-lightgray truncate max-w-[12rem]">{header || `Column ${index + 1}`}</span>
+                    <select
+                      ref={index === 0 ? firstSelectRef : undefined}
+                      value={columns[index]}
+                      onChange={(e) => setColumn(index, e.target.value as CsvColumn)}
+                      className="mt-1 bg-spotify-gray/30 border border-spotify-gray/50 rounded px-2 py-1 text-white focus:outline-none focus:border-spotify-green"
+                      aria-label={`Field for column ${header || index + 1}`}
+                    >
+                      {CSV_COLUMNS.map((column) => (
+                        <option key={column} value={column}>{COLUMN_LABELS[column]}</option>
+                      ))}
+                    </select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-t border-spotify-gray/20">
+                  {table.headers.map((_, index) => (
+                    <td
+                      key={index}
+                      className={`p-2 truncate max-w-[12rem] ${columns[index] === 'ignore' ? 'text-spotify-lightgray/50' : 'text-white'}`}
+                    >
+                      {row[index] ?? ''}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-spotify-gray/30">
+          <p className="text-xs text-spotify-lightgray">
+            {hasTitle ? 'Unmapped columns are ignored' : 'Choose the column that holds track titles'}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 rounded-full text-sm text-spotify-lightgray hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(columns)}
+              disabled={!isComplete}
+              className="px-4 py-2 rounded-full text-sm font-medium bg-spotify-green hover:bg-spotify-green/90 text-black transition-colors disabled:opacity-50"
+            >
+              Import {table.rows.length} tracks
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect, useRef } from 'react';
+import { api } from '../lib/api-client';
+import type { ExportFormat, ExportSource } from '../lib/export';
+
+/** Props for the export download menu */
+interface ExportMenuProps {
+  /** Liked Songs or a playlist */
+  source: ExportSource;
+  /** Button text */
+  label?: string;
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'csv', label: 'CSV', hint: 'Spreadsheets, and re-importing here' },
+  { format: 'json', label: 'JSON', hint: 'Full track metadata' },
+  { format: 'm3u', label: 'M3U', hint: 'Media players' },
+  { format: 'xspf', label: 'XSPF', hint: 'Media players, with album and ISRC' },
+];
+
+export default function ExportMenu({ source, label = 'Export' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent): void => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="px-3 py-1 text-xs rounded-full border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        {label}
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full mt-2 w-64 bg-spotify-gray/95 backdrop-blur-lg rounded-lg shadow-xl border border-spotify-gray/50 overflow-hidden z-50"
+        >
+          {FORMAT_OPTIONS.map(({ format, label: formatLabel, hint }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={api.exportUrl(source, format)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="block px-4 py-2 text-left hover:bg-spotify-green/20"
+            >
+              <span className="block text-sm text-white">{formatLabel}</span>
+              <span className="block text-xs text-spotify-lightgray">{hint}</span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
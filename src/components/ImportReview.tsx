@@ -0,0 +1,367 @@
+import { useState } from 'react';
+import type { SpotifyTrack } from '../lib/spotify';
+import type { TrackWithLiked } from '../lib/api-client';
+import { captureError } from '../lib/error-tracking';
+import { VALIDATION } from '../lib/constants';
+
+/** Individual track result from playlist import */
+export interface ImportedTrackResult {
+  /** Whether the track was found on Spotify ('uncertain' matches need review) */
+  status: 'found' | 'uncertain' | 'not_found';
+  /** Matched Spotify track, null if not found */
+  spotifyTrack: TrackWithLiked | null;
+  /** Original track title from source platform */
+  originalTitle: string;
+  /** Original artist name from source platform */
+  originalArtist?: string;
+  /** How closely the match agrees with the source track (0-1) */
+  confidence: number;
+  /** Other plausible matches, best first */
+  alternatives?: { track: SpotifyTrack; confidence: number }[];
+}
+
+/** The user's decision for one imported row */
+interface RowDecision {
+  /** Track that will be used for this row */
+  track: SpotifyTrack | null;
+  /** pending rows are excluded from bulk actions until confirmed */
+  state: 'pending' | 'confirmed' | 'skipped';
+}
+
+/** Props for the import review panel */
+interface ImportReviewProps {
+  /** Imported rows in source order */
+  rows: ImportedTrackResult[];
+  /** Callback to like a batch of tracks */
+  onLikeAll: (trackIds: string[]) => Promise<void>;
+  /** Callback to open the playlist selector for the confirmed tracks */
+  onAddToPlaylist: (tracks: SpotifyTrack[]) => void;
+  /** Callback when review is finished, with the confirmed tracks in source order */
+  onDone: (tracks: SpotifyTrack[]) => void;
+}
+
+/** Props for a single review row */
+interface ReviewRowProps {
+  row: ImportedTrackResult;
+  decision: RowDecision;
+  onChange: (decision: RowDecision) => void;
+}
+
+function formatArtists(track: SpotifyTrack): string {
+  return track.artists.map((artist) => artist.name).join(', ');
+}
+
+function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}% match`;
+}
+
+function initialDecision(row: ImportedTrackResult): RowDecision {
+  return {
+    track: row.spotifyTrack,
+    state: row.status === 'found' ? 'confirmed' : 'pending',
+  };
+}
+
+/** Compact track option used for the current pick, alternatives and search results */
+function TrackOption({
+  track,
+  label,
+  onSelect,
+}: {
+  track: SpotifyTrack;
+  label?: string;
+  onSelect?: () => void;
+}) {
+  const image = track.album.images[track.album.images.length - 1]?.url;
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      {image ? (
+        <img src={image} alt="" className="w-9 h-9 rounded flex-shrink-0" aria-hidden="true" />
+      ) : (
+        <div className="w-9 h-9 rounded bg-spotify-gray flex-shrink-0" aria-hidden="true" />
+      )}
+      <div className="min-w-0 flex-grow">
+        <p className="text-sm text-white truncate">{track.name}</p>
+        <p className="text-xs text-spotify-lightgray truncate">
+          {formatArtists(track)}
+          {label && <span className="ml-1 text-spotify-lightgray/60">· {label}</span>}
+        </p>
+      </div>
+      {onSelect && (
+        <button
+          onClick={onSelect}
+          className="px-3 py-1 text-xs rounded-full border border-spotify-green/30 text-spotify-green hover:bg-spotify-green/10 transition-colors flex-shrink-0"
+          aria-label={`Use ${track.name} by ${formatArtists(track)}`}
+        >
+          Use this
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ReviewRow({ row, decision, onChange }: ReviewRowProps) {
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [query, setQuery] = useState(
+    row.originalArtist ? `${row.originalTitle} ${row.originalArtist}` : row.originalTitle
+  );
+  const [results, setResults] = useState<SpotifyTrack[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+
+  const alternatives = (row.alternatives ?? []).filter((alt) => alt.track.id !== decision.track?.id);
+
+  const handleSearch = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const response = await fetch(`/api/search?q=${encodeURIComponent(query.trim())}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed');
+      }
+      setResults((data.tracks as SpotifyTrack[]).slice(0, 5));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      captureError(error, { action: 'import_review_search' });
+      setSearchError(error.message || 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const choose = (track: SpotifyTrack): void => {
+    onChange({ track, state: 'confirmed' });
+    setIsSearchOpen(false);
+  };
+
+  const badge = decision.state === 'confirmed'
+    ? { text: 'Confirmed', className: 'text-spotify-green bg-spotify-green/10' }
+    : decision.state === 'skipped'
+      ? { text: 'Skipped', className: 'text-spotify-lightgray bg-white/5' }
+      : row.status === 'not_found'
+        ? { text: 'Not found', className: 'text-red-400 bg-red-500/10' }
+        : { text: formatConfidence(row.confidence), className: 'text-amber-400 bg-amber-500/10' };
+
+  return (
+    <li className="rounded-lg border border-white/10 bg-white/[0.02] p-3 space-y-3">
+      {/* Source track */}
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm text-white truncate">{row.originalTitle}</p>
+          {row.originalArtist && (
+            <p className="text-xs text-spotify-lightgray truncate">{row.originalArtist}</p>
+          )}
+        </div>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${badge.className}`}>
+          {badge.text}
+        </span>
+      </div>
+
+      {/* Current pick */}
+      {decision.track ? (
+        <div className="pl-3 border-l-2 border-spotify-green/40">
+          <TrackOption track={decision.track} />
+        </div>
+      ) : (
+        <p className="pl-3 border-l-2 border-white/10 text-xs text-spotify-lightgray">No Spotify match selected</p>
+      )}
+
+      {/* Row actions */}
+      <div className="flex flex-wrap gap-2">
+        {decision.track && decision.state !== 'confirmed' && (
+          <button
+            onClick={() => onChange({ ...decision, state: 'confirmed' })}
+            className="px-3 py-1 text-xs rounded-full bg-spotify-green/10 text-spotify-green border border-spotify-green/30 hover:bg-spotify-green/20 transition-colors"
+          >
+            Confirm match
+          </button>
+        )}
+        {decision.state !== 'skipped' && (
+          <button
+            onClick={() => onChange({ ...decision, state: 'skipped' })}
+            className="px-3 py-1 text-xs rounded-full border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors"
+          >
+            Skip
+          </button>
+        )}
+        <button
+          onClick={() => setIsSearchOpen((open) => !open)}
+          aria-expanded={isSearchOpen}
+          className="px-3 py-1 text-xs rounded-full border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors"
+        >
+          {isSearchOpen ? 'Hide search' : 'Search Spotify'}
+        </button>
+      </div>
+
+      {/* Alternative candidates */}
+      {alternatives.length > 0 && decision.state !== 'confirmed' && (
+        <div className="space-y-2">
+          <p className="text-xs text-spotify-lightgray/80">Other possible matches</p>
+          <ul className="space-y-2">
+            {alternatives.map((alt) => (
+              <li key={alt.track.id}>
+                <TrackOption
+                  track={alt.track}
+                  label={formatConfidence(alt.confidence)}
+                  onSelect={() => choose(alt.track)}
+                />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Inline manual search */}
+      {isSearchOpen && (
+        <div className="space-y-2">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="flex-grow px-3 py-1.5 text-sm bg-spotify-gray/30 border border-spotify-gray/50 rounded-lg text-white placeholder-spotify-lightgray/60 focus:outline-none focus:border-spotify-green/50"
+              aria-label={`Search Spotify for ${row.originalTitle}`}
+            />
+            <button
+              type="submit"
+              disabled={isSearching}
+              className="px-3 py-1.5 text-xs rounded-lg bg-spotify-green text-black font-medium disabled:opacity-50"
+            >
+              {isSearching ? 'Searching...' : 'Search'}
+            </button>
+          </form>
+          {searchError && <p className="text-xs text-red-400" role="alert">{searchError}</p>}
+          {results.length > 0 && (
+            <ul className="space-y-2">
+              {results.map((track) => (
+                <li key={track.id}>
+                  <TrackOption track={track} onSelect={() => choose(track)} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function ImportReview({ rows, onLikeAll, onAddToPlaylist, onDone }: ImportReviewProps) {
+  const [decisions, setDecisions] = useState<RowDecision[]>(() => rows.map(initialDecision));
+  const [showAll, setShowAll] = useState(false);
+  const [isLiking, setIsLiking] = useState(false);
+  const [likeMessage, setLikeMessage] = useState<string | null>(null);
+
+  const confirmedTracks = decisions
+    .filter((decision) => decision.state === 'confirmed' && decision.track !== null)
+    .map((decision) => decision.track as SpotifyTrack);
+  const pendingCount = decisions.filter((decision) => decision.state === 'pending').length;
+
+  // Rows that started out uncertain or not found stay visible after they're resolved
+  const visibleRows = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => showAll || row.status !== 'found');
+
+  const updateDecision = (index: number, decision: RowDecision): void => {
+    setDecisions((prev) => prev.map((current, i) => (i === index ? decision : current)));
+  };
+
+  const handleLikeConfirmed = async (): Promise<void> => {
+    const trackIds = confirmedTracks
+      .filter((track) => !(track as Partial<TrackWithLiked>).isLiked)
+      .map((track) => track.id);
+    if (trackIds.length === 0) {
+      setLikeMessage('All confirmed tracks are already liked');
+      return;
+    }
+
+    setIsLiking(true);
+    setLikeMessage(null);
+    try {
+      for (let i = 0; i < trackIds.length; i += VALIDATION.MAX_SAVE_TRACK_IDS) {
+        await onLikeAll(trackIds.slice(i, i + VALIDATION.MAX_SAVE_TRACK_IDS));
+      }
+      setLikeMessage(`Liked ${trackIds.length} tracks`);
+    } catch (err) {
+      captureError(err instanceof Error ? err : new Error(String(err)), {
+        action: 'import_review_like',
+        trackCount: trackIds.length,
+      });
+      setLikeMessage('Failed to like some tracks');
+    } finally {
+      setIsLiking(false);
+    }
+  };
+
+  return (
+    <section aria-labelledby="import-review-heading" className="space-y-4">
+      {/* Summary and bulk actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3 pb-3 border-b border-white/10">
+        <div>
+          <h2 id="import-review-heading" className="font-semibold text-white">Review matches</h2>
+          <p className="text-sm text-spotify-lightgray">
+            {confirmedTracks.length} confirmed
+            {pendingCount > 0 && <span className="text-amber-400"> · {pendingCount} need review</span>}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleLikeConfirmed}
+            disabled={isLiking || confirmedTracks.length === 0}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-spotify-green/10 text-spotify-green hover:bg-spotify-green/20 border border-spotify-green/30 disabled:opacity-50 transition-colors"
+          >
+            {isLiking ? 'Liking...' : `Like ${confirmedTracks.length} confirmed`}
+          </button>
+          <button
+            onClick={() => onAddToPlaylist(confirmedTracks)}
+            disabled={confirmedTracks.length === 0}
+            className="px-4 py-2 rounded-full text-sm font-medium border border-white/15 text-white hover:border-white/30 disabled:opacity-50 transition-colors"
+          >
+            Add to playlist
+          </button>
+          <button
+            onClick={() => onDone(confirmedTracks)}
+            className="px-4 py-2 rounded-full text-sm font-medium bg-spotify-green text-black hover:bg-spotify-green/90 transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+
+      {likeMessage && (
+        <p className="text-sm text-spotify-lightgray" role="status">{likeMessage}</p>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-spotify-lightgray">
+        <input
+          type="checkbox"
+          checked={showAll}
+          onChange={(e) => setShowAll(e.target.checked)}
+          className="accent-spotify-green"
+        />
+        Show confident matches too
+      </label>
+
+      {visibleRows.length === 0 ? (
+        <p className="text-center py-8 text-spotify-lightgray" role="status">
+          Every track matched confidently - nothing to review.
+        </p>
+      ) : (
+        <ul className="space-y-3" aria-label="Imported tracks">
+          {visibleRows.map(({ row, index }) => (
+            <ReviewRow
+              key={index}
+              row={row}
+              decision={decisions[index]}
+              onChange={(decision) => updateDecision(index, decision)}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
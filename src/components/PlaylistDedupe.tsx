@@ -0,0 +1,237 @@
+import { useState, useEffect, useRef } from 'react';
+import { formatArtists, formatDuration, getAlbumImageUrl } from '../lib/spotify';
+import { api, type PlaylistDuplicatesResponse } from '../lib/api-client';
+import type { DuplicateGroup } from '../lib/playlist-dedupe';
+import { captureError } from '../lib/error-tracking';
+
+/** Props for the playlist deduplication dialog */
+interface PlaylistDedupeProps {
+  /** ID of the playlist to scan */
+  playlistId: string;
+  /** Playlist name, for the title */
+  playlistName?: string;
+  /** Callback after duplicates were removed */
+  onRemoved: (removed: number) => void;
+  /** Callback to close the dialog */
+  onClose: () => void;
+}
+
+/**
+ * Positions selected by default: later copies of a track already in the group, but not
+ * other releases, which the user may have added on purpose
+ */
+function defaultSelection(groups: DuplicateGroup[]): Set<number> {
+  const selected = new Set<number>();
+  for (const group of groups) {
+    const seen = new Set<string>();
+    for (const entry of group.entries) {
+      if (seen.has(entry.track.id)) {
+        selected.add(entry.position);
+      }
+      seen.add(entry.track.id);
+    }
+  }
+  return selected;
+}
+
+export default function PlaylistDedupe({ playlistId, playlistName, onRemoved, onClose }: PlaylistDedupeProps) {
+  const [scan, setScan] = useState<PlaylistDuplicatesResponse | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isScanning, setIsScanning] = useState(true);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsScanning(true);
+    api.findPlaylistDuplicates(playlistId)
+      .then((data) => {
+        if (cancelled) return;
+        setScan(data);
+        setSelected(defaultSelection(data.groups));
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        const scanError = err instanceof Error ? err : new Error(String(err));
+        captureError(scanError, { action: 'find_playlist_duplicates', playlistId });
+        setError(scanError.message || 'Failed to scan playlist');
+      })
+      .finally(() => {
+        if (!cancelled) setIsScanning(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [playlistId]);
+
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape' && !isRemoving) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, isRemoving]);
+
+  const toggle = (position: number): void => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(position)) {
+        next.delete(position);
+      } else {
+        next.add(position);
+      }
+      return next;
+    });
+  };
+
+  const handleRemove = async (): Promise<void> => {
+    if (!scan?.snapshotId || selected.size === 0) return;
+
+    const items = scan.groups.flatMap((group) =>
+      group.entries
+        .filter((entry) => selected.has(entry.position))
+        .map((entry) => ({ uri: entry.track.uri, position: entry.position }))
+    );
+
+    setIsRemoving(true);
+    setError(null);
+    try {
+      const result = await api.removePlaylistPositions(playlistId, scan.snapshotId, items);
+      onRemoved(result.removed);
+    } catch (err) {
+      const removeError = err instanceof Error ? err : new Error(String(err));
+      captureError(removeError, { action: 'remove_playlist_duplicates', playlistId, count: items.length });
+      setError(removeError.message || 'Failed to remove duplicates');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const groups = scan?.groups ?? [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="playlist-dedupe-title"
+      onClick={(e) => e.target === e.currentTarget && !isRemoving && onClose()}
+    >
+      <div className="bg-spotify-black border border-spotify-gray/30 rounded-lg w-full max-w-xl max-h-[80vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-spotify-gray/30">
+          <div className="min-w-0">
+            <h2 id="playlist-dedupe-title" className="font-bold text-white truncate">
+              Duplicates{playlistName ? ` in ${playlistName}` : ''}
+            </h2>
+            {scan && (
+              <p className="text-sm text-spotify-lightgray">
+                {groups.length === 0
+                  ? `Scanned ${scan.total} tracks`
+                  : `${groups.length} ${groups.length === 1 ? 'group' : 'groups'} in ${scan.total} tracks`}
+              </p>
+            )}
+          </div>
+          <button
+            ref={closeButtonRef}
+            onClick={onClose}
+            disabled={isRemoving}
+            className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center text-spotify-lightgray hover:text-white transition-colors disabled:opacity-50"
+            aria-label="Close duplicates"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-500/10 border-b border-red-500/20" role="alert">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Groups */}
+        <div className="overflow-y-auto flex-grow p-2">
+          {isScanning ? (
+            <div className="flex items-center justify-center py-12" role="status" aria-label="Scanning playlist">
+              <div className="w-8 h-8 border-2 border-spotify-green border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+              <span className="sr-only">Scanning playlist...</span>
+            </div>
+          ) : scan && groups.length === 0 ? (
+            <div className="text-center py-12 text-spotify-lightgray" role="status">
+              <p>No duplicates found</p>
+            </div>
+          ) : (
+            groups.map((group) => (
+              <fieldset key={group.entries[0].position} className="mb-3 rounded-md border border-spotify-gray/30 p-2">
+                <legend className="px-1 text-xs text-spotify-lightgray">
+                  {group.kind === 'exact' ? 'Same track' : 'Different releases'}
+                </legend>
+                {group.entries.map((entry) => {
+                  const { track } = entry;
+                  const image = getAlbumImageUrl(track.album, 'small');
+                  const inputId = `dedupe-${entry.position}`;
+
+                  return (
+                    <label
+                      key={entry.position}
+                      htmlFor={inputId}
+                      className="flex items-center gap-3 p-2 rounded-md hover:bg-spotify-gray/20 cursor-pointer"
+                    >
+                      <input
+                        id={inputId}
+                        type="checkbox"
+                        checked={selected.has(entry.position)}
+                        onChange={() => toggle(entry.position)}
+                        disabled={isRemoving}
+                        className="accent-spotify-green flex-shrink-0"
+                        aria-label={`Remove ${track.name} at position ${entry.position + 1}`}
+                      />
+                      <span className="w-8 text-right text-xs text-spotify-lightgray/60 flex-shrink-0">
+                        #{entry.position + 1}
+                      </span>
+                      {image ? (
+                        <img src={image} alt="" className="w-10 h-10 rounded flex-shrink-0" aria-hidden="true" />
+                      ) : (
+                        <div className="w-10 h-10 rounded bg-spotify-gray flex-shrink-0" aria-hidden="true" />
+                      )}
+                      <div className="flex-grow min-w-0">
+                        <p className="text-sm text-white truncate">{track.name}</p>
+                        <p className="text-xs text-spotify-lightgray truncate">
+                          {formatArtists(track.artists)} · {track.album.name}
+                        </p>
+                      </div>
+                      <span className="hidden sm:block text-xs text-spotify-lightgray flex-shrink-0">
+                        {formatDuration(track.duration_ms)}
+                      </span>
+                    </label>
+                  );
+                })}
+              </fieldset>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        {groups.length > 0 && (
+          <div className="flex items-center justify-between gap-3 p-4 border-t border-spotify-gray/30">
+            <p className="text-xs text-spotify-lightgray">Checked tracks will be removed</p>
+            <button
+              onClick={handleRemove}
+              disabled={isRemoving || selected.size === 0 || !scan?.snapshotId}
+              className="px-4 py-2 rounded-full text-sm font-medium border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+            >
+              {isRemoving ? 'Removing...' : `Remove ${selected.size} selected`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
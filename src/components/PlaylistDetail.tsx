@@ -0,0 +1,348 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { SpotifyTrack } from '../lib/spotify';
+import { formatArtists, formatDuration, getAlbumImageUrl } from '../lib/spotify';
+import { api, type PlaylistDetailItem, type PlaylistDetailResponse } from '../lib/api-client';
+import { captureError } from '../lib/error-tracking';
+import PlaylistSelector from './PlaylistSelector';
+import PlaylistDedupe from './PlaylistDedupe';
+import ExportMenu from './ExportMenu';
+
+/** Props for the playlist detail modal */
+interface PlaylistDetailProps {
+  /** ID of the playlist to show */
+  playlistId: string;
+  /** Callback to close the modal */
+  onClose: () => void;
+}
+
+/** A loaded playlist item; track is null for unavailable tracks */
+type Item = PlaylistDetailItem;
+
+/**
+ * Return items with positions renumbered after a local change
+ */
+function renumber(items: Item[]): Item[] {
+  return items.map((item, position) => ({ ...item, position }));
+}
+
+export default function PlaylistDetail({ playlistId, onClose }: PlaylistDetailProps) {
+  const [playlist, setPlaylist] = useState<PlaylistDetailResponse['playlist'] | null>(null);
+  const [items, setItems] = useState<Item[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyUri, setBusyUri] = useState<string | null>(null);
+  const [movingTrack, setMovingTrack] = useState<SpotifyTrack | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [isDeduping, setIsDeduping] = useState(false);
+
+  // Latest snapshot, so each change applies to the version the user is looking at
+  const snapshotRef = useRef<string | undefined>(undefined);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  const loadPage = useCallback(async (offset: number): Promise<void> => {
+    const data = await api.getPlaylistDetail(playlistId, offset);
+    setPlaylist(data.playlist);
+    setTotal(data.total);
+    setNextOffset(data.nextOffset);
+    setItems((prev) => (offset === 0 ? data.items : [...prev, ...data.items]));
+    snapshotRef.current = data.playlist.snapshotId ?? undefined;
+  }, [playlistId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+    loadPage(0)
+      .catch((err) => {
+        const loadError = err instanceof Error ? err : new Error(String(err));
+        captureError(loadError, { action: 'load_playlist_detail', playlistId });
+        setError(loadError.message || 'Failed to load playlist');
+      })
+      .finally(() => setIsLoading(false));
+  }, [loadPage, playlistId]);
+
+  useEffect(() => {
+    closeButtonRef.current?.focus();
+  }, []);
+
+  // Escape closes the detail view, unless a dialog on top of it is open
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape' && !movingTrack && !isDeduping) onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, movingTrack, isDeduping]);
+
+  const handleLoadMore = async (): Promise<void> => {
+    if (nextOffset === null) return;
+    setIsLoadingMore(true);
+    try {
+      await loadPage(nextOffset);
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error(String(err));
+      captureError(loadError, { action: 'load_playlist_detail', playlistId, offset: nextOffset });
+      setError(loadError.message || 'Failed to load more tracks');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  /** Removes every copy of a track, which is how Spotify removes by URI */
+  const removeTrack = async (track: SpotifyTrack): Promise<void> => {
+    const result = await api.removeFromPlaylist(playlistId, [track.uri], snapshotRef.current);
+    snapshotRef.current = result.snapshotId ?? undefined;
+    const removed = items.filter((item) => item.track?.uri === track.uri).length;
+    setItems((prev) => renumber(prev.filter((item) => item.track?.uri !== track.uri)));
+    setTotal((count) => count - removed);
+    setNextOffset((offset) => (offset === null ? null : offset - removed));
+  };
+
+  const handleRemove = async (track: SpotifyTrack): Promise<void> => {
+    setBusyUri(track.uri);
+    setError(null);
+    try {
+      await removeTrack(track);
+    } catch (err) {
+      const removeError = err instanceof Error ? err : new Error(String(err));
+      captureError(removeError, { action: 'remove_from_playlist', playlistId, trackId: track.id });
+      setError(removeError.message || 'Failed to remove track');
+    } finally {
+      setBusyUri(null);
+    }
+  };
+
+  // PlaylistSelector reports errors itself, so failures are rethrown to it
+  const handleMove = async (targetPlaylistId: string, trackUris: string[]): Promise<void> => {
+    if (!movingTrack) return;
+    if (targetPlaylistId === playlistId) {
+      throw new Error('Track is already in this playlist');
+    }
+
+    await api.addToPlaylistBulk(targetPlaylistId, trackUris);
+    await removeTrack(movingTrack);
+    setMovingTrack(null);
+  };
+
+  // Positions shift after removing duplicates, so reload from the top
+  const handleDuplicatesRemoved = async (): Promise<void> => {
+    setIsDeduping(false);
+    setIsLoading(true);
+    setError(null);
+    try {
+      await loadPage(0);
+    } catch (err) {
+      const loadError = err instanceof Error ? err : new Error(String(err));
+      captureError(loadError, { action: 'load_playlist_detail', playlistId });
+      setError(loadError.message || 'Failed to reload playlist');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDrop = async (targetIndex: number): Promise<void> => {
+    const fromIndex = dragIndex;
+    setDragIndex(null);
+    setDropIndex(null);
+    if (fromIndex === null || fromIndex === targetIndex) return;
+
+    // Reorder locally first, then let Spotify confirm; roll back if it refuses
+    const previous = items;
+    const reordered = [...items];
+    const [moved] = reordered.splice(fromIndex, 1);
+    reordered.splice(targetIndex, 0, moved);
+    setItems(renumber(reordered));
+    setError(null);
+
+    try {
+      const result = await api.reorderPlaylist(playlistId, {
+        rangeStart: fromIndex,
+        // insert_before counts positions before the move
+        insertBefore: targetIndex > fromIndex ? targetIndex + 1 : targetIndex,
+        snapshotId: snapshotRef.current,
+      });
+      snapshotRef.current = result.snapshotId;
+    } catch (err) {
+      const reorderError = err instanceof Error ? err : new Error(String(err));
+      captureError(reorderError, { action: 'reorder_playlist', playlistId, fromIndex, targetIndex });
+      setItems(previous);
+      setError(reorderError.message || 'Failed to reorder playlist');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="playlist-detail-title"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div className="bg-spotify-black border border-spotify-gray/30 rounded-lg w-full max-w-2xl max-h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 p-4 border-b border-spotify-gray/30">
+          <div className="min-w-0">
+            <h2 id="playlist-detail-title" className="font-bold text-white truncate">
+              {playlist ? (
+                <a href={playlist.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                  {playlist.name}
+                </a>
+              ) : (
+                'Playlist'
+              )}
+            </h2>
+            {playlist && (
+              <p className="text-sm text-spotify-lightgray">
+                {total} tracks · drag to reorder
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {playlist && <ExportMenu source={{ kind: 'playlist', playlistId }} />}
+            {playlist && total > 1 && (
+              <button
+                onClick={() => setIsDeduping(true)}
+                className="px-3 py-1 text-xs rounded-full border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors"
+              >
+                Find duplicates
+              </button>
+            )}
+            <button
+              ref={closeButtonRef}
+              onClick={onClose}
+              className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center text-spotify-lightgray hover:text-white transition-colors"
+              aria-label="Close playlist"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="px-4 py-2 bg-red-500/10 border-b border-red-500/20" role="alert">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Track list */}
+        <div className="overflow-y-auto flex-grow">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12" role="status" aria-label="Loading playlist">
+              <div className="w-8 h-8 border-2 border-spotify-green border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+              <span className="sr-only">Loading playlist...</span>
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12 text-spotify-lightgray" role="status">
+              <p>This playlist is empty</p>
+            </div>
+          ) : (
+            <ol className="p-2" aria-label="Playlist tracks">
+              {items.map((item, index) => {
+                const { track } = item;
+                const image = track ? getAlbumImageUrl(track.album, 'small') : null;
+                const isBusy = track !== null && busyUri === track.uri;
+
+                return (
+                  <li
+                    key={`${item.position}-${track?.id ?? 'unavailable'}`}
+                    draggable={track !== null}
+                    onDragStart={() => setDragIndex(index)}
+                    onDragOver={(e) => {
+                      if (dragIndex === null) return;
+                      e.preventDefault();
+                      setDropIndex(index);
+                    }}
+                    onDragEnd={() => {
+                      setDragIndex(null);
+                      setDropIndex(null);
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop(index);
+                    }}
+                    className={`flex items-center gap-3 p-2 rounded-md transition-colors ${
+                      dropIndex === index && dragIndex !== index ? 'bg-spotify-green/10' : 'hover:bg-spotify-gray/20'
+                    } ${dragIndex === index ? 'opacity-50' : ''}`}
+                  >
+                    <span className="w-6 text-right text-xs text-spotify-lightgray/60 flex-shrink-0 cursor-grab" aria-hidden="true">
+                      {item.position + 1}
+                    </span>
+                    {image ? (
+                      <img src={image} alt="" className="w-10 h-10 rounded flex-shrink-0" aria-hidden="true" />
+                    ) : (
+                      <div className="w-10 h-10 rounded bg-spotify-gray flex-shrink-0" aria-hidden="true" />
+                    )}
+                    <div className="flex-grow min-w-0">
+                      <p className="text-sm text-white truncate">{track?.name ?? 'Unavailable track'}</p>
+                      {track && (
+                        <p className="text-xs text-spotify-lightgray truncate">{formatArtists(track.artists)}</p>
+                      )}
+                    </div>
+                    {track && (
+                      <>
+                        <span className="hidden sm:block text-xs text-spotify-lightgray flex-shrink-0">
+                          {formatDuration(track.duration_ms)}
+                        </span>
+                        <button
+                          onClick={() => setMovingTrack(track)}
+                          disabled={isBusy}
+                          className="px-3 py-1 text-xs rounded-full border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors disabled:opacity-50 flex-shrink-0"
+                          aria-label={`Move ${track.name} to another playlist`}
+                        >
+                          Move
+                        </button>
+                        <button
+                          onClick={() => handleRemove(track)}
+                          disabled={isBusy}
+                          className="px-3 py-1 text-xs rounded-full border border-red-500/30 text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50 flex-shrink-0"
+                          aria-label={`Remove ${track.name} from playlist`}
+                        >
+                          {isBusy ? 'Removing...' : 'Remove'}
+                        </button>
+                      </>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {nextOffset !== null && !isLoading && (
+            <div className="flex justify-center p-3">
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="px-4 py-2 rounded-full text-sm border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors disabled:opacity-50"
+              >
+                {isLoadingMore ? 'Loading...' : `Load more (${total - items.length} left)`}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {movingTrack && (
+        <PlaylistSelector
+          tracks={[movingTrack]}
+          title="Move to playlist"
+          onClose={() => setMovingTrack(null)}
+          onAdd={handleMove}
+        />
+      )}
+
+      {isDeduping && (
+        <PlaylistDedupe
+          playlistId={playlistId}
+          playlistName={playlist?.name}
+          onClose={() => setIsDeduping(false)}
+          onRemoved={handleDuplicatesRemoved}
+        />
+      )}
+    </div>
+  );
+}
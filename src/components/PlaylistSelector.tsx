@@ -1,20 +1,42 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import type { SpotifyPlaylist, SpotifyTrack } from '../lib/spotify';
 import { captureError } from '../lib/error-tracking';
+import { readNdjson } from '../lib/api-client';
+
+/** A page of playlists streamed from /api/playlists */
+type PlaylistPageLine = { playlists: SpotifyPlaylist[] } | { error: string };
+
+/** A single duplicate-check result streamed from /api/playlist/check-duplicates */
+type DuplicateCheckLine = { playlistId: string; isDuplicate: boolean } | { error: string };
 
 /** Props for the playlist selector modal */
 interface PlaylistSelectorProps {
-  /** Track to be added to a playlist */
-  track: SpotifyTrack;
+  /** Tracks to be added to a playlist (duplicate badges are shown for a single track) */
+  tracks: SpotifyTrack[];
   /** Callback to close the modal */
   onClose: () => void;
-  /** Callback to add track to selected playlist */
-  onAdd: (playlistId: string, trackUri: string) => Promise<void>;
+  /** Callback to add the tracks to the selected playlist */
+  onAdd: (playlistId: string, trackUris: string[]) => Promise<void>;
+  /** Dialog heading (defaults to "Add to playlist") */
+  title?: string;
+  /** Callback to open a playlist's detail view; shows an open button per playlist */
+  onOpenPlaylist?: (playlistId: string) => void;
 }
 
-export default function PlaylistSelector({ track, onClose, onAdd }: PlaylistSelectorProps) {
+export default function PlaylistSelector({
+  tracks,
+  onClose,
+  onAdd,
+  title = 'Add to playlist',
+  onOpenPlaylist,
+}: PlaylistSelectorProps) {
+  // Duplicate checks only make sense for a single track
+  const track = tracks.length === 1 ? tracks[0] : null;
+  const tracksKey = tracks.map((t) => t.id).join(',');
+
   const [playlists, setPlaylists] = useState<SpotifyPlaylist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [addingTo, setAddingTo] = useState<string | null>(null);
   const [addedTo, setAddedTo] = useState<Set<string>>(new Set());
@@ -78,58 +100,87 @@ export default function PlaylistSelector({ track, onClose, onAdd }: PlaylistSele
   }, [handleKeyDown]);
 
   useEffect(() => {
+    const controller = new AbortController();
+
+    // Stream duplicate-check results for a batch of playlists as each check completes
+    async function checkDuplicates(playlistIds: string[]): Promise<void> {
+      if (!track) return;
+      try {
+        const dupResponse = await fetch('/api/playlist/check-duplicates', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ trackId: track.id, playlistIds, stream: true }),
+          signal: controller.signal,
+        });
+        if (!dupResponse.ok) return;
+
+        for await (const result of readNdjson<DuplicateCheckLine>(dupResponse)) {
+          if ('playlistId' in result) {
+            setDuplicates((prev) => ({ ...prev, [result.playlistId]: result.isDuplicate }));
+          }
+        }
+      } catch {
+        // Silently fail duplicate check - not critical
+      }
+    }
+
     async function fetchPlaylists() {
       try {
-        const response = await fetch('/api/playlists');
+        const response = await fetch('/api/playlists?stream=true', { signal: controller.signal });
         if (!response.ok) {
           throw new Error('Failed to fetch playlists');
         }
-        const data = await response.json();
-        setPlaylists(data.playlists);
 
-        // Check for duplicates after playlists are loaded
-        if (data.playlists.length > 0) {
-          const playlistIds = data.playlists.map((p: SpotifyPlaylist) => p.id);
-          try {
-            const dupResponse = await fetch('/api/playlist/check-duplicates', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ trackId: track.id, playlistIds }),
-            });
-            if (dupResponse.ok) {
-              const dupData = await dupResponse.json();
-              setDuplicates(dupData.duplicates);
-            }
-          } catch {
-            // Silently fail duplicate check - not critical
+        // Render each page as soon as it arrives, then check it for duplicates
+        for await (const page of readNdjson<PlaylistPageLine>(response)) {
+          if ('error' in page) {
+            throw new Error(page.error);
+          }
+          setPlaylists((prev) => [...prev, ...page.playlists]);
+          setIsLoading(false);
+
+          if (page.playlists.length > 0) {
+            checkDuplicates(page.playlists.map((p) => p.id));
           }
         }
       } catch (err) {
+        if (controller.signal.aborted) return;
         const error = err instanceof Error ? err : new Error(String(err));
         captureError(error, {
           action: 'fetch_playlists',
-          trackId: track.id,
+          trackId: track?.id,
+          trackCount: tracks.length,
         });
         setError(error.message || 'Failed to load playlists');
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+          setIsLoadingMore(false);
+        }
       }
     }
 
+    setPlaylists([]);
+    setDuplicates({});
+    setIsLoading(true);
+    setIsLoadingMore(true);
     fetchPlaylists();
-  }, [track.id]);
+
+    return () => controller.abort();
+  }, [tracksKey]);
 
   const handleAdd = async (playlistId: string): Promise<void> => {
     setAddingTo(playlistId);
     try {
-      await onAdd(playlistId, track.uri);
+      await onAdd(playlistId, tracks.map((t) => t.uri));
       setAddedTo((prev) => new Set([...prev, playlistId]));
     } catch (err) {
       captureError(err instanceof Error ? err : new Error(String(err)), {
         action: 'add_to_playlist',
         playlistId,
-        trackId: track.id,
-        trackName: track.name,
+        trackId: track?.id,
+        trackName: track?.name,
+        trackCount: tracks.length,
       });
     } finally {
       setAddingTo(null);
@@ -165,8 +216,10 @@ export default function PlaylistSelector({ track, onClose, onAdd }: PlaylistSele
         <div className="p-4 border-b border-spotify-gray/30">
           <div className="flex items-center justify-between mb-3">
             <div>
-              <h2 id="playlist-dialog-title" className="font-bold text-white">Add to playlist</h2>
-              <p id="playlist-dialog-description" className="text-sm text-spotify-lightgray truncate">{track.name}</p>
+              <h2 id="playlist-dialog-title" className="font-bold text-white">{title}</h2>
+              <p id="playlist-dialog-description" className="text-sm text-spotify-lightgray truncate">
+                {track ? track.name : `${tracks.length} tracks`}
+              </p>
             </div>
             <button
               ref={closeButtonRef}
@@ -260,7 +313,7 @@ export default function PlaylistSelector({ track, onClose, onAdd }: PlaylistSele
                 const playlistImage = playlist.images[0]?.url;
 
                 return (
-                  <li key={playlist.id}>
+                  <li key={playlist.id} className="flex items-center gap-1">
                     <button
                       onClick={() => !isAdded && handleAdd(playlist.id)}
                       disabled={isAdding || isAdded}
@@ -327,9 +380,27 @@ export default function PlaylistSelector({ track, onClose, onAdd }: PlaylistSele
                         </svg>
                       ) : null}
                     </button>
+                    {onOpenPlaylist && (
+                      <button
+                        onClick={() => onOpenPlaylist(playlist.id)}
+                        className="p-2 min-w-[44px] min-h-[44px] flex items-center justify-center rounded-md text-spotify-lightgray hover:text-white hover:bg-spotify-gray/20 transition-colors flex-shrink-0"
+                        aria-label={`Open ${playlist.name}`}
+                        title="View and edit tracks"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+                        </svg>
+                      </button>
+                    )}
                   </li>
                 );
               })}
+              {isLoadingMore && (
+                <li className="flex items-center justify-center gap-2 py-3 text-xs text-spotify-lightgray" role="status">
+                  <div className="w-4 h-4 border-2 border-spotify-green border-t-transparent rounded-full animate-spin" aria-hidden="true" />
+                  Loading more playlists...
+                </li>
+              )}
             </ul>
           )}
         </div>
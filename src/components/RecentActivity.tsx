@@ -1,16 +1,4 @@
-import type { SpotifyTrack } from '../lib/spotify';
-
-/** Represents a recent user action */
-interface RecentAction {
-  /** The track that was acted upon */
-  track: SpotifyTrack;
-  /** Type of action performed */
-  action: 'liked' | 'added_to_playlist';
-  /** Name of playlist if action was adding to playlist */
-  playlistName?: string;
-  /** When the action occurred */
-  timestamp: Date;
-}
+import type { RecentAction } from '../hooks';
 
 /** Props for the recent activity sidebar component */
 interface RecentActivityProps {
@@ -18,6 +6,12 @@ interface RecentActivityProps {
   actions: RecentAction[];
   /** Callback to clear activity history */
   onClear: () => void;
+  /** Callback to undo an action */
+  onUndo?: (id: string) => void;
+  /** ID of the action currently being undone */
+  undoingId?: string | null;
+  /** Callback to open a playlist's detail view */
+  onOpenPlaylist?: (playlistId: string) => void;
 }
 
 function timeAgo(date: Date): string {
@@ -29,7 +23,7 @@ function timeAgo(date: Date): string {
   return `${Math.floor(seconds / 86400)}d ago`;
 }
 
-export default function RecentActivity({ actions, onClear }: RecentActivityProps) {
+export default function RecentActivity({ actions, onClear, onUndo, undoingId, onOpenPlaylist }: RecentActivityProps) {
   return (
     <aside className="w-full lg:w-72 flex-shrink-0" aria-labelledby="recent-activity-heading">
       <div className="sticky top-4 bg-spotify-gray/20 rounded-lg border border-spotify-gray/30 overflow-hidden">
@@ -45,25 +39,34 @@ export default function RecentActivity({ actions, onClear }: RecentActivityProps
         </div>
 
         <div className="max-h-96 overflow-y-auto">
-          {actions.map((action, index) => {
-            const albumImage = action.track.album.images[2]?.url || action.track.album.images[0]?.url;
+          {actions.map((action) => {
+            const track = action.tracks[0];
+            const albumImage = track?.album.images[2]?.url || track?.album.images[0]?.url;
+            const title = action.count === 1 && track ? track.name : `${action.count} tracks`;
 
             return (
               <div
-                key={`${action.track.id}-${index}`}
-                className="flex items-center gap-3 px-4 py-2 hover:bg-spotify-gray/20 transition-colors"
+                key={action.id}
+                className={`flex items-center gap-3 px-4 py-2 hover:bg-spotify-gray/20 transition-colors ${action.undone ? 'opacity-50' : ''}`}
               >
                 {albumImage && (
                   <img
                     src={albumImage}
-                    alt={action.track.album.name}
+                    alt={track.album.name}
                     className="w-10 h-10 rounded"
                   />
                 )}
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm text-white truncate">{action.track.name}</p>
+                  <p className={`text-sm text-white truncate ${action.undone ? 'line-through' : ''}`}>{title}</p>
                   <p className="text-xs text-spotify-lightgray flex items-center gap-1">
-                    {action.action === 'liked' ? (
+                    {action.action === 'unliked' ? (
+                      <>
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                        </svg>
+                        Unliked
+                      </>
+                    ) : action.action === 'liked' ? (
                       <>
                         <svg className="w-3 h-3 text-spotify-green" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                           <path d="M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54L12 21.35z" />
@@ -75,12 +78,36 @@ export default function RecentActivity({ actions, onClear }: RecentActivityProps
                         <svg className="w-3 h-3 text-spotify-green" fill="currentColor" viewBox="0 0 24 24" aria-hidden="true">
                           <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" />
                         </svg>
-                        {action.playlistName || 'Added to playlist'}
+                        {onOpenPlaylist && action.playlistId ? (
+                          <button
+                            onClick={() => onOpenPlaylist(action.playlistId!)}
+                            className="truncate hover:text-white hover:underline"
+                            aria-label={`Open ${action.playlistName || 'playlist'}`}
+                          >
+                            {action.playlistName || 'Added to playlist'}
+                          </button>
+                        ) : (
+                          action.playlistName || 'Added to playlist'
+                        )}
                       </>
                     )}
                     <span className="text-spotify-lightgray/60 ml-1">{timeAgo(action.timestamp)}</span>
                   </p>
                 </div>
+                {onUndo && action.inverse && (
+                  action.undone ? (
+                    <span className="text-xs text-spotify-lightgray/60 flex-shrink-0">Undone</span>
+                  ) : (
+                    <button
+                      onClick={() => onUndo(action.id)}
+                      disabled={undoingId === action.id}
+                      className="text-xs text-spotify-lightgray hover:text-white transition-colors flex-shrink-0 disabled:opacity-50"
+                      aria-label={`Undo ${action.action.replace(/_/g, ' ')} ${title}`}
+                    >
+                      {undoingId === action.id ? 'Undoing...' : 'Undo'}
+                    </button>
+                  )
+                )}
               </div>
             );
           })}
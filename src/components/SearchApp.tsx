@@ -2,16 +2,24 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import SearchBar from './SearchBar';
 import TrackList from './TrackList';
 import PlaylistSelector from './PlaylistSelector';
+import PlaylistDetail from './PlaylistDetail';
+import ExportMenu from './ExportMenu';
+import CsvColumnMapper from './CsvColumnMapper';
 import RecentActivity from './RecentActivity';
 import SpotifyNowPlaying from './SpotifyNowPlaying';
 import SidebarRecommendations from './SidebarRecommendations';
+import ImportReview, { type ImportedTrackResult } from './ImportReview';
 import type { SpotifyTrack } from '../lib/spotify';
-import type { TrackWithLiked } from '../lib/api-client';
+import { api, readSse, type TrackWithLiked, type CreatePlaylistResponse } from '../lib/api-client';
 import { parseTrackUrl } from '../lib/url-parser';
 import { parsePlaylistUrl, isTextTrackList } from '../lib/playlist-parser';
-import { useSearchHistory, useKeyboardShortcuts, shortcutPresets } from '../hooks';
+import { detectPlaylistFileFormat } from '../lib/playlist-files';
+import { detectLibraryExport } from '../lib/library-exports';
+import { readCsvTable, type CsvTable } from '../lib/csv';
+import type { ImportOptions, PlaylistDetails } from '../lib/import/types';
+import { useSearchHistory, useKeyboardShortcuts, useActionLog, shortcutPresets } from '../hooks';
 import { captureError } from '../lib/error-tracking';
-import { UI } from '../lib/constants';
+import { VALIDATION } from '../lib/constants';
 
 const PLATFORM_NAMES: Record<string, string> = {
   'youtube': 'YouTube',
@@ -24,7 +32,15 @@ const PLATFORM_NAMES: Record<string, string> = {
   'amazon-music': 'Amazon Music',
   'mixcloud': 'Mixcloud',
   'beatport': 'Beatport',
+  'generic': 'Web Page',
   'text': 'Text Import',
+  'm3u': 'M3U File',
+  'xspf': 'XSPF File',
+  'pls': 'PLS File',
+  'spotify-history': 'Spotify Streaming History',
+  'apple-music-library': 'Apple Music Library',
+  'youtube-music': 'YouTube Music',
+  'lastfm': 'Last.fm Scrobbles',
 };
 
 /** Props for the main search application component */
@@ -33,41 +49,38 @@ interface SearchAppProps {
   initialQuery?: string;
 }
 
-/** Represents a recent user action for the activity feed */
-interface RecentAction {
-  /** The track that was acted upon */
-  track: SpotifyTrack;
-  /** Type of action performed */
-  action: 'liked' | 'added_to_playlist';
-  /** Name of playlist if action was adding to playlist */
-  playlistName?: string;
-  /** When the action occurred */
-  timestamp: Date;
-}
-
-/** Result summary from importing an external playlist */
+/** Progress and result summary from importing an external playlist */
 interface PlaylistImportResult {
   /** Source platform (youtube, soundcloud, etc.) */
   platform: string;
+  /** Playlist URL, absent for pasted track lists */
+  sourceUrl?: string;
+  /** Name of the source playlist, once known */
+  playlistName?: string;
+  /** Owner, description and cover image of the source playlist, once known */
+  details?: PlaylistDetails;
+  /** Source tracks left out because the playlist was longer than the import limit */
+  truncated?: number;
+  /** Current stage of the import */
+  status: 'fetching' | 'matching' | 'done' | 'cancelled';
+  /** Number of tracks matched so far */
+  completed: number;
   /** Import statistics */
   summary: {
     total: number;
     found: number;
+    uncertain: number;
     notFound: number;
   };
 }
 
-/** Individual track result from playlist import */
-interface ImportedTrackResult {
-  /** Whether the track was found on Spotify */
-  status: 'found' | 'not_found';
-  /** Matched Spotify track, null if not found */
-  spotifyTrack: TrackWithLiked | null;
-  /** Original track title from source platform */
-  originalTitle: string;
-  /** Original artist name from source platform */
-  originalArtist?: string;
-}
+/** A progress event streamed from /api/import-playlist */
+type ImportStreamEvent =
+  | { type: 'fetching'; platform: string }
+  | { type: 'extracted'; platform: string; playlistName: string; details: PlaylistDetails; total: number; truncated: number }
+  | { type: 'matched'; index: number; completed: number; total: number; track: ImportedTrackResult }
+  | { type: 'done'; platform: string; playlistName: string; details: PlaylistDetails; truncated: number; summary: PlaylistImportResult['summary'] }
+  | { type: 'error'; error: string };
 
 export default function SearchApp({ initialQuery }: SearchAppProps) {
   const [tracks, setTracks] = useState<TrackWithLiked[]>([]);
@@ -75,15 +88,22 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
   const [error, setError] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
   const [selectedTrack, setSelectedTrack] = useState<SpotifyTrack | null>(null);
-  const [recentActions, setRecentActions] = useState<RecentAction[]>([]);
   const [showHistory, setShowHistory] = useState(false);
   const [urlImportSource, setUrlImportSource] = useState<string | null>(null);
   const [spotifyCurrentTrack, setSpotifyCurrentTrack] = useState<SpotifyTrack | null>(null);
   const [announcement, setAnnouncement] = useState<string>('');
   const [searchSuggestions, setSearchSuggestions] = useState<string[]>([]);
   const [playlistImport, setPlaylistImport] = useState<PlaylistImportResult | null>(null);
+  const [importRows, setImportRows] = useState<ImportedTrackResult[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [playlistTracks, setPlaylistTracks] = useState<SpotifyTrack[] | null>(null);
+  const [openPlaylistId, setOpenPlaylistId] = useState<string | null>(null);
+  const [isSavingPlaylist, setIsSavingPlaylist] = useState(false);
+  const [savedPlaylist, setSavedPlaylist] = useState<CreatePlaylistResponse | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ query: string; table: CsvTable; options: ImportOptions } | null>(null);
   const [hasActiveSession, setHasActiveSession] = useState(false);
   const searchInputRef = useRef<HTMLInputElement | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
 
   /** Announces messages to screen readers */
   const announce = (message: string): void => {
@@ -94,6 +114,8 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
 
   // Use custom hooks for search history (DRY principle)
   const { history: searchHistory, addToHistory, clearHistory: clearSearchHistory } = useSearchHistory();
+  const actionLog = useActionLog();
+  const { record: recordAction, undo: undoAction, undoLast: undoLastAction } = actionLog;
 
   const handleLikeToggle = useCallback(async (trackId: string, shouldLike: boolean) => {
     const method = shouldLike ? 'POST' : 'DELETE';
@@ -108,33 +130,42 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
       throw new Error(data.error || 'Failed to update like status');
     }
 
-    // Update local state
+    // Log the action, then update local state and announce to screen readers
+    const likedTrack = tracks.find((t) => t.id === trackId);
+    if (likedTrack) {
+      recordAction({
+        tracks: [likedTrack],
+        action: shouldLike ? 'liked' : 'unliked',
+        inverse: { type: shouldLike ? 'unlike' : 'like', trackIds: [trackId] },
+      });
+    }
     setTracks((prev) =>
       prev.map((track) =>
         track.id === trackId ? { ...track, isLiked: shouldLike } : track
       )
     );
-
-    // Add to recent actions and announce to screen readers
-    // Use setTracks callback to access current tracks without stale closure
-    setTracks((currentTracks) => {
-      const likedTrack = currentTracks.find((t) => t.id === trackId);
-      if (likedTrack) {
-        if (shouldLike) {
-          setRecentActions((prev) => [
-            { track: likedTrack, action: 'liked', timestamp: new Date() },
-            ...prev.slice(0, UI.MAX_RECENT_ACTIONS - 1),
-          ]);
-          announce(`${likedTrack.name} saved to Liked Songs`);
-        } else {
-          announce(`${likedTrack.name} removed from Liked Songs`);
-        }
+    if (likedTrack) {
+      announce(shouldLike
+        ? `${likedTrack.name} saved to Liked Songs`
+        : `${likedTrack.name} removed from Liked Songs`);
+    }
+  }, [tracks, recordAction]);
+
+  const handleSearch = useCallback(async (query: string, options: ImportOptions = {}) => {
+    // CSV whose headers don't say which column is which needs mapping before it's imported
+    if (!options.columns && isTextTrackList(query) && !detectLibraryExport(query)) {
+      const table = readCsvTable(query);
+      if (table?.ambiguous) {
+        setPendingCsv({ query, table, options });
+        return;
       }
-      return currentTracks;
-    });
-  }, []);
+    }
+
+    // A new search supersedes any request (e.g. a playlist import) still in flight
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
 
-  const handleSearch = useCallback(async (query: string) => {
     setShowHistory(false);
     setIsLoading(true);
     setError(null);
@@ -142,9 +173,15 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
     setUrlImportSource(null);
     setSearchSuggestions([]);
     setPlaylistImport(null);
+    setImportRows([]);
+    setIsReviewing(false);
+    setSavedPlaylist(null);
+
+    // Check if query is an uploaded export from another service, or a playlist file (M3U, XSPF, PLS)
+    const fileFormat = detectLibraryExport(query) ?? detectPlaylistFileFormat(query);
 
     // Check if query is a text track list (multi-line or "Artist - Title" format)
-    const isTextList = isTextTrackList(query);
+    const isTextList = !!fileFormat || isTextTrackList(query);
 
     // Check if query is a playlist URL first
     const playlistParsed = parsePlaylistUrl(query);
@@ -156,37 +193,90 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
       let data;
 
       if (isTextList || playlistParsed) {
-        // Handle playlist import
+        // Handle playlist import, streaming progress so results render as they are matched
+        const platform = playlistParsed?.platform ?? fileFormat ?? 'text';
+        const sourceUrl = playlistParsed ? query : undefined;
+        setPlaylistImport({
+          platform,
+          sourceUrl,
+          status: 'fetching',
+          completed: 0,
+          summary: { total: 0, found: 0, uncertain: 0, notFound: 0 },
+        });
+
         const response = await fetch('/api/import-playlist', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ url: query }),
+          body: JSON.stringify({ url: query, stream: true, ...options }),
+          signal: controller.signal,
         });
-        data = await response.json();
 
         if (!response.ok) {
+          data = await response.json();
           throw new Error(data.error || 'Playlist import failed');
         }
 
-        // Extract found tracks
-        const foundTracks = (data.tracks as ImportedTrackResult[])
-          .filter((t) => t.status === 'found' && t.spotifyTrack !== null)
-          .map((t) => t.spotifyTrack as TrackWithLiked);
-
-        setTracks(foundTracks);
-        setUrlImportSource(data.platform);
-        setPlaylistImport({
-          platform: data.platform,
-          summary: data.summary,
-        });
-
-        announce(`Imported playlist: ${data.summary.found} of ${data.summary.total} tracks found`);
+        // Matches arrive in completion order - keep them in source order
+        const matched: (TrackWithLiked | null)[] = [];
+        const rows: ImportedTrackResult[] = [];
+
+        for await (const { data: event } of readSse<ImportStreamEvent>(response)) {
+          if (event.type === 'error') {
+            throw new Error(event.error || 'Playlist import failed');
+          }
+
+          if (event.type === 'extracted') {
+            setUrlImportSource(event.platform);
+            setTracks([]);
+            setPlaylistImport({
+              platform: event.platform,
+              sourceUrl,
+              playlistName: event.playlistName,
+              details: event.details,
+              truncated: event.truncated,
+              status: 'matching',
+              completed: 0,
+              summary: { total: event.total, found: 0, uncertain: 0, notFound: 0 },
+            });
+            setIsLoading(false);
+            announce(`Found ${event.total} tracks, matching on Spotify`);
+          } else if (event.type === 'matched') {
+            const { status, spotifyTrack } = event.track;
+            matched[event.index] = status !== 'not_found' ? spotifyTrack : null;
+            rows[event.index] = event.track;
+            setTracks(matched.filter((t): t is TrackWithLiked => !!t));
+            setImportRows(rows.filter(Boolean));
+            setPlaylistImport((prev) => prev && {
+              ...prev,
+              completed: event.completed,
+              summary: {
+                total: event.total,
+                found: prev.summary.found + (status === 'found' ? 1 : 0),
+                uncertain: prev.summary.uncertain + (status === 'uncertain' ? 1 : 0),
+                notFound: prev.summary.notFound + (status === 'not_found' ? 1 : 0),
+              },
+            });
+          } else if (event.type === 'done') {
+            setPlaylistImport({
+              platform: event.platform,
+              sourceUrl,
+              playlistName: event.playlistName,
+              details: event.details,
+              truncated: event.truncated,
+              status: 'done',
+              completed: event.summary.total,
+              summary: event.summary,
+            });
+            announce(`Imported playlist: ${event.summary.found} of ${event.summary.total} tracks found`);
+          }
+        }
       } else if (urlParsed) {
         // Handle single track URL import
         const response = await fetch('/api/import-url', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ url: query }),
+          signal: controller.signal,
         });
         data = await response.json();
 
@@ -212,7 +302,9 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
         // Regular search
         addToHistory(query);
 
-        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`);
+        const response = await fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        });
         data = await response.json();
 
         if (!response.ok) {
@@ -234,6 +326,15 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
         }
       }
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Cancelled by the user keeps partial results; superseded searches are simply dropped
+        if (searchAbortRef.current === controller) {
+          setPlaylistImport((prev) => prev && { ...prev, status: 'cancelled' });
+          announce('Import cancelled');
+        }
+        return;
+      }
+
       const error = err instanceof Error ? err : new Error(String(err));
       captureError(error, {
         action: 'search',
@@ -243,12 +344,22 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
       });
       setError(error.message || 'Search failed');
       setTracks([]);
+      setPlaylistImport(null);
       announce(`Error: ${error.message || 'Search failed'}`);
     } finally {
-      setIsLoading(false);
+      if (searchAbortRef.current === controller) {
+        searchAbortRef.current = null;
+        setIsLoading(false);
+      }
     }
   }, [addToHistory]);
 
+  /** Stops an in-progress playlist import, keeping tracks matched so far */
+  const handleCancelImport = useCallback(() => {
+    searchAbortRef.current?.abort();
+    setIsLoading(false);
+  }, []);
+
   // Handle initial query from URL params (e.g., from browser extension)
   const initialQueryProcessed = useRef(false);
   useEffect(() => {
@@ -325,15 +436,19 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
       throw new Error(data.error || 'Failed to like tracks');
     }
 
-    // Update local state to mark all tracks as liked
+    // Log the batch as one undoable action, then mark the tracks as liked locally
+    recordAction({
+      tracks: tracks.filter((track) => trackIds.includes(track.id)),
+      count: trackIds.length,
+      action: 'liked',
+      inverse: { type: 'unlike', trackIds },
+    });
     setTracks((prev) =>
-      prev.map((track) =>
-        trackIds.includes(track.id) ? { ...track, isLiked: true } : track
-      )
+      prev.map((track) => (trackIds.includes(track.id) ? { ...track, isLiked: true } : track))
     );
 
     announce(`Liked ${trackIds.length} tracks`);
-  }, []);
+  }, [tracks, recordAction]);
 
 // Use keyboard shortcuts hook (DRY principle - replaces manual keydown handler)
   useKeyboardShortcuts([
@@ -356,29 +471,123 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
         handleLikeToggle(tracks[0].id, true);
       }
     }),
+    shortcutPresets.undo(() => handleUndo()),
+    shortcutPresets.undoMeta(() => handleUndo()),
   ]);
 
-  const handleAddToPlaylist = useCallback(async (playlistId: string, trackUri: string, playlistName?: string) => {
-    const response = await fetch('/api/playlist/add', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ playlistId, trackUri }),
-    });
+  const handleAddToPlaylist = useCallback(async (playlistId: string, trackUris: string[], playlistName?: string) => {
+    const added: { uri: string; position: number }[] = [];
+    let snapshotId: string | null = null;
+    let skipped = 0;
+    let failedCount = 0;
+
+    // A single track is added even if the playlist has it; several skip ones it already has
+    for (let i = 0; i < trackUris.length; i += VALIDATION.MAX_BULK_PLAYLIST_URIS) {
+      const result = await api.addToPlaylistBulk(
+        playlistId,
+        trackUris.slice(i, i + VALIDATION.MAX_BULK_PLAYLIST_URIS),
+        { skipDuplicates: trackUris.length > 1 }
+      );
+      result.addedUris.forEach((uri, j) => added.push({ uri, position: result.addedPositions[j] }));
+      snapshotId = result.snapshotId ?? snapshotId;
+      skipped += result.skipped;
+      failedCount += result.failed.reduce((sum, batch) => sum + batch.count, 0);
+    }
 
-    if (!response.ok) {
-      const data = await response.json();
-      throw new Error(data.error || 'Failed to add to playlist');
+    // Log whatever was added as one undoable action. Undo removes exactly the added positions,
+    // so copies that were already in the playlist stay
+    const requested = playlistTracks ?? (selectedTrack ? [selectedTrack] : []);
+    if (added.length > 0) {
+      const addedSet = new Set(added.map((item) => item.uri));
+      recordAction({
+        tracks: requested.filter((track) => addedSet.has(track.uri)),
+        count: added.length,
+        action: 'added_to_playlist',
+        playlistId,
+        playlistName,
+        inverse: snapshotId
+          ? { type: 'remove_playlist_positions', playlistId, items: added, snapshotId }
+          : undefined,
+      });
+    }
+
+    if (failedCount > 0) {
+      throw new Error(`${added.length} tracks added, ${failedCount} failed`);
     }
 
-    // Add to recent actions and announce
-    if (selectedTrack) {
-      setRecentActions((prev) => [
-        { track: selectedTrack, action: 'added_to_playlist', playlistName, timestamp: new Date() },
-        ...prev.slice(0, UI.MAX_RECENT_ACTIONS - 1),
-      ]);
-      announce(`${selectedTrack.name} added to ${playlistName || 'playlist'}`);
+    announce(requested.length === 1
+      ? `${requested[0].name} added to ${playlistName || 'playlist'}`
+      : `${added.length} tracks added to ${playlistName || 'playlist'}${skipped > 0 ? `, ${skipped} already there` : ''}`);
+  }, [selectedTrack, playlistTracks, recordAction]);
+
+  /** Reverses a logged action and mirrors like changes in the results */
+  const handleUndo = useCallback(async (id?: string) => {
+    try {
+      const entry = id ? await undoAction(id) : await undoLastAction();
+      if (!entry?.inverse) return;
+
+      const { inverse } = entry;
+      if (inverse.type === 'unlike' || inverse.type === 'like') {
+        const isLiked = inverse.type === 'like';
+        setTracks((prev) =>
+          prev.map((track) => (inverse.trackIds.includes(track.id) ? { ...track, isLiked } : track))
+        );
+      }
+
+      const label = entry.count === 1 && entry.tracks[0] ? entry.tracks[0].name : `${entry.count} tracks`;
+      announce(entry.action === 'added_to_playlist'
+        ? `Undid adding ${label} to ${entry.playlistName || 'playlist'}`
+        : `Undid ${entry.action === 'liked' ? 'like' : 'unlike'} of ${label}`);
+    } catch (err) {
+      // The log hook has already reported the error
+      announce(`Undo failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [undoAction, undoLastAction]);
+
+  /** Replaces the imported results with the tracks confirmed during review */
+  const handleReviewDone = useCallback((confirmed: SpotifyTrack[]) => {
+    const liked = new Map(tracks.map((track) => [track.id, track.isLiked]));
+    setTracks(confirmed.map((track) => ({ ...track, isLiked: liked.get(track.id) ?? false })));
+    setIsReviewing(false);
+    announce(`${confirmed.length} confirmed tracks`);
+  }, [tracks]);
+
+  /** Saves the matched tracks, in source order, as a new playlist named after the source */
+  const handleSaveAsPlaylist = useCallback(async () => {
+    if (!playlistImport || tracks.length === 0) return;
+
+    const platformName = PLATFORM_NAMES[playlistImport.platform] || playlistImport.platform;
+    const description = playlistImport.sourceUrl
+      ? `Imported from ${platformName}: ${playlistImport.sourceUrl}`
+      : 'Imported from a pasted track list';
+
+    setIsSavingPlaylist(true);
+    try {
+      const result = await api.createPlaylist({
+        name: playlistImport.playlistName || `Imported from ${platformName}`,
+        description,
+        trackUris: tracks.map((track) => track.uri),
+      });
+      setSavedPlaylist(result);
+      const failedCount = result.failed.reduce((sum, batch) => sum + batch.count, 0);
+      announce(failedCount > 0
+        ? `Created ${result.playlist.name} with ${result.added} tracks, ${failedCount} could not be added`
+        : `Created ${result.playlist.name} with ${result.added} tracks`);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      captureError(error, {
+        action: 'create_playlist',
+        platform: playlistImport.platform,
+        trackCount: tracks.length,
+      });
+      setError(error.message || 'Failed to create playlist');
+    } finally {
+      setIsSavingPlaylist(false);
     }
-  }, [selectedTrack]);
+  }, [playlistImport, tracks]);
+
+  const needsReviewCount = importRows.filter((row) => row.status !== 'found').length;
+  const savedFailedCount = savedPlaylist?.failed.reduce((sum, batch) => sum + batch.count, 0) ?? 0;
 
   return (
     <div className="relative flex flex-col space-y-6 rounded-3xl border border-white/8 bg-black/50 backdrop-blur-2xl px-5 py-6 sm:px-8 sm:py-7 shadow-[0_26px_90px_rgba(0,0,0,0.85)] max-h-[calc(100vh-7rem)] overflow-hidden">
@@ -462,22 +671,119 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
               <path d="M15 6H3v2h12V6zm0 4H3v2h12v-2zM3 16h8v-2H3v2zM17 6v8.18c-.31-.11-.65-.18-1-.18-1.66 0-3 1.34-3 3s1.34 3 3 3 3-1.34 3-3V8h3V6h-5z" />
             </svg>
             <span className="font-medium text-white">
-              Playlist imported from {PLATFORM_NAMES[playlistImport.platform] || playlistImport.platform}
+              {playlistImport.status === 'fetching' && `Fetching playlist from ${PLATFORM_NAMES[playlistImport.platform] || playlistImport.platform}...`}
+              {playlistImport.status === 'matching' && `Matching tracks from ${PLATFORM_NAMES[playlistImport.platform] || playlistImport.platform}...`}
+              {playlistImport.status === 'done' && `Playlist imported from ${PLATFORM_NAMES[playlistImport.platform] || playlistImport.platform}`}
+              {playlistImport.status === 'cancelled' && 'Import cancelled'}
             </span>
+            {(playlistImport.status === 'fetching' || playlistImport.status === 'matching') && (
+              <button
+                onClick={handleCancelImport}
+                className="ml-auto px-3 py-1 text-xs rounded-full border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
           </div>
-          <div className="mt-2 flex items-center gap-4 text-sm text-spotify-lightgray">
-            <span className="flex items-center gap-1">
-              <span className="text-spotify-green font-medium">{playlistImport.summary.found}</span> found
-            </span>
-            {playlistImport.summary.notFound > 0 && (
+          {(playlistImport.playlistName || playlistImport.details?.imageUrl) && (
+            <div className="mt-3 flex items-center gap-3">
+              {playlistImport.details?.imageUrl && (
+                <img
+                  src={playlistImport.details.imageUrl}
+                  alt=""
+                  className="w-14 h-14 rounded object-cover flex-shrink-0"
+                  loading="lazy"
+                />
+              )}
+              <div className="min-w-0">
+                <p className="font-semibold text-white truncate">{playlistImport.playlistName}</p>
+                {playlistImport.details?.owner && (
+                  <p className="text-xs text-spotify-lightgray truncate">by {playlistImport.details.owner}</p>
+                )}
+                {playlistImport.details?.description && (
+                  <p className="text-xs text-spotify-lightgray/80 line-clamp-2">{playlistImport.details.description}</p>
+                )}
+              </div>
+            </div>
+          )}
+          {playlistImport.status === 'matching' && playlistImport.summary.total > 0 && (
+            <div
+              role="progressbar"
+              aria-label="Import progress"
+              aria-valuemin={0}
+              aria-valuemax={playlistImport.summary.total}
+              aria-valuenow={playlistImport.completed}
+              className="mt-3 h-1.5 rounded-full bg-white/10 overflow-hidden"
+            >
+              <div
+                className="h-full bg-spotify-green transition-all duration-300"
+                style={{ width: `${(playlistImport.completed / playlistImport.summary.total) * 100}%` }}
+              />
+            </div>
+          )}
+          {playlistImport.status !== 'fetching' && (
+            <div className="mt-2 flex items-center gap-4 text-sm text-spotify-lightgray">
               <span className="flex items-center gap-1">
-                <span className="text-amber-400 font-medium">{playlistImport.summary.notFound}</span> not found
+                <span className="text-spotify-green font-medium">{playlistImport.summary.found}</span> found
               </span>
-            )}
-            <span className="text-spotify-lightgray/60">
-              ({playlistImport.summary.total} total)
-            </span>
-          </div>
+              {playlistImport.summary.uncertain > 0 && (
+                <span className="flex items-center gap-1">
+                  <span className="text-amber-400 font-medium">{playlistImport.summary.uncertain}</span> uncertain
+                </span>
+              )}
+              {playlistImport.summary.notFound > 0 && (
+                <span className="flex items-center gap-1">
+                  <span className="text-amber-400 font-medium">{playlistImport.summary.notFound}</span> not found
+                </span>
+              )}
+              <span className="text-spotify-lightgray/60">
+                {playlistImport.status === 'done'
+                  ? `(${playlistImport.summary.total} total)`
+                  : `(${playlistImport.completed} of ${playlistImport.summary.total} checked)`}
+              </span>
+              {(playlistImport.status === 'done' || playlistImport.status === 'cancelled')
+                && needsReviewCount > 0 && !isReviewing && (
+                <button
+                  onClick={() => setIsReviewing(true)}
+                  className="ml-auto px-3 py-1 text-xs rounded-full bg-amber-500/10 text-amber-400 border border-amber-500/30 hover:bg-amber-500/20 transition-colors"
+                >
+                  Review {needsReviewCount}
+                </button>
+              )}
+              {(playlistImport.status === 'done' || playlistImport.status === 'cancelled')
+                && tracks.length > 0 && !isReviewing && !savedPlaylist && (
+                <button
+                  onClick={handleSaveAsPlaylist}
+                  disabled={isSavingPlaylist}
+                  className={`${needsReviewCount > 0 ? '' : 'ml-auto '}px-3 py-1 text-xs rounded-full bg-spotify-green/10 text-spotify-green border border-spotify-green/30 hover:bg-spotify-green/20 disabled:opacity-50 transition-colors`}
+                >
+                  {isSavingPlaylist ? 'Saving...' : 'Save as new playlist'}
+                </button>
+              )}
+            </div>
+          )}
+          {playlistImport.status !== 'fetching' && !!playlistImport.truncated && (
+            <p className="mt-2 text-xs text-amber-400">
+              Only the first {playlistImport.summary.total} tracks were imported - {playlistImport.truncated} more
+              {playlistImport.truncated === 1 ? ' was' : ' were'} over the import limit
+            </p>
+          )}
+          {savedPlaylist && (
+            <p className="mt-2 text-sm text-spotify-lightgray" role="status">
+              Saved {savedPlaylist.added} tracks to{' '}
+              <a
+                href={savedPlaylist.playlist.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-spotify-green hover:underline"
+              >
+                {savedPlaylist.playlist.name}
+              </a>
+              {savedFailedCount > 0 && (
+                <span className="text-amber-400"> · {savedFailedCount} could not be added</span>
+              )}
+            </p>
+          )}
         </div>
       )}
 
@@ -519,7 +825,16 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
           {/* Track list column (scrollable) */}
           <div className="flex-1 min-h-0">
             <div className="h-full min-h-0 overflow-y-auto pr-1 pb-28">
-              {hasSearched && !isLoading && !error && (
+              {isReviewing && !error && (
+                <ImportReview
+                  rows={importRows}
+                  onLikeAll={handleLikeAll}
+                  onAddToPlaylist={setPlaylistTracks}
+                  onDone={handleReviewDone}
+                />
+              )}
+
+              {hasSearched && !isLoading && !error && !isReviewing && (
                 <TrackList
                   tracks={tracks}
                   onLikeToggle={handleLikeToggle}
@@ -528,6 +843,7 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
                   onAddToQueue={handleAddToQueue}
                   onPlayNow={handlePlayNow}
                   onLikeAll={handleLikeAll}
+                  onAddManyToPlaylist={setPlaylistTracks}
                 />
               )}
 
@@ -541,17 +857,26 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
                     Tip: Paste a YouTube, SoundCloud, Spotify, or most other music links to find them on
                     Spotify
                   </p>
+                  <div className="mt-6 flex justify-center">
+                    <ExportMenu source={{ kind: 'liked' }} label="Export Liked Songs" />
+                  </div>
                 </div>
               )}
             </div>
           </div>
 
           {/* Sidebar (sticks within card, does not scroll independently) */}
-          {(recentActions.length > 0 || spotifyCurrentTrack) && (
+          {(actionLog.actions.length > 0 || spotifyCurrentTrack) && (
             <div className="mt-4 flex flex-col gap-4 lg:mt-0 lg:w-80 flex-shrink-0">
               {/* Recent Activity */}
-              {recentActions.length > 0 && (
-                <RecentActivity actions={recentActions} onClear={() => setRecentActions([])} />
+              {actionLog.actions.length > 0 && (
+                <RecentActivity
+                  actions={actionLog.actions}
+                  onClear={actionLog.clear}
+                  onUndo={handleUndo}
+                  undoingId={actionLog.undoingId}
+                  onOpenPlaylist={setOpenPlaylistId}
+                />
               )}
 
               {/* Recommendations based on Spotify now playing */}
@@ -566,11 +891,34 @@ export default function SearchApp({ initialQuery }: SearchAppProps) {
         </div>
       </div>
 
-      {selectedTrack && (
+      {(playlistTracks || selectedTrack) && (
         <PlaylistSelector
-          track={selectedTrack}
-          onClose={() => setSelectedTrack(null)}
+          tracks={playlistTracks ?? [selectedTrack as SpotifyTrack]}
+          onClose={() => {
+            setPlaylistTracks(null);
+            setSelectedTrack(null);
+          }}
           onAdd={handleAddToPlaylist}
+          onOpenPlaylist={(playlistId) => {
+            setPlaylistTracks(null);
+            setSelectedTrack(null);
+            setOpenPlaylistId(playlistId);
+          }}
+        />
+      )}
+
+      {openPlaylistId && (
+        <PlaylistDetail playlistId={openPlaylistId} onClose={() => setOpenPlaylistId(null)} />
+      )}
+
+      {pendingCsv && (
+        <CsvColumnMapper
+          table={pendingCsv.table}
+          onConfirm={(columns) => {
+            setPendingCsv(null);
+            handleSearch(pendingCsv.query, { ...pendingCsv.options, columns });
+          }}
+          onCancel={() => setPendingCsv(null)}
         />
       )}
     </div>
@@ -1,4 +1,21 @@
 import { useState, useCallback, useRef, useEffect, useLayoutEffect } from 'react';
+import { VALIDATION } from '../lib/constants';
+import { detectLibraryExport, LIBRARY_EXPORT_NAMES, type LibraryExportFormat } from '../lib/library-exports';
+import type { ImportOptions } from '../lib/import/types';
+
+// Playlist files, track lists and library exports that can be uploaded or dropped
+const IMPORT_FILE_ACCEPT = '.m3u,.m3u8,.xspf,.pls,.txt,.csv,.json,.xml';
+
+/**
+ * Read a dropped file as text
+ * Apple Music's text export is UTF-16, which File.text() would garble
+ */
+async function readFileText(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  return new TextDecoder().decode(bytes);
+}
 
 // Isomorphic layout effect - useLayoutEffect on client, useEffect on server
 const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
@@ -6,7 +23,7 @@ const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffec
 /** Props for the search bar component */
 interface SearchBarProps {
   /** Callback triggered when search is submitted */
-  onSearch: (query: string) => void;
+  onSearch: (query: string, options?: ImportOptions) => void;
   /** Whether a search is in progress */
   isLoading?: boolean;
   /** External ref for the input element */
@@ -22,6 +39,11 @@ interface SearchBarProps {
 export default function SearchBar({ onSearch, isLoading, inputRef, onFocus, onBlur, initialValue }: SearchBarProps) {
   const [query, setQuery] = useState(initialValue || '');
   const [isMultiline, setIsMultiline] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [pendingExport, setPendingExport] = useState<{ text: string; format: LibraryExportFormat } | null>(null);
+  const [minPlays, setMinPlays] = useState(1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   const localRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -107,11 +129,84 @@ export default function SearchBar({ onSearch, isLoading, inputRef, onFocus, onBl
     setTimeout(() => textareaRef.current?.focus(), 0);
   };
 
+  // Files are imported straight away, except library exports which ask for a play count
+  // threshold first; the server works out their format
+  const handleFile = async (file: File): Promise<void> => {
+    setFileError(null);
+    setPendingExport(null);
+    if (file.size > VALIDATION.MAX_IMPORT_FILE_BYTES) {
+      setFileError(`${file.name} is too large (max ${VALIDATION.MAX_IMPORT_FILE_BYTES / (1024 * 1024)} MB)`);
+      return;
+    }
+
+    const text = (await readFileText(file)).trim();
+    if (!text) {
+      setFileError(`${file.name} is empty`);
+      return;
+    }
+
+    if (debounceRef.current) {
+      clearTimeout(debounceRef.current);
+    }
+    setQuery('');
+    setIsMultiline(false);
+
+    const format = detectLibraryExport(text);
+    if (format) {
+      setPendingExport({ text, format });
+      return;
+    }
+    onSearch(text);
+  };
+
+  const handleImportExport = (): void => {
+    if (!pendingExport) return;
+    onSearch(pendingExport.text, minPlays > 1 ? { minPlays } : {});
+    setPendingExport(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>): void => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  const handleDragOver = (e: React.DragEvent): void => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent): void => {
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(file);
+  };
+
   const lineCount = query.split('\n').length;
 
   return (
-    <form onSubmit={handleSubmit} className="w-full max-w-2xl mx-auto" role="search">
-      <div className="relative">
+    <form
+      onSubmit={handleSubmit}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className="w-full max-w-2xl mx-auto"
+      role="search"
+    >
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={IMPORT_FILE_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+      <div className={`relative rounded-2xl transition-shadow ${isDragging ? 'ring-2 ring-spotify-green' : ''}`}>
         <label htmlFor="search-input" className="sr-only">
           Search for tracks, artists, or paste a URL or track list
         </label>
@@ -125,7 +220,7 @@ export default function SearchBar({ onSearch, isLoading, inputRef, onFocus, onBl
               onChange={handleChange}
               onFocus={onFocus}
               onBlur={onBlur}
-              placeholder="Paste your track list here (one per line)&#10;&#10;Supported formats:&#10;  Artist - Song Title&#10;  Song Title by Artist&#10;  Just the song title"
+              placeholder="Paste your track list here (one per line)&#10;&#10;Supported formats:&#10;  Artist - Song Title&#10;  Song Title by Artist&#10;  Just the song title&#10;  CSV with a header row (title, artist, ...)&#10;  M3U, XSPF or PLS file contents"
               className="w-full px-4 py-3 pl-12 pr-20 text-base bg-spotify-gray/30 border border-spotify-gray/50 rounded-2xl text-white placeholder-spotify-lightgray focus:outline-none focus:border-spotify-green focus:ring-2 focus:ring-spotify-green/20 transition-all resize-none"
               rows={Math.min(lineCount + 1, 8)}
               autoComplete="off"
@@ -143,6 +238,17 @@ export default function SearchBar({ onSearch, isLoading, inputRef, onFocus, onBl
             </div>
             <div className="absolute right-4 top-3.5 flex items-center gap-2">
               <span className="text-xs text-spotify-lightgray">{lineCount} tracks</span>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="p-1 text-spotify-lightgray hover:text-white transition-colors"
+                aria-label="Import a playlist file"
+                title="Import a playlist file or listening history export"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+              </button>
               <button
                 type="button"
                 onClick={handleClearMultiline}
@@ -215,10 +321,47 @@ export default function SearchBar({ onSearch, isLoading, inputRef, onFocus, onBl
         )}
       </div>
 
+      {pendingExport && (
+        <div className="mt-2 flex flex-wrap items-center justify-center gap-2 text-xs text-spotify-lightgray">
+          <span className="text-white">{LIBRARY_EXPORT_NAMES[pendingExport.format]} detected</span>
+          <label className="flex items-center gap-1">
+            Only tracks played at least
+            <input
+              type="number"
+              min={1}
+              value={minPlays}
+              onChange={(e) => setMinPlays(Math.max(1, Number.parseInt(e.target.value, 10) || 1))}
+              className="w-14 px-2 py-0.5 bg-spotify-gray/30 border border-spotify-gray/50 rounded text-white focus:outline-none focus:border-spotify-green"
+            />
+            times
+          </label>
+          <button
+            type="button"
+            onClick={handleImportExport}
+            className="px-3 py-1 bg-spotify-green hover:bg-spotify-green/90 text-black font-medium rounded-full transition-colors"
+          >
+            Import
+          </button>
+          <button
+            type="button"
+            onClick={() => setPendingExport(null)}
+            className="px-2 py-1 hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {fileError && (
+        <p className="text-center text-xs text-red-400 mt-2" role="alert">{fileError}</p>
+      )}
+
       {/* Hint for import feature */}
-      {!isMultiline && !query && (
+      {isDragging ? (
+        <p className="text-center text-xs text-spotify-green mt-2">Drop a playlist file, track list or listening history export to import it</p>
+      ) : !isMultiline && !query && (
         <p className="text-center text-xs text-spotify-lightgray/60 mt-2">
-          Tip: Click <span className="inline-flex items-center"><svg className="w-3 h-3 mx-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg></span> to paste a list of tracks (one per line)
+          Tip: Click <span className="inline-flex items-center"><svg className="w-3 h-3 mx-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg></span> to paste a list of tracks (one per line), or drop a playlist file here
         </p>
       )}
     </form>
@@ -0,0 +1,87 @@
+/** Bulk action currently in progress */
+export type SelectionAction = 'like' | 'queue';
+
+/** Props for the floating multi-select action bar */
+interface SelectionBarProps {
+  /** Number of selected tracks */
+  count: number;
+  /** Action in progress, if any */
+  busyAction: SelectionAction | null;
+  /** Result of the last action, shown next to the count */
+  message?: string | null;
+  /** Callback to like the selected tracks */
+  onLike?: () => void;
+  /** Callback to queue the selected tracks (only shown with an active session) */
+  onQueue?: () => void;
+  /** Callback to add the selected tracks to a playlist */
+  onAddToPlaylist?: () => void;
+  /** Callback to clear the selection */
+  onClear: () => void;
+}
+
+const actionClass =
+  'px-4 py-2 rounded-full text-sm font-medium transition-colors disabled:opacity-50';
+
+export default function SelectionBar({
+  count,
+  busyAction,
+  message,
+  onLike,
+  onQueue,
+  onAddToPlaylist,
+  onClear,
+}: SelectionBarProps) {
+  if (count === 0) return null;
+
+  const isBusy = busyAction !== null;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label={`Actions for ${count} selected tracks`}
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center gap-2 px-4 py-3 rounded-full border border-white/10 bg-spotify-black/95 backdrop-blur shadow-[0_18px_60px_rgba(0,0,0,0.8)]"
+    >
+      <span className="px-2 text-sm text-white" aria-live="polite">
+        {count} selected
+        {message && <span className="ml-2 text-spotify-lightgray">· {message}</span>}
+      </span>
+      {onLike && (
+        <button
+          onClick={onLike}
+          disabled={isBusy}
+          className={`${actionClass} bg-spotify-green/10 text-spotify-green hover:bg-spotify-green/20 border border-spotify-green/30`}
+        >
+          {busyAction === 'like' ? 'Liking...' : 'Like'}
+        </button>
+      )}
+      {onQueue && (
+        <button
+          onClick={onQueue}
+          disabled={isBusy}
+          className={`${actionClass} border border-white/15 text-white hover:border-white/30`}
+        >
+          {busyAction === 'queue' ? 'Queueing...' : 'Queue'}
+        </button>
+      )}
+      {onAddToPlaylist && (
+        <button
+          onClick={onAddToPlaylist}
+          disabled={isBusy}
+          className={`${actionClass} border border-white/15 text-white hover:border-white/30`}
+        >
+          Add to playlist
+        </button>
+      )}
+      <button
+        onClick={onClear}
+        disabled={isBusy}
+        className="p-2 rounded-full text-spotify-lightgray hover:text-white transition-colors disabled:opacity-50"
+        aria-label="Clear selection"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import type { SpotifyTrack } from '../lib/spotify';
 import { formatDuration, getAlbumImageUrl, formatArtists } from '../lib/spotify';
 import { copyTrackUrl } from '../lib/clipboard';
@@ -19,6 +19,10 @@ interface TrackCardProps {
   onAddToQueue?: (track: SpotifyTrack) => Promise<void>;
   /** Callback to play track immediately on Spotify */
   onPlayNow?: (track: SpotifyTrack) => Promise<void>;
+  /** Whether the track is selected (multi-select mode) */
+  isSelected?: boolean;
+  /** Callback to toggle selection; extendRange is set for shift-clicks. Shows a checkbox when provided */
+  onSelect?: (extendRange: boolean) => void;
 }
 
 export default function TrackCard({
@@ -28,6 +32,8 @@ export default function TrackCard({
   hasActiveSession = false,
   onAddToQueue,
   onPlayNow,
+  isSelected = false,
+  onSelect,
 }: TrackCardProps) {
   const [isLiked, setIsLiked] = useState(track.isLiked);
   const [isLikeLoading, setIsLikeLoading] = useState(false);
@@ -36,6 +42,11 @@ export default function TrackCard({
   const [queueSuccess, setQueueSuccess] = useState(false);
   const [queueError, setQueueError] = useState<string | null>(null);
 
+  // Follow like changes made outside the card (Like All, undo)
+  useEffect(() => {
+    setIsLiked(track.isLiked);
+  }, [track.isLiked]);
+
   const albumImage = getAlbumImageUrl(track.album, 'medium');
   const artists = formatArtists(track.artists);
 
@@ -111,8 +122,31 @@ export default function TrackCard({
   };
 
   return (
-    <div className="group relative w-full max-w-full overflow-hidden rounded-2xl border border-white/5 bg-white/[0.02] shadow-[0_18px_60px_rgba(0,0,0,0.7)] hover:border-emerald-400/40 hover:bg-white/[0.04] transition-all">
+    <div className={`group relative w-full max-w-full overflow-hidden rounded-2xl border shadow-[0_18px_60px_rgba(0,0,0,0.7)] hover:border-emerald-400/40 hover:bg-white/[0.04] transition-all ${
+      isSelected ? 'border-spotify-green/50 bg-spotify-green/[0.06]' : 'border-white/5 bg-white/[0.02]'
+    }`}>
       <div className="flex items-center gap-4 px-4 py-3 w-full min-w-0">
+        {/* Selection checkbox - multi-select mode only */}
+        {onSelect && (
+          <button
+            role="checkbox"
+            aria-checked={isSelected}
+            onClick={(e) => onSelect(e.shiftKey)}
+            className={`flex-shrink-0 w-5 h-5 rounded border flex items-center justify-center transition-colors ${
+              isSelected
+                ? 'bg-spotify-green border-spotify-green text-black'
+                : 'border-white/30 hover:border-white/60'
+            }`}
+            aria-label={`Select ${track.name}`}
+          >
+            {isSelected && (
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+              </svg>
+            )}
+          </button>
+        )}
+
         {/* Album Art */}
         <div className="flex-shrink-0">
           {albumImage ? (
@@ -1,7 +1,9 @@
-import { useState } from 'react';
+import { useState, useRef } from 'react';
 import type { SpotifyTrack } from '../lib/spotify';
 import { captureError } from '../lib/error-tracking';
+import { VALIDATION } from '../lib/constants';
 import TrackCard from './TrackCard';
+import SelectionBar, { type SelectionAction } from './SelectionBar';
 
 /** Props for the track list component */
 interface TrackListProps {
@@ -19,6 +21,8 @@ interface TrackListProps {
   onPlayNow?: (track: SpotifyTrack) => Promise<void>;
   /** Callback to like all tracks at once */
   onLikeAll?: (trackIds: string[]) => Promise<void>;
+  /** Callback to open the playlist selector for several tracks (enables multi-select) */
+  onAddManyToPlaylist?: (tracks: SpotifyTrack[]) => void;
 }
 
 export default function TrackList({
@@ -29,12 +33,97 @@ export default function TrackList({
   onAddToQueue,
   onPlayNow,
   onLikeAll,
+  onAddManyToPlaylist,
 }: TrackListProps) {
   const [isLikingAll, setIsLikingAll] = useState(false);
   const [likeAllSuccess, setLikeAllSuccess] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [busyAction, setBusyAction] = useState<SelectionAction | null>(null);
+  const [selectionMessage, setSelectionMessage] = useState<string | null>(null);
+  // Anchor for shift-click range selection
+  const lastSelectedIndexRef = useRef<number | null>(null);
 
   const unlikedTracks = tracks.filter(t => !t.isLiked);
   const hasUnlikedTracks = unlikedTracks.length > 0;
+  const canSelect = !!onAddManyToPlaylist;
+  const selectedTracks = tracks.filter(t => selectedIds.has(t.id));
+
+  const handleSelect = (index: number, extendRange: boolean): void => {
+    const anchor = lastSelectedIndexRef.current;
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (extendRange && anchor !== null && anchor < tracks.length) {
+        const [start, end] = anchor < index ? [anchor, index] : [index, anchor];
+        for (let i = start; i <= end; i++) {
+          next.add(tracks[i].id);
+        }
+      } else if (next.has(tracks[index].id)) {
+        next.delete(tracks[index].id);
+      } else {
+        next.add(tracks[index].id);
+      }
+      return next;
+    });
+    lastSelectedIndexRef.current = index;
+    setSelectionMessage(null);
+  };
+
+  const exitSelection = (): void => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+    setSelectionMessage(null);
+    lastSelectedIndexRef.current = null;
+  };
+
+  const handleLikeSelected = async (): Promise<void> => {
+    if (!onLikeAll) return;
+    const trackIds = selectedTracks.filter(t => !t.isLiked).map(t => t.id);
+    if (trackIds.length === 0) {
+      setSelectionMessage('already liked');
+      return;
+    }
+
+    setBusyAction('like');
+    try {
+      for (let i = 0; i < trackIds.length; i += VALIDATION.MAX_BULK_LIKE_IDS) {
+        await onLikeAll(trackIds.slice(i, i + VALIDATION.MAX_BULK_LIKE_IDS));
+      }
+      setSelectionMessage(`liked ${trackIds.length}`);
+    } catch (err) {
+      captureError(err instanceof Error ? err : new Error(String(err)), {
+        action: 'like_selected_tracks',
+        trackCount: trackIds.length,
+      });
+      setSelectionMessage('like failed');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleQueueSelected = async (): Promise<void> => {
+    if (!onAddToQueue) return;
+
+    setBusyAction('queue');
+    let queued = 0;
+    try {
+      // Queue one at a time so tracks play in list order
+      for (const track of selectedTracks) {
+        await onAddToQueue(track);
+        queued++;
+      }
+      setSelectionMessage(`queued ${queued}`);
+    } catch (err) {
+      captureError(err instanceof Error ? err : new Error(String(err)), {
+        action: 'queue_selected_tracks',
+        trackCount: selectedTracks.length,
+        queued,
+      });
+      setSelectionMessage(`queued ${queued}, then failed`);
+    } finally {
+      setBusyAction(null);
+    }
+  };
 
   const handleLikeAll = async (): Promise<void> => {
     if (!onLikeAll || unlikedTracks.length === 0) return;
@@ -99,49 +188,62 @@ export default function TrackList({
         }
       `}</style>
 
-      {/* Like All Button */}
-      {onLikeAll && hasUnlikedTracks && (
-        <div className="flex items-center justify-between mb-3 pb-3 border-b border-white/10">
+      {/* Like All and multi-select toggle */}
+      {((onLikeAll && hasUnlikedTracks) || canSelect) && (
+        <div className="flex items-center justify-between gap-2 mb-3 pb-3 border-b border-white/10">
           <span className="text-sm text-spotify-lightgray">
-            {tracks.length} tracks · {unlikedTracks.length} not liked
+            {tracks.length} tracks{hasUnlikedTracks && ` · ${unlikedTracks.length} not liked`}
           </span>
-          <button
-            onClick={handleLikeAll}
-            disabled={isLikingAll}
-            className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
-              likeAllSuccess
-                ? 'bg-spotify-green text-black'
-                : 'bg-spotify-green/10 text-spotify-green hover:bg-spotify-green/20 border border-spotify-green/30'
-            } disabled:opacity-50`}
-            aria-label={`Like all ${unlikedTracks.length} unliked tracks`}
-          >
-            {isLikingAll ? (
-              <>
-                <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-                Liking...
-              </>
-            ) : likeAllSuccess ? (
-              <>
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                </svg>
-                Liked All!
-              </>
-            ) : (
-              <>
-                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
-                </svg>
-                Like All ({unlikedTracks.length})
-              </>
+          <div className="flex items-center gap-2">
+            {canSelect && (
+              <button
+                onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+                aria-pressed={isSelecting}
+                className="px-4 py-2 rounded-full text-sm font-medium border border-white/15 text-spotify-lightgray hover:text-white hover:border-white/30 transition-colors"
+              >
+                {isSelecting ? 'Done' : 'Select'}
+              </button>
             )}
-          </button>
+            {onLikeAll && hasUnlikedTracks && (
+              <button
+                onClick={handleLikeAll}
+                disabled={isLikingAll}
+                className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-all ${
+                  likeAllSuccess
+                    ? 'bg-spotify-green text-black'
+                    : 'bg-spotify-green/10 text-spotify-green hover:bg-spotify-green/20 border border-spotify-green/30'
+                } disabled:opacity-50`}
+                aria-label={`Like all ${unlikedTracks.length} unliked tracks`}
+              >
+                {isLikingAll ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                    Liking...
+                  </>
+                ) : likeAllSuccess ? (
+                  <>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                    </svg>
+                    Liked All!
+                  </>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
+                    </svg>
+                    Like All ({unlikedTracks.length})
+                  </>
+                )}
+              </button>
+            )}
+          </div>
         </div>
       )}
 
       <div className="track-list-scroll max-h-[60vh] overflow-y-scroll pr-1 w-full">
         <ul role="list" aria-label="Search results" className="space-y-1 w-full">
-          {tracks.map((track) => (
+          {tracks.map((track, index) => (
             <li key={track.id} className="w-full min-w-0 max-w-full">
               <TrackCard
                 track={track}
@@ -150,11 +252,25 @@ export default function TrackList({
                 hasActiveSession={hasActiveSession}
                 onAddToQueue={onAddToQueue}
                 onPlayNow={onPlayNow}
+                isSelected={selectedIds.has(track.id)}
+                onSelect={isSelecting ? (extendRange) => handleSelect(index, extendRange) : undefined}
               />
             </li>
           ))}
         </ul>
       </div>
+
+      {isSelecting && (
+        <SelectionBar
+          count={selectedTracks.length}
+          busyAction={busyAction}
+          message={selectionMessage}
+          onLike={onLikeAll ? handleLikeSelected : undefined}
+          onQueue={hasActiveSession && onAddToQueue ? handleQueueSelected : undefined}
+          onAddToPlaylist={onAddManyToPlaylist && (() => onAddManyToPlaylist(selectedTracks))}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
     </>
   );
 }
@@ -6,3 +6,4 @@ export { useSearchHistory, type UseSearchHistoryReturn } from './useSearchHistor
 export { useKeyboardShortcuts, shortcutPresets, type KeyboardShortcut, type UseKeyboardShortcutsOptions } from './useKeyboardShortcuts';
 export { useLikeToggle } from './useLikeToggle';
 export { useApiRequest, useTrackedFetch } from './useApiRequest';
+export { useActionLog, type RecentAction, type NewRecentAction, type InverseOperation, type UseActionLogReturn } from './useActionLog';
@@ -0,0 +1,156 @@
+/**
+ * Custom hook for the recent activity log, where each entry can be undone
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import type { SpotifyTrack } from '../lib/spotify';
+import { api } from '../lib/api-client';
+import { captureError } from '../lib/error-tracking';
+import { UI, VALIDATION } from '../lib/constants';
+
+/** The operation that reverses a logged action */
+export type InverseOperation =
+  | { type: 'unlike'; trackIds: string[] }
+  | { type: 'like'; trackIds: string[] }
+  | {
+      type: 'remove_playlist_positions';
+      playlistId: string;
+      /** The added occurrences, so copies that were already in the playlist stay */
+      items: { uri: string; position: number }[];
+      /** Playlist version the positions refer to */
+      snapshotId: string;
+    };
+
+/** Represents a recent user action */
+export interface RecentAction {
+  /** Unique ID for undoing this entry */
+  id: string;
+  /** The tracks that were acted upon (several for bulk actions) */
+  tracks: SpotifyTrack[];
+  /** Number of tracks affected, which may exceed tracks.length for bulk actions */
+  count: number;
+  /** Type of action performed */
+  action: 'liked' | 'unliked' | 'added_to_playlist';
+  /** ID of playlist if action was adding to playlist */
+  playlistId?: string;
+  /** Name of playlist if action was adding to playlist */
+  playlistName?: string;
+  /** When the action occurred */
+  timestamp: Date;
+  /** How to reverse the action, if it can be reversed */
+  inverse?: InverseOperation;
+  /** Whether the action has been undone */
+  undone?: boolean;
+}
+
+export type NewRecentAction = Omit<RecentAction, 'id' | 'timestamp' | 'count'> & { count?: number };
+
+export interface UseActionLogReturn {
+  /** Logged actions, newest first */
+  actions: RecentAction[];
+  /** ID of the action currently being undone */
+  undoingId: string | null;
+  /** Add an action to the log */
+  record: (action: NewRecentAction) => void;
+  /** Undo an action, resolving to the undone entry (null if it can't be undone) */
+  undo: (id: string) => Promise<RecentAction | null>;
+  /** Undo the newest action that hasn't been undone yet */
+  undoLast: () => Promise<RecentAction | null>;
+  /** Clear the log */
+  clear: () => void;
+}
+
+/**
+ * Run an inverse operation, chunked to the bulk endpoints' limits
+ */
+async function runInverse(operation: InverseOperation): Promise<void> {
+  switch (operation.type) {
+    case 'unlike':
+    case 'like': {
+      const { trackIds } = operation;
+      for (let i = 0; i < trackIds.length; i += VALIDATION.MAX_BULK_LIKE_IDS) {
+        const chunk = trackIds.slice(i, i + VALIDATION.MAX_BULK_LIKE_IDS);
+        await (operation.type === 'unlike' ? api.unlikeTracks(chunk) : api.likeTracks(chunk));
+      }
+      return;
+    }
+    case 'remove_playlist_positions': {
+      // Remove from the end backwards so earlier positions stay valid, passing each chunk's snapshot to the next
+      const items = [...operation.items].sort((a, b) => b.position - a.position);
+      let { snapshotId } = operation;
+      for (let i = 0; i < items.length; i += VALIDATION.MAX_BULK_PLAYLIST_URIS) {
+        const result = await api.removePlaylistPositions(
+          operation.playlistId,
+          snapshotId,
+          items.slice(i, i + VALIDATION.MAX_BULK_PLAYLIST_URIS)
+        );
+        snapshotId = result.snapshotId;
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Hook for an activity log whose entries record their inverse operation
+ */
+export function useActionLog(): UseActionLogReturn {
+  const [actions, setActions] = useState<RecentAction[]>([]);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  // Mirrors state so undo callbacks never act on a stale list
+  const actionsRef = useRef<RecentAction[]>([]);
+  const nextIdRef = useRef(0);
+
+  const update = useCallback((updater: (prev: RecentAction[]) => RecentAction[]) => {
+    actionsRef.current = updater(actionsRef.current);
+    setActions(actionsRef.current);
+  }, []);
+
+  const record = useCallback((action: NewRecentAction) => {
+    const entry: RecentAction = {
+      ...action,
+      id: `${Date.now()}-${nextIdRef.current++}`,
+      count: action.count ?? action.tracks.length,
+      timestamp: new Date(),
+    };
+    update((prev) => [entry, ...prev].slice(0, UI.MAX_RECENT_ACTIONS));
+  }, [update]);
+
+  const undo = useCallback(async (id: string): Promise<RecentAction | null> => {
+    const entry = actionsRef.current.find((action) => action.id === id);
+    if (!entry || entry.undone || !entry.inverse) return null;
+
+    setUndoingId(id);
+    try {
+      await runInverse(entry.inverse);
+      update((prev) => prev.map((action) => (action.id === id ? { ...action, undone: true } : action)));
+      return entry;
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      captureError(error, {
+        action: 'undo',
+        undoneAction: entry.action,
+        trackCount: entry.count,
+      });
+      throw error;
+    } finally {
+      setUndoingId(null);
+    }
+  }, [update]);
+
+  const undoLast = useCallback(async (): Promise<RecentAction | null> => {
+    const entry = actionsRef.current.find((action) => !action.undone && action.inverse);
+    return entry ? undo(entry.id) : null;
+  }, [undo]);
+
+  const clear = useCallback(() => update(() => []), [update]);
+
+  return {
+    actions,
+    undoingId,
+    record,
+    undo,
+    undoLast,
+    clear,
+  };
+}
@@ -150,6 +150,22 @@ export const shortcutPresets = {
     key: 'L',
     handler,
   }),
+
+  /** Ctrl+Z for undo */
+  undo: (handler: ShortcutHandler): KeyboardShortcut => ({
+    key: 'z',
+    handler,
+    preventDefault: true,
+    modifiers: { ctrl: true },
+  }),
+
+  /** Cmd+Z for undo on macOS */
+  undoMeta: (handler: ShortcutHandler): KeyboardShortcut => ({
+    key: 'z',
+    handler,
+    preventDefault: true,
+    modifiers: { meta: true },
+  }),
 };
 
 export default useKeyboardShortcuts;
@@ -0,0 +1,48 @@
+/**
+ * Astro integration that starts the background import worker with the server
+ * Astro loads API routes lazily, so without this the worker would only start on the
+ * first request that touches import jobs.
+ */
+
+import { fileURLToPath } from 'node:url';
+import type { AstroIntegration } from 'astro';
+
+const STARTUP_MODULE = './src/lib/jobs/startup.ts';
+
+// Astro's server entry module - the production server imports it on boot
+const SSR_ENTRY_ID = '\0@astrojs-ssr-virtual-entry';
+
+export default function importWorker(): AstroIntegration {
+  let startupPath = '';
+
+  return {
+    name: 'spillover:import-worker',
+    hooks: {
+      'astro:config:setup': ({ config, updateConfig }) => {
+        startupPath = fileURLToPath(new URL(STARTUP_MODULE, config.root));
+        updateConfig({
+          vite: {
+            plugins: [
+              {
+                name: 'spillover:import-worker-startup',
+                apply: 'build',
+                transform(code, id) {
+                  if (id !== SSR_ENTRY_ID) return null;
+                  return `${code}\nimport ${JSON.stringify(startupPath)};\n`;
+                },
+              },
+            ],
+          },
+        });
+      },
+      'astro:server:setup': ({ server, logger }) => {
+        // Dev server: load the startup module once Vite is listening
+        server.httpServer?.once('listening', () => {
+          server.ssrLoadModule(startupPath).catch((error: unknown) => {
+            logger.error(`Failed to start import worker: ${error instanceof Error ? error.message : error}`);
+          });
+        });
+      },
+    },
+  };
+}
@@ -4,6 +4,10 @@
  */
 
 import type { SpotifyTrack, SpotifyPlaylist, SpotifyUser, CurrentlyPlaying } from './spotify';
+import type { ImportJobView } from './jobs';
+import type { ImportOptions } from './import';
+import type { DuplicateGroup } from './playlist-dedupe';
+import type { ExportFormat, ExportSource } from './export';
 import { API_PATHS } from './constants';
 
 // =============================================================================
@@ -39,7 +43,8 @@ export interface SearchResponse {
 }
 
 export interface ImportUrlResponse {
-  tracks: TrackWithLiked[];
+  /** Search results ranked by how well they match the source, best first */
+  tracks: (TrackWithLiked & { confidence?: number })[];
   source: 'youtube' | 'soundcloud' | 'spotify';
   searchQuery: string | null;
 }
@@ -72,6 +77,82 @@ export interface HealthResponse {
 
 export type UserResponse = SpotifyUser;
 
+export interface SessionInfo {
+  /** Non-secret handle used to revoke the session */
+  handle: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent?: string;
+  /** Whether this is the current browser's session */
+  current: boolean;
+}
+
+export interface SessionsResponse {
+  sessions: SessionInfo[];
+}
+
+export interface CreatePlaylistResponse {
+  /** Whether every track was added */
+  success: boolean;
+  playlist: { id: string; name: string; url: string };
+  added: number;
+  /** Batches of trackUris that could not be added */
+  failed: { offset: number; count: number; error: string }[];
+}
+
+export interface BulkAddToPlaylistResponse {
+  /** Whether every batch was added */
+  success: boolean;
+  added: number;
+  /** URIs that were added, in order */
+  addedUris: string[];
+  /** Zero-based positions of addedUris as of snapshotId */
+  addedPositions: number[];
+  /** Tracks left out because they repeat or are already in the playlist */
+  skipped: number;
+  snapshotId: string | null;
+  /** Batches that could not be added; offsets index into the deduplicated tracks */
+  failed: { offset: number; count: number; error: string }[];
+}
+
+export interface PlaylistDetailItem {
+  /** Zero-based position in the playlist */
+  position: number;
+  addedAt: string;
+  /** Null for tracks that are no longer available */
+  track: SpotifyTrack | null;
+}
+
+export interface PlaylistDetailResponse {
+  playlist: {
+    id: string;
+    name: string;
+    description: string | null;
+    images: SpotifyPlaylist['images'];
+    owner: SpotifyPlaylist['owner'];
+    url: string;
+    snapshotId: string | null;
+  };
+  items: PlaylistDetailItem[];
+  total: number;
+  /** Offset of the next page, null on the last page */
+  nextOffset: number | null;
+}
+
+export interface PlaylistDuplicatesResponse {
+  /** Playlist version the group positions refer to */
+  snapshotId: string | null;
+  /** Number of items scanned */
+  total: number;
+  groups: DuplicateGroup[];
+}
+
+export type ImportJobInfo = ImportJobView;
+
+export interface ImportJobResponse {
+  job: ImportJobInfo;
+}
+
 // =============================================================================
 // API Client Implementation
 // =============================================================================
@@ -90,6 +171,102 @@ async function handleResponse<T>(response: Response): Promise<T> {
   return data as T;
 }
 
+/**
+ * Read a newline-delimited JSON response body, yielding each parsed line as it arrives
+ * @param response - A fetch Response with an NDJSON body
+ */
+export async function* readNdjson<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) {
+          yield JSON.parse(line) as T;
+        }
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      yield JSON.parse(buffer) as T;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** A single Server-Sent Event */
+export interface ServerSentEvent<T> {
+  /** Event name (defaults to "message") */
+  event: string;
+  /** Parsed JSON data */
+  data: T;
+}
+
+/**
+ * Read a Server-Sent Events response body, yielding each event as it arrives
+ * Used for POST endpoints, which EventSource can't call
+ * @param response - A fetch Response with a text/event-stream body
+ */
+export async function* readSse<T>(response: Response): AsyncGenerator<ServerSentEvent<T>> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseEvent = (block: string): ServerSentEvent<T> | null => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+    return dataLines.length > 0 ? { event, data: JSON.parse(dataLines.join('\n')) as T } : null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const parsed = parseEvent(block);
+        if (parsed) {
+          yield parsed;
+        }
+      }
+    }
+
+    buffer += decoder.decode();
+    const parsed = buffer.trim() ? parseEvent(buffer) : null;
+    if (parsed) {
+      yield parsed;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
 /**
  * API client with typed methods for all endpoints
  */
@@ -138,6 +315,30 @@ export const api = {
     return handleResponse<LikeResponse>(response);
   },
 
+  /**
+   * Like several tracks at once (max 100)
+   */
+  async likeTracks(trackIds: string[]): Promise<{ success: boolean; liked: number }> {
+    const response = await fetch(API_PATHS.LIKE_BULK, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ trackIds }),
+    });
+    return handleResponse<{ success: boolean; liked: number }>(response);
+  },
+
+  /**
+   * Unlike several tracks at once (max 100)
+   */
+  async unlikeTracks(trackIds: string[]): Promise<{ success: boolean; unliked: number }> {
+    const response = await fetch(API_PATHS.LIKE_BULK, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ trackIds }),
+    });
+    return handleResponse<{ success: boolean; unliked: number }>(response);
+  },
+
   /**
    * Toggle like status for a track
    */
@@ -165,6 +366,102 @@ export const api = {
     return handleResponse<{ success: boolean }>(response);
   },
 
+  /**
+   * Add many tracks to a playlist, skipping ones already in it
+   */
+  async addToPlaylistBulk(
+    playlistId: string,
+    trackUris: string[],
+    options: { position?: number; skipDuplicates?: boolean } = {}
+  ): Promise<BulkAddToPlaylistResponse> {
+    const response = await fetch(API_PATHS.PLAYLIST_BULK, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ playlistId, trackUris, ...options }),
+    });
+    return handleResponse<BulkAddToPlaylistResponse>(response);
+  },
+
+  /**
+   * Remove tracks from a playlist, optionally against a known snapshot
+   */
+  async removeFromPlaylist(
+    playlistId: string,
+    trackUris: string[],
+    snapshotId?: string
+  ): Promise<{ success: boolean; removed: number; snapshotId: string | null }> {
+    const response = await fetch(`${API_PATHS.PLAYLISTS}/${encodeURIComponent(playlistId)}/tracks`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ trackUris, snapshotId }),
+    });
+    return handleResponse<{ success: boolean; removed: number; snapshotId: string | null }>(response);
+  },
+
+  /**
+   * Get a playlist's details and one page of its tracks
+   */
+  async getPlaylistDetail(playlistId: string, offset = 0): Promise<PlaylistDetailResponse> {
+    const response = await fetch(`${API_PATHS.PLAYLISTS}/${encodeURIComponent(playlistId)}?offset=${offset}`);
+    return handleResponse<PlaylistDetailResponse>(response);
+  },
+
+  /**
+   * Move a range of playlist items so it sits before insertBefore
+   */
+  async reorderPlaylist(
+    playlistId: string,
+    move: { rangeStart: number; insertBefore: number; rangeLength?: number; snapshotId?: string }
+  ): Promise<{ success: boolean; snapshotId: string }> {
+    const response = await fetch(`${API_PATHS.PLAYLISTS}/${encodeURIComponent(playlistId)}/tracks`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(move),
+    });
+    return handleResponse<{ success: boolean; snapshotId: string }>(response);
+  },
+
+  /**
+   * Scan a whole playlist for duplicate tracks
+   */
+  async findPlaylistDuplicates(playlistId: string): Promise<PlaylistDuplicatesResponse> {
+    const response = await fetch(`${API_PATHS.PLAYLISTS}/${encodeURIComponent(playlistId)}/duplicates`);
+    return handleResponse<PlaylistDuplicatesResponse>(response);
+  },
+
+  /**
+   * Remove specific occurrences from a playlist, as of the given snapshot
+   */
+  async removePlaylistPositions(
+    playlistId: string,
+    snapshotId: string,
+    items: { uri: string; position: number }[]
+  ): Promise<{ success: boolean; removed: number; snapshotId: string }> {
+    const response = await fetch(`${API_PATHS.PLAYLISTS}/${encodeURIComponent(playlistId)}/duplicates`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ snapshotId, items }),
+    });
+    return handleResponse<{ success: boolean; removed: number; snapshotId: string }>(response);
+  },
+
+  /**
+   * Create a playlist and add tracks to it in order
+   */
+  async createPlaylist(params: {
+    name: string;
+    description?: string;
+    isPublic?: boolean;
+    trackUris: string[];
+  }): Promise<CreatePlaylistResponse> {
+    const response = await fetch(API_PATHS.PLAYLIST_CREATE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    });
+    return handleResponse<CreatePlaylistResponse>(response);
+  },
+
   /**
    * Get currently playing track
    */
@@ -189,6 +486,67 @@ export const api = {
     return handleResponse<UserResponse>(response);
   },
 
+  /**
+   * List the current user's active sessions
+   */
+  async getSessions(): Promise<SessionsResponse> {
+    const response = await fetch(API_PATHS.SESSIONS);
+    return handleResponse<SessionsResponse>(response);
+  },
+
+  /**
+   * Revoke a session by handle, or every other session when handle is omitted
+   */
+  async revokeSessions(handle?: string): Promise<{ success: boolean; revoked: number }> {
+    const response = await fetch(API_PATHS.SESSIONS, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(handle ? { handle } : { others: true }),
+    });
+    return handleResponse<{ success: boolean; revoked: number }>(response);
+  },
+
+  /**
+   * Queue a background import for a playlist URL or pasted track list
+   */
+  async createImportJob(url: string, options: ImportOptions = {}): Promise<ImportJobResponse> {
+    const response = await fetch(API_PATHS.IMPORT_JOBS, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url, ...options }),
+    });
+    return handleResponse<ImportJobResponse>(response);
+  },
+
+  /**
+   * Get an import job's progress and a page of its per-track results
+   */
+  async getImportJob(id: string, offset = 0): Promise<ImportJobResponse> {
+    const response = await fetch(`${API_PATHS.IMPORT_JOBS}/${encodeURIComponent(id)}?offset=${offset}`);
+    return handleResponse<ImportJobResponse>(response);
+  },
+
+  /**
+   * Cancel a queued or running import job
+   */
+  async cancelImportJob(id: string): Promise<ImportJobResponse> {
+    const response = await fetch(`${API_PATHS.IMPORT_JOBS}/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    return handleResponse<ImportJobResponse>(response);
+  },
+
+  /**
+   * Download URL for Liked Songs or a playlist in the given format
+   */
+  exportUrl(source: ExportSource, format: ExportFormat): string {
+    const params = new URLSearchParams({ source: source.kind, format });
+    if (source.kind === 'playlist') {
+      params.set('id', source.playlistId);
+    }
+    return `${API_PATHS.EXPORT}?${params}`;
+  },
+
   /**
    * Check API health
    */
@@ -18,10 +18,15 @@ export {
   // Rate limiting
   checkRateLimit,
   getClientIdentifier,
+  getRateLimitKey,
+  getRateLimitHeaders,
+  getRateLimitStore,
+  setRateLimitStore,
   clearRateLimitStore,
   type RateLimitConfig,
   type RateLimitEntry,
   type RateLimitResult,
+  type RateLimitStore,
 } from './api/rate-limit';
 
 export {
@@ -51,6 +56,8 @@ export {
   validateUrl,
   validateExternalUrl,
   validateRequiredString,
+  validateMinPlays,
+  validateColumnMapping,
   type ValidationResult,
 } from './api/validators';
 
@@ -59,6 +66,11 @@ export {
   jsonResponse,
   errorResponse,
   rateLimitResponse,
+  withResponseHeaders,
+  spotifyErrorResponse,
+  streamResponse,
+  ndjsonResponse,
+  sseResponse,
   noContentResponse,
   createResponseHeaders,
 } from './api/response';
@@ -66,6 +78,8 @@ export {
 export {
   // Auth middleware
   getAuthenticatedToken,
+  refreshSessionToken,
+  getSessionAccessToken,
   isAuthSuccess,
   type AuthResult,
   type AuthSuccess,
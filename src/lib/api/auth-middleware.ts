@@ -2,82 +2,236 @@
  * Authentication middleware utilities
  */
 
-import { getTokenFromCookies, getRefreshTokenFromCookies, refreshAccessToken } from '../auth';
+import {
+  getSessionIdFromCookies,
+  getRefreshTokenFromCookies,
+  refreshAccessToken,
+  TokenRefreshError,
+} from '../auth';
+import { getCurrentUser, setTokenRefresher } from '../spotify';
+import {
+  createSession,
+  getSession,
+  getSessionCookie,
+  getClearSessionCookie,
+  getSessionRefreshToken,
+  revokeSession,
+  updateSessionTokens,
+  type SessionRecord,
+} from '../session';
 import { addSecurityHeaders, getCookieOptions } from './security';
-import { COOKIES } from '../constants';
+import { COOKIES, SESSION } from '../constants';
 
 export interface AuthResult {
   token: string;
   headers: Headers;
+  /** Spotify user ID of the authenticated user */
+  userId: string;
+  /** Server-side session ID */
+  sessionId: string;
 }
 
 export type AuthSuccess = { success: true; data: AuthResult };
 export type AuthFailure = { success: false; response: Response };
 export type AuthCheckResult = AuthSuccess | AuthFailure;
 
+function authFailure(message: string, status: number, headers: Headers): AuthFailure {
+  return {
+    success: false,
+    response: new Response(JSON.stringify({ error: message }), {
+      status,
+      headers,
+    }),
+  };
+}
+
+function unauthorized(message: string, headers: Headers): AuthFailure {
+  return authFailure(message, 401, headers);
+}
+
+// In-flight refreshes keyed by session ID, so parallel requests share one token refresh
+const refreshesInFlight = new Map<string, Promise<SessionRecord>>();
+
+/**
+ * Refresh a session's access token, deduplicating concurrent refreshes
+ * @param session - The session whose token should be refreshed
+ * @returns The updated session
+ */
+export function refreshSessionToken(session: SessionRecord): Promise<SessionRecord> {
+  const existing = refreshesInFlight.get(session.id);
+  if (existing) return existing;
+
+  const refresh = (async () => {
+    const tokens = await refreshAccessToken(getSessionRefreshToken(session));
+    return updateSessionTokens(session, tokens);
+  })().finally(() => refreshesInFlight.delete(session.id));
+
+  refreshesInFlight.set(session.id, refresh);
+  return refresh;
+}
+
+// Sessions that issued the access tokens handed out, so a token Spotify rejects can be refreshed
+const issuedTokens = new Map<string, { sessionId: string; expiresAt: number }>();
+
+/**
+ * Remember which session an access token belongs to
+ */
+function rememberToken(session: SessionRecord): void {
+  issuedTokens.set(session.accessToken, { sessionId: session.id, expiresAt: session.accessTokenExpiresAt });
+
+  if (issuedTokens.size > SESSION.MAX_TRACKED_TOKENS) {
+    const now = Date.now();
+    for (const [token, issued] of issuedTokens) {
+      if (issued.expiresAt < now) issuedTokens.delete(token);
+    }
+  }
+}
+
+/**
+ * Replace an access token Spotify rejected with its session's current one, refreshing if needed
+ * If another request already refreshed the session, its new token is reused.
+ */
+async function refreshRejectedToken(rejectedToken: string): Promise<string | null> {
+  const issued = issuedTokens.get(rejectedToken);
+  if (!issued) return null;
+  return getSessionAccessToken(issued.sessionId, rejectedToken);
+}
+
+setTokenRefresher(refreshRejectedToken);
+
+/**
+ * Check whether a session's access token is expired or about to expire
+ */
+function needsRefresh(session: SessionRecord): boolean {
+  return Date.now() >= session.accessTokenExpiresAt - SESSION.TOKEN_REFRESH_MARGIN_MS;
+}
+
 /**
- * Get an authenticated token from request cookies, refreshing if necessary
+ * Create a server-side session from legacy token cookies
+ * Lets users who logged in before sessions existed keep working without re-authenticating
+ */
+async function migrateLegacySession(
+  request: Request,
+  headers: Headers
+): Promise<SessionRecord | null> {
+  const refreshToken = getRefreshTokenFromCookies(request.headers.get('cookie'));
+  if (!refreshToken) return null;
+
+  const tokens = await refreshAccessToken(refreshToken);
+  const user = await getCurrentUser(tokens.access_token);
+  const session = await createSession(
+    { ...tokens, refresh_token: tokens.refresh_token || refreshToken },
+    user.id,
+    request.headers.get('user-agent') || undefined
+  );
+
+  headers.append('Set-Cookie', getSessionCookie(session.id));
+  headers.append('Set-Cookie', `${COOKIES.ACCESS_TOKEN}=; ${getCookieOptions(0)}`);
+  headers.append('Set-Cookie', `${COOKIES.REFRESH_TOKEN}=; ${getCookieOptions(0)}`);
+  return session;
+}
+
+/**
+ * Look up the server-side session named by a request's cookie
+ * Never calls Spotify - nothing is refreshed or migrated - so it's safe before rate limiting.
+ * @returns The session, or null if the cookie is missing or the session is gone
+ */
+export async function getRequestSession(request: Request): Promise<SessionRecord | null> {
+  const sessionId = getSessionIdFromCookies(request.headers.get('cookie'));
+  return sessionId ? getSession(sessionId) : null;
+}
+
+/**
+ * Get an authenticated token for the request's session, refreshing if necessary
  * @param request - The incoming request
  * @param baseHeaders - Optional base headers to extend
+ * @param knownSession - The request's session if already looked up (see getRequestSession)
  * @returns Auth check result with token and headers, or error response
  */
 export async function getAuthenticatedToken(
   request: Request,
-  baseHeaders?: Headers
+  baseHeaders?: Headers,
+  knownSession?: SessionRecord | null
 ): Promise<AuthCheckResult> {
   const headers = baseHeaders || new Headers();
   headers.set('Content-Type', 'application/json');
   addSecurityHeaders(headers);
 
-  let token = getTokenFromCookies(request.headers.get('cookie'));
-  const refreshToken = getRefreshTokenFromCookies(request.headers.get('cookie'));
+  const sessionId = getSessionIdFromCookies(request.headers.get('cookie'));
+  let session = knownSession !== undefined ? knownSession : await getRequestSession(request);
+
+  if (!session) {
+    // Drop a stale session cookie so the browser stops sending it
+    if (sessionId) {
+      headers.append('Set-Cookie', getClearSessionCookie());
+    }
 
-  if (!token && !refreshToken) {
-    return {
-      success: false,
-      response: new Response(JSON.stringify({ error: 'Not authenticated' }), {
-        status: 401,
-        headers,
-      }),
-    };
+    try {
+      session = await migrateLegacySession(request, headers);
+    } catch {
+      return unauthorized('Session expired. Please log in again.', headers);
+    }
+
+    if (!session) {
+      return unauthorized('Not authenticated', headers);
+    }
   }
 
-  // Try to refresh token if access token is missing
-  if (!token && refreshToken) {
+  // Refresh the access token ahead of expiry
+  if (needsRefresh(session)) {
     try {
-      const tokens = await refreshAccessToken(refreshToken);
-      token = tokens.access_token;
-
-      // Set new access token cookie with proper security
-      headers.append(
-        'Set-Cookie',
-        `${COOKIES.ACCESS_TOKEN}=${tokens.access_token}; ${getCookieOptions(tokens.expires_in)}`
-      );
-
-      // Update refresh token if a new one was provided
-      if (tokens.refresh_token) {
-        headers.append(
-          'Set-Cookie',
-          `${COOKIES.REFRESH_TOKEN}=${tokens.refresh_token}; ${getCookieOptions(COOKIES.REFRESH_TOKEN_MAX_AGE)}`
-        );
+      session = await refreshSessionToken(session);
+    } catch (error) {
+      // Only a refused grant ends the session; outages and network errors may pass
+      if (!TokenRefreshError.isTokenRefreshError(error) || !error.isGrantRejected) {
+        headers.set('Retry-After', Math.ceil(SESSION.REFRESH_RETRY_AFTER_MS / 1000).toString());
+        return authFailure('Spotify is temporarily unavailable. Please try again shortly.', 503, headers);
       }
-    } catch {
-      return {
-        success: false,
-        response: new Response(JSON.stringify({ error: 'Session expired. Please log in again.' }), {
-          status: 401,
-          headers,
-        }),
-      };
+      await revokeSession(session.id);
+      headers.append('Set-Cookie', getClearSessionCookie());
+      return unauthorized('Session expired. Please log in again.', headers);
     }
   }
 
+  rememberToken(session);
   return {
     success: true,
-    data: { token: token!, headers },
+    data: {
+      token: session.accessToken,
+      headers,
+      userId: session.userId,
+      sessionId: session.id,
+    },
   };
 }
 
+/**
+ * Get a valid access token for a session outside of a request (e.g. background jobs, 401 retries)
+ * @param sessionId - The server-side session ID
+ * @param rejectedToken - A token Spotify just rejected; forces a refresh unless already replaced
+ * @returns The access token, or null if the session is gone or can no longer be refreshed
+ */
+export async function getSessionAccessToken(
+  sessionId: string,
+  rejectedToken?: string
+): Promise<string | null> {
+  const session = await getSession(sessionId);
+  if (!session) return null;
+
+  if (!needsRefresh(session) && session.accessToken !== rejectedToken) {
+    rememberToken(session);
+    return session.accessToken;
+  }
+
+  try {
+    const refreshed = await refreshSessionToken(session);
+    rememberToken(refreshed);
+    return refreshed.accessToken;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Type guard to check if auth result is successful
  */
@@ -1,13 +1,27 @@
 /**
  * API middleware wrapper for reducing boilerplate in API routes
  * Handles rate limiting, authentication, logging, and error handling
+ * (a Spotify 401 is retried inside the Spotify client, once per request, after a token refresh)
+ * Every response carries X-RateLimit-Limit/Remaining/Reset headers
  */
 
 import type { APIRoute, APIContext } from 'astro';
-import { checkRateLimit, getClientIdentifier, type RateLimitConfig } from './rate-limit';
-import { getAuthenticatedToken, type AuthResult } from './auth-middleware';
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  getRateLimitHeaders,
+  getRateLimitKey,
+  type RateLimitConfig,
+} from './rate-limit';
+import {
+  getAuthenticatedToken,
+  getRequestSession,
+  type AuthCheckResult,
+  type AuthResult,
+} from './auth-middleware';
 import { createRequestLogger } from './logger';
-import { errorResponse, rateLimitResponse } from './response';
+import { errorResponse, rateLimitResponse, spotifyErrorResponse, withResponseHeaders } from './response';
+import { SpotifyApiError } from '../spotify';
 import { RATE_LIMIT } from '../constants';
 
 export interface ApiHandlerContext {
@@ -15,6 +29,10 @@ export interface ApiHandlerContext {
   context: APIContext;
   /** The authenticated token (if requireAuth is true) */
   token: string;
+  /** Spotify user ID of the authenticated user (if requireAuth is true) */
+  userId: string;
+  /** Server-side session ID (if requireAuth is true) */
+  sessionId: string;
   /** Response headers (may include Set-Cookie for token refresh) */
   headers: Headers;
   /** Request logger instance */
@@ -73,33 +91,9 @@ export function withApiHandler(
     const { request } = context;
     const logger = createRequestLogger(method, path);
 
-    try {
-      // Rate limiting
-      const clientId = getClientIdentifier(request);
-      const rateLimitResult = checkRateLimit(
-        `${rateLimitKey || path}:${clientId}`,
-        rateLimit
-      );
-
-      if (!rateLimitResult.allowed) {
-        logger.warn(`Rate limited (client: ${clientId})`);
-        return rateLimitResponse(rateLimitResult.resetIn);
-      }
-
-      let token = '';
-      let headers = new Headers();
-
-      // Authentication
-      if (requireAuth) {
-        const authResult = await getAuthenticatedToken(request);
-        if (!authResult.success) {
-          logger.info(401);
-          return authResult.response;
-        }
-        token = authResult.data.token;
-        headers = authResult.data.headers;
-      }
+    let rateLimitHeaders: Record<string, string> = {};
 
+    const handleRequest = async (auth: AuthResult | null): Promise<Response> => {
       // Parse body if needed
       let body: unknown;
       if (parseBody) {
@@ -112,17 +106,55 @@ export function withApiHandler(
       }
 
       // Call the handler
-      return await handler({
+      return handler({
         context,
-        token,
-        headers,
+        token: auth?.token ?? '',
+        userId: auth?.userId ?? '',
+        sessionId: auth?.sessionId ?? '',
+        headers: auth?.headers ?? new Headers(),
         logger,
         body,
       });
+    };
+
+    try {
+      // Session lookup only - legacy cookie migration and token refreshes call Spotify, so they wait for the limit
+      const session = requireAuth ? await getRequestSession(request) : null;
+
+      // Rate limiting - keyed per Spotify user when the session is known, per client otherwise
+      const clientId = getClientIdentifier(request);
+      const userId = session?.userId ?? null;
+      const rateLimitResult = await checkRateLimit(
+        getRateLimitKey(rateLimitKey || path, clientId, userId),
+        rateLimit
+      );
+      rateLimitHeaders = getRateLimitHeaders(rateLimitResult);
+
+      if (!rateLimitResult.allowed) {
+        logger.warn(`Rate limited (client: ${clientId}${userId ? `, user: ${userId}` : ''})`);
+        return rateLimitResponse(rateLimitResult.resetIn, rateLimitHeaders);
+      }
+
+      // Authentication
+      const authResult: AuthCheckResult | null = requireAuth
+        ? await getAuthenticatedToken(request, undefined, session)
+        : null;
+      if (authResult && !authResult.success) {
+        logger.info(authResult.response.status);
+        return withResponseHeaders(authResult.response, rateLimitHeaders);
+      }
+
+      return withResponseHeaders(await handleRequest(authResult?.data ?? null), rateLimitHeaders);
     } catch (error) {
+      if (SpotifyApiError.isSpotifyApiError(error)) {
+        const response = spotifyErrorResponse(error);
+        logger.error(`Spotify API ${error.status}: ${error.message}`, response.status);
+        return withResponseHeaders(response, rateLimitHeaders);
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Internal server error';
       logger.error(errorMessage, 500);
-      return errorResponse(errorMessage, 500);
+      return errorResponse(errorMessage, 500, rateLimitHeaders);
     }
   };
 }
@@ -131,7 +163,7 @@ export function withApiHandler(
  * Create a public API route handler (no authentication required)
  */
 export function withPublicApiHandler(
-  handler: (ctx: Omit<ApiHandlerContext, 'token'>) => Promise<Response>,
+  handler: (ctx: Omit<ApiHandlerContext, 'token' | 'userId' | 'sessionId'>) => Promise<Response>,
   config: Omit<ApiMiddlewareConfig, 'requireAuth'>
 ): APIRoute {
   return withApiHandler(
@@ -0,0 +1,173 @@
+/**
+ * Rate limit storage backends
+ * The algorithm lives in rate-limit.ts; stores only count hits per key and window,
+ * and must do so atomically so concurrent requests can't both pass the last slot.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { RATE_LIMIT } from '../constants';
+
+export interface RateLimitEntry {
+  /** Start of the current fixed window (epoch ms) */
+  windowStart: number;
+  /** Requests counted in the current window */
+  count: number;
+  /** Requests counted in the previous window (weighted for the sliding estimate) */
+  previousCount: number;
+  /** When this entry can be discarded (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * Pluggable persistence for rate limit state
+ */
+export interface RateLimitStore {
+  /** Get the entry for a key, or null if missing/expired */
+  get(key: string): Promise<RateLimitEntry | null>;
+  /** Count a hit for a key in the window containing now, returning the updated entry */
+  hit(key: string, windowMs: number): Promise<RateLimitEntry>;
+  /** Remove all entries */
+  clear(): Promise<void>;
+}
+
+/**
+ * Remove expired entries from a map
+ */
+function purgeExpired(entries: Map<string, RateLimitEntry>, now = Date.now()): void {
+  for (const [key, entry] of entries.entries()) {
+    if (now > entry.expiresAt) {
+      entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Add a hit to an entry, rolling it over to the window containing now
+ */
+function countHit(entry: RateLimitEntry | undefined, windowMs: number, now = Date.now()): RateLimitEntry {
+  const windowStart = now - (now % windowMs);
+
+  let count = 0;
+  let previousCount = 0;
+  if (entry?.windowStart === windowStart) {
+    count = entry.count;
+    previousCount = entry.previousCount;
+  } else if (entry?.windowStart === windowStart - windowMs) {
+    previousCount = entry.count;
+  }
+
+  return {
+    windowStart,
+    count: count + 1,
+    previousCount,
+    // Keep the entry until it can no longer affect the next window's estimate
+    expiresAt: windowStart + windowMs * 2,
+  };
+}
+
+/**
+ * In-memory rate limit store
+ * Note: state is per-process - use a shared store when running multiple instances
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  protected entries = new Map<string, RateLimitEntry>();
+
+  constructor() {
+    // Clean up old entries periodically
+    if (typeof setInterval !== 'undefined') {
+      const timer = setInterval(() => purgeExpired(this.entries), RATE_LIMIT.CLEANUP_INTERVAL_MS);
+      (timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitEntry> {
+    // Read and write with no await in between, so concurrent hits can't interleave
+    const entry = countHit(this.entries.get(key), windowMs);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * File-backed rate limit store
+ * Serves from memory and flushes to a JSON file on a short debounce,
+ * so limits survive restarts without a disk write per request.
+ */
+export class FileRateLimitStore extends MemoryRateLimitStore {
+  private loaded: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    await this.load();
+    return super.get(key);
+  }
+
+  async hit(key: string, windowMs: number): Promise<RateLimitEntry> {
+    await this.load();
+    const entry = await super.hit(key, windowMs);
+    this.scheduleFlush();
+    return entry;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await super.clear();
+    this.scheduleFlush();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        try {
+          const contents = await readFile(this.filePath, 'utf8');
+          const records = JSON.parse(contents) as Record<string, RateLimitEntry>;
+          for (const [key, entry] of Object.entries(records)) {
+            this.entries.set(key, entry);
+          }
+          purgeExpired(this.entries);
+        } catch {
+          // Missing or unreadable file - start empty
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush().catch((error) => {
+        console.error('[rate-limit] Failed to persist rate limit state:', error);
+      });
+    }, RATE_LIMIT.FILE_FLUSH_INTERVAL_MS);
+    (this.flushTimer as { unref?: () => void }).unref?.();
+  }
+
+  private async flush(): Promise<void> {
+    purgeExpired(this.entries);
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(Object.fromEntries(this.entries)), 'utf8');
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -1,14 +1,17 @@
 /**
  * Rate limiting utilities
- * Note: Uses in-memory storage - for horizontal scaling, replace with Redis
+ * Uses a sliding window counter over a pluggable RateLimitStore
+ * (in-memory by default, JSON file with RATE_LIMIT_STORE=file)
  */
 
 import { RATE_LIMIT } from '../constants';
+import {
+  FileRateLimitStore,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+} from './rate-limit-store';
 
-export interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
+export type { RateLimitEntry, RateLimitStore } from './rate-limit-store';
 
 export interface RateLimitConfig {
   /** Time window in milliseconds */
@@ -19,22 +22,32 @@ export interface RateLimitConfig {
 
 export interface RateLimitResult {
   allowed: boolean;
+  /** Max requests per window */
+  limit: number;
   remaining: number;
   resetIn: number;
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
-
-// Clean up old entries periodically
-if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (now > entry.resetTime) {
-        rateLimitStore.delete(key);
-      }
-    }
-  }, RATE_LIMIT.CLEANUP_INTERVAL_MS);
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Get the active rate limit store, creating the configured default on first use
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = import.meta.env.RATE_LIMIT_STORE === 'file'
+      ? new FileRateLimitStore(import.meta.env.RATE_LIMIT_STORE_PATH || RATE_LIMIT.DEFAULT_FILE_PATH)
+      : new MemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Replace the active rate limit store (e.g. with a Redis-backed implementation)
+ * @param store - The store to use for all subsequent checks
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
 }
 
 const defaultConfig: RateLimitConfig = {
@@ -44,32 +57,35 @@ const defaultConfig: RateLimitConfig = {
 
 /**
  * Check if a request is allowed under rate limiting rules
- * @param identifier - Unique identifier for the client (e.g., IP + user-agent)
+ * Sliding window counter: the previous window's count is weighted by how much of it
+ * still overlaps the sliding window, which avoids bursts at fixed window boundaries.
+ * @param identifier - Unique key for the client (see getRateLimitKey)
  * @param config - Rate limit configuration
  * @returns Rate limit check result
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   identifier: string,
   config: RateLimitConfig = defaultConfig
-): RateLimitResult {
+): Promise<RateLimitResult> {
   const now = Date.now();
-  const entry = rateLimitStore.get(identifier);
-
-  if (!entry || now > entry.resetTime) {
-    // Start new window
-    rateLimitStore.set(identifier, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    });
-    return { allowed: true, remaining: config.maxRequests - 1, resetIn: config.windowMs };
-  }
+  // Every request counts, so clients that keep hammering stay limited
+  const entry = await getRateLimitStore().hit(identifier, config.windowMs);
+
+  const previousWeight = Math.max(0, 1 - (now - entry.windowStart) / config.windowMs);
+  // Requests before this one, including the part of the previous window still in the sliding window
+  const estimated = entry.previousCount * previousWeight + entry.count - 1;
+  const resetIn = Math.max(0, entry.windowStart + config.windowMs - now);
 
-  if (entry.count >= config.maxRequests) {
-    return { allowed: false, remaining: 0, resetIn: entry.resetTime - now };
+  if (estimated >= config.maxRequests) {
+    return { allowed: false, limit: config.maxRequests, remaining: 0, resetIn };
   }
 
-  entry.count++;
-  return { allowed: true, remaining: config.maxRequests - entry.count, resetIn: entry.resetTime - now };
+  return {
+    allowed: true,
+    limit: config.maxRequests,
+    remaining: Math.max(0, Math.floor(config.maxRequests - estimated - 1)),
+    resetIn,
+  };
 }
 
 /**
@@ -88,9 +104,36 @@ export function getClientIdentifier(request: Request): string {
   return `${ip}:${userAgent.slice(0, 50)}`;
 }
 
+/**
+ * Build the rate limit key for a request
+ * Authenticated requests are keyed by Spotify user ID plus client, so users behind
+ * a shared NAT don't exhaust each other's budget
+ * @param prefix - Route or bucket name
+ * @param clientId - Client identifier from getClientIdentifier
+ * @param userId - Authenticated Spotify user ID, if known
+ */
+export function getRateLimitKey(prefix: string, clientId: string, userId?: string | null): string {
+  return userId
+    ? `${prefix}:user:${userId}:${clientId}`
+    : `${prefix}:anon:${clientId}`;
+}
+
+/**
+ * Build X-RateLimit-* headers for a rate limit result
+ * @param result - The rate limit check result
+ * @returns Record of header names and values
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': Math.ceil(result.resetIn / 1000).toString(),
+  };
+}
+
 /**
  * Clear all rate limit entries (useful for testing)
  */
-export function clearRateLimitStore(): void {
-  rateLimitStore.clear();
+export async function clearRateLimitStore(): Promise<void> {
+  await getRateLimitStore().clear();
 }
@@ -3,6 +3,7 @@
  */
 
 import { addSecurityHeaders } from './security';
+import type { SpotifyApiError } from '../spotify';
 
 /**
  * Create a JSON response with security headers
@@ -47,14 +48,177 @@ export function errorResponse(
 /**
  * Create a rate limit exceeded response
  * @param resetIn - Time until rate limit resets in milliseconds
+ * @param additionalHeaders - Optional extra headers (e.g. X-RateLimit-*)
  * @returns Response object with 429 status and Retry-After header
  */
-export function rateLimitResponse(resetIn: number): Response {
+export function rateLimitResponse(resetIn: number, additionalHeaders?: Record<string, string>): Response {
   return errorResponse('Too many requests. Please slow down.', 429, {
+    ...additionalHeaders,
     'Retry-After': Math.ceil(resetIn / 1000).toString(),
   });
 }
 
+/**
+ * Add headers to an existing response
+ * Falls back to copying the response when its headers are immutable (e.g. Response.redirect)
+ * @param response - The response to extend
+ * @param headers - Headers to set
+ * @returns The response with headers applied
+ */
+export function withResponseHeaders(response: Response, headers: Record<string, string>): Response {
+  const entries = Object.entries(headers);
+  if (entries.length === 0) return response;
+
+  try {
+    for (const [name, value] of entries) {
+      response.headers.set(name, value);
+    }
+    return response;
+  } catch {
+    const copy = new Headers(response.headers);
+    for (const [name, value] of entries) {
+      copy.set(name, value);
+    }
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: copy,
+    });
+  }
+}
+
+/**
+ * Map a Spotify API error to an HTTP response for the client
+ * Upstream auth problems become 401, throttling becomes 429 with Retry-After,
+ * and Spotify outages become 502/503 so clients can tell them apart from our own bugs
+ * @param error - The error thrown by the Spotify client
+ * @returns Response object with an appropriate status
+ */
+export function spotifyErrorResponse(error: SpotifyApiError): Response {
+  const body: Record<string, unknown> = { error: error.message };
+  if (error.reason) {
+    body.code = error.reason;
+  }
+
+  switch (error.status) {
+    case 401:
+      return jsonResponse({ ...body, error: 'Spotify session expired. Please log in again.' }, 401);
+    case 403:
+    case 404:
+      return jsonResponse(body, error.status);
+    case 429: {
+      const retryAfter = Math.ceil((error.retryAfterMs ?? 1000) / 1000).toString();
+      return jsonResponse(
+        { ...body, error: 'Spotify is rate limiting requests. Please try again shortly.' },
+        429,
+        { 'Retry-After': retryAfter }
+      );
+    }
+    case 503:
+      return jsonResponse({ ...body, error: 'Spotify is temporarily unavailable.' }, 503);
+    default:
+      if (error.status >= 500) {
+        return jsonResponse({ ...body, error: 'Spotify returned an error. Please try again.' }, 502);
+      }
+      return jsonResponse(body, 400);
+  }
+}
+
+/** Value written in place of the next chunk when a stream's source throws */
+export interface StreamErrorChunk {
+  type: 'error';
+  error: string;
+}
+
+/**
+ * Stream values from an async iterable, writing each one as soon as it is available
+ * If the source throws, a final `{ type: 'error', error }` chunk is written before closing.
+ * When the client disconnects the source iterator is returned, so generators can stop their work.
+ * @param source - Async iterable producing values to send
+ * @param encodeChunk - Serializes one value (or the error chunk) for the wire
+ * @param contentType - Content-Type of the stream
+ * @param headers - Response headers (Content-Type is overridden)
+ * @param onError - Optional callback invoked when the source throws
+ * @returns Response object with a streaming body
+ */
+export function streamResponse<T>(
+  source: AsyncIterable<T>,
+  encodeChunk: (value: T | StreamErrorChunk) => string,
+  contentType: string,
+  headers: Headers,
+  onError?: (error: unknown) => void
+): Response {
+  headers.set('Content-Type', contentType);
+  headers.set('Cache-Control', 'no-cache');
+
+  const encoder = new TextEncoder();
+  const iterator = source[Symbol.asyncIterator]();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(encodeChunk(value)));
+      } catch (error) {
+        onError?.(error);
+        const message = error instanceof Error ? error.message : 'Stream failed';
+        controller.enqueue(encoder.encode(encodeChunk({ type: 'error', error: message })));
+        controller.close();
+      }
+    },
+    async cancel() {
+      // Client disconnected - stop pulling from the source
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(stream, { headers });
+}
+
+/**
+ * Create a streaming newline-delimited JSON response
+ * Each value yielded by the source is written as one JSON line.
+ * @param source - Async iterable producing values to serialize
+ * @param headers - Response headers (Content-Type is overridden)
+ * @param onError - Optional callback invoked when the source throws
+ * @returns Response object with a streaming body
+ */
+export function ndjsonResponse(
+  source: AsyncIterable<unknown>,
+  headers: Headers,
+  onError?: (error: unknown) => void
+): Response {
+  return streamResponse(source, (value) => `${JSON.stringify(value)}\n`, 'application/x-ndjson', headers, onError);
+}
+
+/**
+ * Stream events from an async iterable as Server-Sent Events
+ * Each value is sent as an event named after its `type` with the value as JSON data.
+ * @param source - Async iterable of events to send
+ * @param headers - Response headers (Content-Type is overwritten)
+ * @param onError - Optional callback for logging stream failures
+ * @returns Response with a streaming text/event-stream body
+ */
+export function sseResponse(
+  source: AsyncIterable<{ type: string }>,
+  headers: Headers,
+  onError?: (error: unknown) => void
+): Response {
+  // Stop reverse proxies from buffering the stream
+  headers.set('X-Accel-Buffering', 'no');
+  return streamResponse(
+    source,
+    (value) => `event: ${value.type}\ndata: ${JSON.stringify(value)}\n\n`,
+    'text/event-stream',
+    headers,
+    onError
+  );
+}
+
 /**
  * Create a successful response with no content
  * @returns Response object with 204 status
@@ -3,6 +3,7 @@
  */
 
 import { VALIDATION } from '../constants';
+import { CSV_COLUMNS, isCompleteMapping, type CsvColumn } from '../csv';
 
 export interface ValidationResult {
   valid: boolean;
@@ -127,7 +128,7 @@ const BLOCKED_IP_PATTERNS = [
 /**
  * Check if a hostname is a blocked IP address
  */
-function isBlockedIp(hostname: string): boolean {
+export function isBlockedIp(hostname: string): boolean {
   return BLOCKED_IP_PATTERNS.some(pattern => pattern.test(hostname));
 }
 
@@ -154,9 +155,13 @@ export function validateUrl(url: string | null | undefined): ValidationResult {
 /**
  * Validate a URL for external fetching with SSRF protection
  * @param url - The URL to validate
+ * @param options.anyDomain - Skip the allowed domain check (callers must check where the host resolves)
  * @returns Validation result
  */
-export function validateExternalUrl(url: string | null | undefined): ValidationResult {
+export function validateExternalUrl(
+  url: string | null | undefined,
+  { anyDomain = false }: { anyDomain?: boolean } = {}
+): ValidationResult {
   if (!url) {
     return { valid: false, error: 'Missing URL' };
   }
@@ -185,7 +190,7 @@ export function validateExternalUrl(url: string | null | undefined): ValidationR
       hostname === domain || hostname.endsWith('.' + domain)
     );
 
-    if (!isAllowed) {
+    if (!isAllowed && !anyDomain) {
       return { valid: false, error: 'URL domain not supported for import' };
     }
 
@@ -207,3 +212,39 @@ export function validateRequiredString(value: unknown, fieldName: string): Valid
   }
   return { valid: true };
 }
+
+/**
+ * Validate an optional minimum play count for history imports
+ * @param minPlays - The value to validate (undefined means no minimum)
+ * @returns Validation result
+ */
+export function validateMinPlays(minPlays: unknown): ValidationResult {
+  if (minPlays === undefined) {
+    return { valid: true };
+  }
+  if (typeof minPlays !== 'number' || !Number.isInteger(minPlays) || minPlays < 1) {
+    return { valid: false, error: 'minPlays must be a positive integer' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate an optional CSV column mapping
+ * @param columns - The value to validate (undefined means use the detected headers)
+ * @returns Validation result
+ */
+export function validateColumnMapping(columns: unknown): ValidationResult {
+  if (columns === undefined) {
+    return { valid: true };
+  }
+  if (!Array.isArray(columns) || columns.length > VALIDATION.MAX_CSV_COLUMNS) {
+    return { valid: false, error: `columns must be an array of at most ${VALIDATION.MAX_CSV_COLUMNS} fields` };
+  }
+  if (!columns.every((column): column is CsvColumn => CSV_COLUMNS.includes(column))) {
+    return { valid: false, error: `columns may only contain: ${CSV_COLUMNS.join(', ')}` };
+  }
+  if (!isCompleteMapping(columns)) {
+    return { valid: false, error: 'columns must include one title column and map each field once' };
+  }
+  return { valid: true };
+}
@@ -1,4 +1,5 @@
-import { COOKIES } from './constants';
+import { createHash, randomBytes } from 'node:crypto';
+import { COOKIES, AUTH } from './constants';
 
 const SPOTIFY_AUTH_URL = 'https://accounts.spotify.com/authorize';
 const SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
@@ -22,7 +23,101 @@ export interface TokenResponse {
   scope: string;
 }
 
-export function getAuthUrl(state: string, forceConsent = false): string {
+/**
+ * Error thrown when Spotify's token endpoint refuses a refresh
+ * Network failures are not wrapped, so they stay distinguishable from a refused grant.
+ */
+export class TokenRefreshError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status returned by the token endpoint */
+    public status: number,
+    /** OAuth error code (e.g. invalid_grant) if provided */
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'TokenRefreshError';
+  }
+
+  /** Whether the refresh token itself was rejected, so retrying can never succeed */
+  get isGrantRejected(): boolean {
+    return this.status === 401 || (this.status === 400 && this.code === 'invalid_grant');
+  }
+
+  static isTokenRefreshError(error: unknown): error is TokenRefreshError {
+    return error instanceof TokenRefreshError;
+  }
+}
+
+/** OAuth flow used to obtain tokens from Spotify */
+export type AuthFlow = 'pkce' | 'client_secret';
+
+/**
+ * Determine which OAuth flow to use
+ * SPOTIFY_AUTH_FLOW selects explicitly; otherwise PKCE is used when no client secret is configured
+ */
+export function getAuthFlow(): AuthFlow {
+  const configured = import.meta.env.SPOTIFY_AUTH_FLOW;
+  if (configured === 'pkce' || configured === 'client_secret') {
+    return configured;
+  }
+  return import.meta.env.SPOTIFY_CLIENT_SECRET ? 'client_secret' : 'pkce';
+}
+
+/**
+ * Check whether the PKCE authorization code flow is enabled
+ */
+export function isPkceEnabled(): boolean {
+  return getAuthFlow() === 'pkce';
+}
+
+/**
+ * Generate a PKCE code verifier (RFC 7636: 43-128 unreserved characters)
+ */
+export function generateCodeVerifier(): string {
+  return randomBytes(AUTH.CODE_VERIFIER_BYTES).toString('base64url');
+}
+
+/**
+ * Derive the S256 code challenge for a PKCE code verifier
+ * @param verifier - The code verifier
+ */
+export function generateCodeChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+/**
+ * Check that a value is a well-formed PKCE code verifier
+ */
+export function isValidCodeVerifier(verifier: string | null | undefined): verifier is string {
+  return !!verifier && AUTH.CODE_VERIFIER_PATTERN.test(verifier);
+}
+
+/**
+ * Build headers and base body params for the token endpoint
+ * Confidential clients authenticate with Basic auth; PKCE clients send only their client_id
+ */
+function getTokenRequestAuth(): { headers: Record<string, string>; params: Record<string, string> } {
+  const clientId = import.meta.env.SPOTIFY_CLIENT_ID;
+
+  if (isPkceEnabled()) {
+    return {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      params: { client_id: clientId },
+    };
+  }
+
+  const clientSecret = import.meta.env.SPOTIFY_CLIENT_SECRET;
+  return {
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+    },
+    params: {},
+  };
+}
+
+export function getAuthUrl(state: string, forceConsent = false, codeChallenge?: string): string {
   const clientId = import.meta.env.SPOTIFY_CLIENT_ID;
   const redirectUri = import.meta.env.SPOTIFY_REDIRECT_URI;
 
@@ -34,6 +129,12 @@ export function getAuthUrl(state: string, forceConsent = false): string {
     state: state,
   });
 
+  // PKCE: bind the authorization code to our code verifier
+  if (codeChallenge) {
+    params.set('code_challenge_method', 'S256');
+    params.set('code_challenge', codeChallenge);
+  }
+
   // Force consent screen to show new scopes for returning users
   if (forceConsent) {
     params.set('show_dialog', 'true');
@@ -42,22 +143,24 @@ export function getAuthUrl(state: string, forceConsent = false): string {
   return `${SPOTIFY_AUTH_URL}?${params}`;
 }
 
-export async function exchangeCodeForTokens(code: string): Promise<TokenResponse> {
-  const clientId = import.meta.env.SPOTIFY_CLIENT_ID;
-  const clientSecret = import.meta.env.SPOTIFY_CLIENT_SECRET;
+export async function exchangeCodeForTokens(code: string, codeVerifier?: string): Promise<TokenResponse> {
   const redirectUri = import.meta.env.SPOTIFY_REDIRECT_URI;
+  const auth = getTokenRequestAuth();
+
+  const body = new URLSearchParams({
+    ...auth.params,
+    grant_type: 'authorization_code',
+    code: code,
+    redirect_uri: redirectUri,
+  });
+  if (codeVerifier) {
+    body.set('code_verifier', codeVerifier);
+  }
 
   const response = await fetch(SPOTIFY_TOKEN_URL, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
-    },
-    body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code: code,
-      redirect_uri: redirectUri,
-    }),
+    headers: auth.headers,
+    body,
   });
 
   if (!response.ok) {
@@ -69,16 +172,13 @@ export async function exchangeCodeForTokens(code: string): Promise<TokenResponse
 }
 
 export async function refreshAccessToken(refreshToken: string): Promise<TokenResponse> {
-  const clientId = import.meta.env.SPOTIFY_CLIENT_ID;
-  const clientSecret = import.meta.env.SPOTIFY_CLIENT_SECRET;
+  const auth = getTokenRequestAuth();
 
   const response = await fetch(SPOTIFY_TOKEN_URL, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
-    },
+    headers: auth.headers,
     body: new URLSearchParams({
+      ...auth.params,
       grant_type: 'refresh_token',
       refresh_token: refreshToken,
     }),
@@ -86,7 +186,7 @@ export async function refreshAccessToken(refreshToken: string): Promise<TokenRes
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.error_description || 'Failed to refresh token');
+    throw new TokenRefreshError(error.error_description || 'Failed to refresh token', response.status, error.error);
   }
 
   return response.json();
@@ -119,3 +219,8 @@ export function getRefreshTokenFromCookies(cookieHeader: string | null): string
   const cookies = parseCookies(cookieHeader);
   return cookies[COOKIES.REFRESH_TOKEN] || null;
 }
+
+export function getSessionIdFromCookies(cookieHeader: string | null): string | null {
+  const cookies = parseCookies(cookieHeader);
+  return cookies[COOKIES.SESSION] || null;
+}
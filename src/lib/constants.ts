@@ -35,8 +35,17 @@ export const RATE_LIMIT = {
   /** Rate limit for URL import */
   IMPORT_URL: { windowMs: 60 * 1000, maxRequests: 30 },
 
+  /** Rate limit for exports (each one pages through a whole collection) */
+  EXPORT: { windowMs: 60 * 1000, maxRequests: 10 },
+
   /** Cleanup interval for expired rate limit entries */
   CLEANUP_INTERVAL_MS: 5 * 60 * 1000, // 5 minutes
+
+  /** Debounce for persisting the file rate limit store */
+  FILE_FLUSH_INTERVAL_MS: 5 * 1000,
+
+  /** Default path for the file rate limit store */
+  DEFAULT_FILE_PATH: '.data/rate-limits.json',
 } as const;
 
 // =============================================================================
@@ -97,6 +106,36 @@ export const VALIDATION = {
 
   /** Regex pattern for Spotify track URIs */
   SPOTIFY_TRACK_URI_PATTERN: /^spotify:track:[a-zA-Z0-9]{22}$/,
+
+  /** Max track URIs Spotify accepts per add-to-playlist request */
+  MAX_PLAYLIST_ADD_URIS: 100,
+
+  /** Max track IDs Spotify accepts per save-tracks request */
+  MAX_SAVE_TRACK_IDS: 50,
+
+  /** Max track IDs Spotify accepts per get-several-tracks request */
+  MAX_TRACK_LOOKUP_IDS: 50,
+
+  /** Max track IDs accepted by the bulk like endpoint */
+  MAX_BULK_LIKE_IDS: 100,
+
+  /** Max track URIs accepted by the bulk add-to-playlist endpoint */
+  MAX_BULK_PLAYLIST_URIS: 1000,
+
+  /** Maximum length for playlist names */
+  MAX_PLAYLIST_NAME_LENGTH: 100,
+
+  /** Maximum length for playlist descriptions */
+  MAX_PLAYLIST_DESCRIPTION_LENGTH: 300,
+
+  /** Maximum number of tracks a Spotify playlist can hold */
+  MAX_PLAYLIST_TRACKS: 10000,
+
+  /** Maximum size of an uploaded playlist file (M3U, XSPF, PLS, text) */
+  MAX_IMPORT_FILE_BYTES: 2 * 1024 * 1024,
+
+  /** Maximum number of columns in a CSV column mapping */
+  MAX_CSV_COLUMNS: 100,
 } as const;
 
 // =============================================================================
@@ -108,25 +147,206 @@ export const TIMEOUTS = {
   EXTERNAL_API_MS: 5000,
 } as const;
 
+// =============================================================================
+// Spotify API Client
+// =============================================================================
+
+export const SPOTIFY_API = {
+  /** Maximum retries for a single Spotify request (429 and 502/503/504) */
+  MAX_RETRIES: 3,
+
+  /** Base delay for exponential backoff in ms */
+  BACKOFF_BASE_MS: 500,
+
+  /** Upper bound for a single backoff delay in ms */
+  BACKOFF_MAX_MS: 8000,
+
+  /** Longest Retry-After we are willing to wait inside a request (ms) */
+  MAX_RETRY_AFTER_MS: 30 * 1000,
+
+  /** Maximum concurrent in-flight requests per access token */
+  MAX_CONCURRENT_PER_TOKEN: 4,
+
+  /** HTTP statuses that are retried with exponential backoff (idempotent requests only) */
+  RETRYABLE_STATUSES: [502, 503, 504] as readonly number[],
+
+  /**
+   * Methods safe to repeat after a gateway error - Spotify may have applied a POST
+   * (creating a playlist, adding tracks) before the error, so those aren't retried
+   */
+  IDEMPOTENT_METHODS: ['GET', 'HEAD', 'PUT', 'DELETE'] as readonly string[],
+} as const;
+
+// =============================================================================
+// Pagination
+// =============================================================================
+
+export const PAGINATION = {
+  /** Page size for the current user's playlists (Spotify max: 50) */
+  PLAYLISTS_PAGE_SIZE: 50,
+
+  /** Page size for playlist items (Spotify max: 100) */
+  PLAYLIST_ITEMS_PAGE_SIZE: 100,
+
+  /** Page size for Liked Songs (Spotify max: 50) */
+  SAVED_TRACKS_PAGE_SIZE: 50,
+
+  /** Maximum playlists checked per duplicate-check request */
+  MAX_DUPLICATE_CHECK_PLAYLISTS: 50,
+} as const;
+
+// =============================================================================
+// Playlist Import
+// =============================================================================
+
+export const IMPORT = {
+  /** Max tracks matched per import (override with IMPORT_MAX_TRACKS) */
+  MAX_TRACKS: 500,
+
+  /** Max continuation/page requests made while reading one source playlist */
+  MAX_CONTINUATION_REQUESTS: 50,
+
+  /** Max size of a page read from a site outside the import allowlist */
+  MAX_PUBLIC_PAGE_BYTES: 5 * 1024 * 1024,
+
+  /** Concurrent Spotify searches per import */
+  MATCH_CONCURRENCY: 4,
+
+  /** Max track IDs per saved-tracks check */
+  SAVED_CHECK_BATCH_SIZE: 50,
+
+  /** Max tracks processed by a background import job (override with IMPORT_JOB_MAX_TRACKS) */
+  MAX_JOB_TRACKS: 2000,
+
+  /** Tracks matched per job batch before progress is persisted */
+  JOB_BATCH_SIZE: 20,
+
+  /** Pause between job batches to stay well under Spotify rate limits */
+  JOB_BATCH_DELAY_MS: 1000,
+
+  /** Fallback wait when Spotify throttles a job without a Retry-After */
+  JOB_THROTTLE_DELAY_MS: 30 * 1000,
+
+  /** Max per-track results returned per job status request */
+  JOB_RESULTS_PAGE_SIZE: 200,
+
+  /** Max queued or running jobs per user */
+  MAX_ACTIVE_JOBS_PER_USER: 3,
+
+  /** How long finished jobs are kept */
+  JOB_RETENTION_MS: 7 * 24 * 60 * 60 * 1000, // 7 days
+
+  /** How often expired jobs are purged from the in-memory job store */
+  JOB_CLEANUP_INTERVAL_MS: 60 * 60 * 1000, // 1 hour
+
+  /** Default directory for the file import job store (one file per job) */
+  DEFAULT_JOB_DIRECTORY: '.data/import-jobs',
+
+  /** Streams shorter than this don't count as a play in streaming history exports */
+  MIN_COUNTED_PLAY_MS: 30 * 1000,
+} as const;
+
+// =============================================================================
+// Track Matching
+// =============================================================================
+
+export const MATCHING = {
+  /** Spotify search results scored per source track */
+  CANDIDATE_LIMIT: 5,
+
+  /** Ranked alternatives kept alongside the best match */
+  MAX_ALTERNATIVES: 3,
+
+  /** Below this confidence the best candidate is reported as not found */
+  MIN_CONFIDENCE: 0.45,
+
+  /** Below this confidence a match is flagged as uncertain for the user to review */
+  REVIEW_BELOW: 0.75,
+
+  /** Below this confidence a second search with a cleaned-up query is tried */
+  RETRY_BELOW: 0.6,
+
+  /** Duration difference treated as the same recording */
+  DURATION_TOLERANCE_MS: 3 * 1000,
+
+  /** Duration difference beyond which candidates get the full penalty */
+  DURATION_MAX_DELTA_MS: 30 * 1000,
+
+  /** Max penalty for a duration mismatch */
+  DURATION_PENALTY: 0.3,
+
+  /** Penalty per version marker (live, remix...) present on only one side */
+  VERSION_PENALTY: 0.15,
+
+  /** Penalty for karaoke/cover/tribute candidates the source didn't ask for */
+  UNWANTED_VERSION_PENALTY: 0.4,
+} as const;
+
 // =============================================================================
 // Cookie Configuration
 // =============================================================================
 
 export const COOKIES = {
-  /** Access token cookie name */
+  /** Session ID cookie name */
+  SESSION: 'spillover_session',
+
+  /** Legacy access token cookie name (pre-session-store; migrated on first use) */
   ACCESS_TOKEN: 'spotify_access_token',
 
-  /** Refresh token cookie name */
+  /** Legacy refresh token cookie name (pre-session-store; migrated on first use) */
   REFRESH_TOKEN: 'spotify_refresh_token',
 
   /** Auth state cookie name (CSRF protection) */
   AUTH_STATE: 'spotify_auth_state',
 
+  /** PKCE code verifier cookie name (stored alongside the auth state) */
+  AUTH_VERIFIER: 'spotify_auth_verifier',
+
   /** Auth state expiry in seconds */
   AUTH_STATE_MAX_AGE: 10 * 60, // 10 minutes
 
-  /** Refresh token expiry in seconds */
-  REFRESH_TOKEN_MAX_AGE: 60 * 60 * 24 * 14, // 14 days
+} as const;
+
+// =============================================================================
+// OAuth
+// =============================================================================
+
+export const AUTH = {
+  /** Random bytes in a PKCE code verifier (64 bytes -> 86 base64url chars) */
+  CODE_VERIFIER_BYTES: 64,
+
+  /** Valid PKCE code verifier (RFC 7636) */
+  CODE_VERIFIER_PATTERN: /^[A-Za-z0-9\-._~]{43,128}$/,
+} as const;
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+export const SESSION = {
+  /** Session lifetime in seconds, extended while the session is in use */
+  MAX_AGE_SECONDS: 60 * 60 * 24 * 14, // 14 days
+
+  /** Random bytes in a session ID */
+  ID_BYTES: 32,
+
+  /** Refresh access tokens this long before they expire (ms), to absorb clock skew and slow requests */
+  TOKEN_REFRESH_MARGIN_MS: 60 * 1000, // 1 minute
+
+  /** Issued access tokens tracked before expired ones are pruned (used to refresh tokens Spotify rejects) */
+  MAX_TRACKED_TOKENS: 1000,
+
+  /** Retry-After sent when a token refresh fails because Spotify is unreachable (ms) */
+  REFRESH_RETRY_AFTER_MS: 30 * 1000,
+
+  /** Minimum time between lastSeenAt updates (ms) */
+  TOUCH_INTERVAL_MS: 5 * 60 * 1000, // 5 minutes
+
+  /** Cleanup interval for expired in-memory sessions (ms) */
+  CLEANUP_INTERVAL_MS: 10 * 60 * 1000, // 10 minutes
+
+  /** Default path for the file session store */
+  DEFAULT_FILE_PATH: '.data/sessions.json',
 } as const;
 
 // =============================================================================
@@ -153,12 +373,19 @@ export const API_PATHS = {
   LIKE: '/api/like',
   PLAYLISTS: '/api/playlists',
   PLAYLIST_ADD: '/api/playlist/add',
+  PLAYLIST_CREATE: '/api/playlist/create',
+  PLAYLIST_BULK: '/api/playlist/bulk',
+  LIKE_BULK: '/api/like/bulk',
   NOW_PLAYING: '/api/now-playing',
   SUGGESTIONS: '/api/suggestions',
   ME: '/api/me',
   IMPORT_URL: '/api/import-url',
+  IMPORT_PLAYLIST: '/api/import-playlist',
+  IMPORT_JOBS: '/api/import-jobs',
+  EXPORT: '/api/export',
   HEALTH: '/api/health',
   AUTH_LOGIN: '/api/auth/login',
   AUTH_CALLBACK: '/api/auth/callback',
   AUTH_LOGOUT: '/api/auth/logout',
+  SESSIONS: '/api/sessions',
 } as const;
@@ -0,0 +1,232 @@
+/**
+ * CSV/TSV track list parsing
+ * RFC 4180 reader with delimiter sniffing, plus header recognition that maps spreadsheet
+ * columns onto track fields. Runs in the browser (to preview and map columns) and on the
+ * server (to import).
+ */
+
+import type { ParsedTextTrack } from './playlist-parser';
+import { normalizeIsrc, toSpotifyTrackUri } from './track-identifiers';
+
+/** Track field a column can be mapped to */
+export type CsvColumn = 'title' | 'artist' | 'album' | 'duration' | 'isrc' | 'spotifyUri' | 'ignore';
+
+/** All mappable fields, in the order they're offered in the UI */
+export const CSV_COLUMNS: readonly CsvColumn[] = ['title', 'artist', 'album', 'duration', 'isrc', 'spotifyUri', 'ignore'];
+
+/** A delimited track list with a recognized header row */
+export interface CsvTable {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+  /** Best guess at what each column holds */
+  columns: CsvColumn[];
+  /** True when the guess needs confirming: no title column, or several columns claim one field */
+  ambiguous: boolean;
+}
+
+const DELIMITERS = [',', '\t', ';', '|'];
+
+// Header names for each field, lowercased with spaces/underscores/dashes collapsed to a space
+const HEADER_NAMES: Record<Exclude<CsvColumn, 'ignore'>, string[]> = {
+  title: ['title', 'song', 'song title', 'song name', 'track', 'track name', 'track title', 'name'],
+  artist: ['artist', 'artists', 'artist name', 'artist names', 'artist name s', 'performer', 'band', 'creator'],
+  album: ['album', 'album name', 'album title', 'release'],
+  duration: ['duration', 'duration ms', 'duration s', 'length', 'time', 'track duration ms'],
+  isrc: ['isrc'],
+  spotifyUri: ['spotify uri', 'spotify url', 'spotify id', 'track uri', 'uri', 'spotify'],
+};
+
+/**
+ * Read delimited text into rows of fields (RFC 4180)
+ * Quoted fields may contain delimiters, line breaks and doubled quotes (""). Blank lines are dropped.
+ * @param text - The delimited text
+ * @param delimiter - Field separator; sniffed from the text when omitted
+ */
+export function parseCsv(text: string, delimiter: string = sniffDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Whether the current field started with a quote, so whitespace around it can be dropped
+  let quoted = false;
+
+  const endField = (): void => {
+    row.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+  };
+  const endRow = (): void => {
+    endField();
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '' && !quoted) {
+      field = '';
+      inQuotes = true;
+      quoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else if (!quoted) {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Count delimiter occurrences outside quotes on one line
+ */
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+/**
+ * Guess the field separator from the first few lines
+ * Picks the delimiter that appears the same (non-zero) number of times on the most lines,
+ * so a stray comma in a tab-separated title doesn't win.
+ * @returns The delimiter, or ',' when nothing stands out
+ */
+export function sniffDelimiter(text: string): string {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim()).slice(0, 10);
+  let best = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    if (counts[0] === 0 || counts[0] === undefined) continue;
+    const score = counts.filter((count) => count === counts[0]).length * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Normalize a header for lookup: "Track_Name" and "track-name" both become "track name"
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-()]+/g, ' ').trim();
+}
+
+/**
+ * Guess which field each column holds from its header
+ * @returns One field per header (unrecognized headers are 'ignore')
+ */
+export function guessColumns(headers: string[]): CsvColumn[] {
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    for (const [column, names] of Object.entries(HEADER_NAMES) as [CsvColumn, string[]][]) {
+      if (names.includes(normalized)) return column;
+    }
+    return 'ignore';
+  });
+}
+
+/**
+ * Check a column mapping is usable: one title column, and no field mapped twice
+ */
+export function isCompleteMapping(columns: CsvColumn[]): boolean {
+  const mapped = columns.filter((column) => column !== 'ignore');
+  return mapped.includes('title') && new Set(mapped).size === mapped.length;
+}
+
+/**
+ * Read text as a track table when its first row is a header we recognize
+ * @returns The table, or null for text that isn't a headed CSV/TSV (plain track lists)
+ */
+export function readCsvTable(text: string): CsvTable | null {
+  const delimiter = sniffDelimiter(text);
+  const rows = parseCsv(text, delimiter);
+  // Skip comment lines above the header
+  while (rows[0]?.[0]?.startsWith('#')) rows.shift();
+  if (rows.length < 2 || rows[0].length < 2) return null;
+
+  const [headers, ...body] = rows;
+  const columns = guessColumns(headers);
+  if (columns.every((column) => column === 'ignore')) return null;
+
+  return { delimiter, headers, rows: body, columns, ambiguous: !isCompleteMapping(columns) };
+}
+
+/**
+ * Parse a duration cell: "3:45", "1:02:03", seconds, or milliseconds
+ * Plain numbers are taken as milliseconds when the header says so or they're too long for seconds.
+ */
+function parseDuration(value: string, header: string): number | undefined {
+  if (value.includes(':')) {
+    const parts = value.split(':').map((part) => Number.parseFloat(part));
+    if (parts.some((part) => !Number.isFinite(part))) return undefined;
+    const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+    return seconds > 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const number = Number.parseFloat(value);
+  if (!Number.isFinite(number) || number <= 0) return undefined;
+  const isMs = /\bms\b/.test(normalizeHeader(header)) || number > 10000;
+  return Math.round(isMs ? number : number * 1000);
+}
+
+/**
+ * Convert table rows into tracks using a column mapping
+ * Rows without a title are skipped; ISRCs and Spotify URIs are kept only when well-formed.
+ * @param table - Parsed table
+ * @param columns - Field for each column (defaults to the table's guess)
+ */
+export function tracksFromCsvTable(table: CsvTable, columns: CsvColumn[] = table.columns): ParsedTextTrack[] {
+  const indexOf = (column: CsvColumn): number => columns.indexOf(column);
+  const titleIndex = indexOf('title');
+  if (titleIndex === -1) return [];
+
+  const cell = (row: string[], column: CsvColumn): string | undefined => {
+    const index = indexOf(column);
+    return index === -1 ? undefined : row[index]?.trim() || undefined;
+  };
+
+  const tracks: ParsedTextTrack[] = [];
+  for (const row of table.rows) {
+    const title = cell(row, 'title');
+    if (!title) continue;
+
+    const duration = cell(row, 'duration');
+    const isrc = cell(row, 'isrc');
+    const spotifyUri = cell(row, 'spotifyUri');
+
+    tracks.push({
+      title,
+      artist: cell(row, 'artist'),
+      album: cell(row, 'album'),
+      durationMs: duration ? parseDuration(duration, table.headers[indexOf('duration')]) : undefined,
+      isrc: isrc ? normalizeIsrc(isrc) : undefined,
+      spotifyUri: spotifyUri ? toSpotifyTrackUri(spotifyUri) : undefined,
+    });
+  }
+
+  return tracks;
+}
@@ -0,0 +1,64 @@
+/**
+ * Collect Liked Songs or a playlist for export
+ * Pages through the whole collection; unavailable and local tracks are skipped.
+ */
+
+import { getPlaylist, iteratePlaylistItems, iterateSavedTracks } from '../spotify';
+import type { ExportCollection, ExportSource, ExportTrack } from './types';
+
+/**
+ * Fetch every track in Liked Songs
+ * @param token - The access token
+ */
+async function collectLikedSongs(token: string): Promise<ExportCollection> {
+  const tracks: ExportTrack[] = [];
+  for await (const items of iterateSavedTracks(token)) {
+    for (const item of items) {
+      tracks.push({ track: item.track, addedAt: item.added_at });
+    }
+  }
+
+  return {
+    name: 'Liked Songs',
+    url: 'https://open.spotify.com/collection/tracks',
+    exportedAt: new Date().toISOString(),
+    tracks,
+  };
+}
+
+/**
+ * Fetch a playlist's details and every track in it
+ * @param playlistId - The Spotify playlist ID
+ * @param token - The access token
+ */
+async function collectPlaylist(playlistId: string, token: string): Promise<ExportCollection> {
+  const playlist = await getPlaylist(playlistId, token);
+
+  const tracks: ExportTrack[] = [];
+  for await (const items of iteratePlaylistItems(playlistId, token)) {
+    for (const item of items) {
+      if (item.track?.id) {
+        tracks.push({ track: item.track, addedAt: item.added_at });
+      }
+    }
+  }
+
+  return {
+    name: playlist.name,
+    url: playlist.external_urls?.spotify ?? `https://open.spotify.com/playlist/${playlist.id}`,
+    owner: playlist.owner?.display_name,
+    exportedAt: new Date().toISOString(),
+    tracks,
+  };
+}
+
+/**
+ * Collect the tracks of an export source
+ * @param source - Liked Songs or a playlist
+ * @param token - The access token
+ */
+export function collectExport(source: ExportSource, token: string): Promise<ExportCollection> {
+  return source.kind === 'liked'
+    ? collectLikedSongs(token)
+    : collectPlaylist(source.playlistId, token);
+}
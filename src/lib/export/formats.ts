@@ -0,0 +1,146 @@
+/**
+ * Export serializers
+ * CSV uses headers that the CSV importer recognizes (title, artist, album, duration, ISRC,
+ * Spotify URI), so exports can be imported again; M3U and XSPF point each entry at the track's Spotify URL.
+ */
+
+import { formatArtists } from '../spotify';
+import type { ExportCollection, ExportFormat, ExportTrack } from './types';
+
+/** How each format is written and served */
+interface ExportFormatSpec {
+  contentType: string;
+  extension: string;
+  serialize: (collection: ExportCollection) => string;
+}
+
+const CSV_HEADER = ['title', 'artist', 'album', 'duration_ms', 'isrc', 'spotify_uri', 'added_at'];
+
+/**
+ * Quote a CSV field, doubling embedded quotes
+ * Every field is quoted so values starting with '#' aren't read back as comments
+ */
+function csvField(value: string | number | undefined): string {
+  return `"${String(value ?? '').replace(/"/g, '""')}"`;
+}
+
+function toCsv({ tracks }: ExportCollection): string {
+  const rows = tracks.map(({ track, addedAt }) =>
+    [
+      track.name,
+      formatArtists(track.artists),
+      track.album.name,
+      track.duration_ms,
+      track.external_ids?.isrc,
+      track.uri,
+      addedAt,
+    ].map(csvField).join(',')
+  );
+  return [CSV_HEADER.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+function toJson(collection: ExportCollection): string {
+  return JSON.stringify(
+    {
+      name: collection.name,
+      url: collection.url,
+      owner: collection.owner,
+      exportedAt: collection.exportedAt,
+      total: collection.tracks.length,
+      tracks: collection.tracks.map(({ track, addedAt }) => ({ addedAt, ...track })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Keep M3U directives on one line
+ */
+function m3uText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+function toM3u({ name, tracks }: ExportCollection): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${m3uText(name)}`];
+  for (const { track } of tracks) {
+    const seconds = Math.round(track.duration_ms / 1000);
+    lines.push(
+      `#EXTINF:${seconds},${m3uText(formatArtists(track.artists))} - ${m3uText(track.name)}`,
+      `#EXTALB:${m3uText(track.album.name)}`,
+      track.external_urls.spotify
+    );
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Escape text for an XML element
+ */
+function xmlText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function xspfTrack({ track }: ExportTrack): string {
+  const elements = [
+    `<location>${xmlText(track.external_urls.spotify)}</location>`,
+    `<identifier>${xmlText(track.uri)}</identifier>`,
+    ...(track.external_ids?.isrc ? [`<identifier>urn:isrc:${xmlText(track.external_ids.isrc)}</identifier>`] : []),
+    `<title>${xmlText(track.name)}</title>`,
+    `<creator>${xmlText(formatArtists(track.artists))}</creator>`,
+    `<album>${xmlText(track.album.name)}</album>`,
+    `<duration>${track.duration_ms}</duration>`,
+  ];
+  return `    <track>\n${elements.map((element) => `      ${element}`).join('\n')}\n    </track>`;
+}
+
+function toXspf(collection: ExportCollection): string {
+  const header = [
+    `  <title>${xmlText(collection.name)}</title>`,
+    ...(collection.owner ? [`  <creator>${xmlText(collection.owner)}</creator>`] : []),
+    ...(collection.url ? [`  <info>${xmlText(collection.url)}</info>`] : []),
+    `  <date>${collection.exportedAt}</date>`,
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    ...header,
+    '  <trackList>',
+    ...collection.tracks.map(xspfTrack),
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatSpec> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv', serialize: toCsv },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json', serialize: toJson },
+  m3u: { contentType: 'audio/x-mpegurl; charset=utf-8', extension: 'm3u8', serialize: toM3u },
+  xspf: { contentType: 'application/xspf+xml; charset=utf-8', extension: 'xspf', serialize: toXspf },
+};
+
+/**
+ * Check whether a string names a supported export format
+ */
+export function isExportFormat(value: string | null | undefined): value is ExportFormat {
+  return value !== null && value !== undefined && Object.hasOwn(EXPORT_FORMATS, value);
+}
+
+/**
+ * Build a download file name from a collection name
+ */
+export function exportFileName(name: string, format: ExportFormat): string {
+  const base = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `${base || 'export'}.${EXPORT_FORMATS[format].extension}`;
+}
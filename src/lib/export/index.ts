@@ -0,0 +1,7 @@
+/**
+ * Library export utilities - re-exports all export-related modules
+ */
+
+export * from './types';
+export * from './collect';
+export * from './formats';
@@ -0,0 +1,30 @@
+/**
+ * Export types
+ */
+
+import type { SpotifyTrack } from '../spotify';
+
+/** File formats an export can be written in */
+export type ExportFormat = 'csv' | 'json' | 'm3u' | 'xspf';
+
+/** What is being exported */
+export type ExportSource = { kind: 'liked' } | { kind: 'playlist'; playlistId: string };
+
+/** A track in an export, with when it was added to the collection */
+export interface ExportTrack {
+  track: SpotifyTrack;
+  addedAt: string;
+}
+
+/** Everything collected for an export, ready to serialize */
+export interface ExportCollection {
+  /** Collection name, used as the playlist title and file name */
+  name: string;
+  /** Spotify URL of the collection, when it has one */
+  url?: string;
+  /** Playlist owner's display name, when exporting a playlist */
+  owner?: string;
+  /** ISO timestamp of the export */
+  exportedAt: string;
+  tracks: ExportTrack[];
+}
@@ -3,6 +3,13 @@
  * when exact matches fail or return few results.
  */
 
+// Live/version indicators - also used by the matcher to tell recordings apart
+export const VERSION_MARKERS = [
+  'live', 'live version', 'live performance', 'acoustic', 'acoustic version',
+  'remix', 'remixed', 'remaster', 'remastered', 'extended', 'extended mix',
+  'radio edit', 'single version', 'album version',
+] as const;
+
 // Common noise words to remove from search queries
 const NOISE_WORDS = [
   // Video-related
@@ -10,10 +17,7 @@ const NOISE_WORDS = [
   'lyric video', 'official video', 'official audio', 'official music video',
   // Quality indicators
   'hd', 'hq', '4k', '1080p', '720p', 'high quality', 'hi-fi', 'hifi',
-  // Live/version indicators
-  'live', 'live version', 'live performance', 'acoustic', 'acoustic version',
-  'remix', 'remixed', 'remaster', 'remastered', 'extended', 'extended mix',
-  'radio edit', 'single version', 'album version',
+  ...VERSION_MARKERS,
   // Platform-specific
   'visualizer', 'visualiser', 'animated', 'premiere', 'vevo',
   // Brackets content often contains noise
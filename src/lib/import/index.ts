@@ -0,0 +1,8 @@
+/**
+ * Playlist import utilities - re-exports all import-related modules
+ */
+
+export * from './types';
+export * from './scrapers';
+export * from './sources';
+export * from './pipeline';
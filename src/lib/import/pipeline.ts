@@ -0,0 +1,380 @@
+/**
+ * Playlist import pipeline
+ * Resolves the input (URL or pasted text), extracts source tracks and matches them on Spotify,
+ * emitting progress events as it goes so routes can stream or collect them.
+ */
+
+import { checkSavedTracks, getTracks, type SpotifyTrack } from '../spotify';
+import { findTrackMatches } from '../matching';
+import { parsePlaylistUrl, parseTextTracks, isTextTrackList, type ParsedPlaylistUrl } from '../playlist-parser';
+import { parsePlaylistFile, type PlaylistFileFormat } from '../playlist-files';
+import { detectLibraryExport, parseLibraryExport, type LibraryExportFormat } from '../library-exports';
+import { readCsvTable } from '../csv';
+import { validateExternalUrl } from '../api/validators';
+import { IMPORT, MATCHING, VALIDATION } from '../constants';
+import { getSpotifyPlaylistTracksInfo } from './scrapers';
+import { scrapePlaylist } from './sources';
+import {
+  ImportError,
+  type ImportEvent,
+  type ImportOptions,
+  type ImportedTrack,
+  type PlaylistDetails,
+  type PlaylistImportResult,
+  type PlaylistTrackInfo,
+} from './types';
+
+/** A validated import input */
+export type ImportSource =
+  | {
+      kind: 'text';
+      platform: 'text' | PlaylistFileFormat | LibraryExportFormat;
+      tracks: PlaylistTrackInfo[];
+      name?: string;
+    }
+  | { kind: 'url'; platform: string; playlist: ParsedPlaylistUrl };
+
+/**
+ * Validate import input and work out where tracks come from
+ * @param input - Playlist URL, plain text track list, playlist file or service export contents
+ * @param options - Import options (minimum play count for listening histories, CSV column mapping)
+ * @throws ImportError if the input can't be imported
+ */
+export function resolveImportSource(input: string, options: ImportOptions = {}): ImportSource {
+  // Exports from other services (streaming history, library files, scrobbles)
+  if (detectLibraryExport(input)) {
+    const libraryExport = parseLibraryExport(input, { minPlays: options.minPlays });
+    if (!libraryExport) {
+      throw new ImportError(options.minPlays
+        ? `No tracks in this export were played at least ${options.minPlays} times`
+        : 'No tracks found in this export');
+    }
+    return { kind: 'text', platform: libraryExport.format, tracks: libraryExport.tracks, name: libraryExport.name };
+  }
+
+  // Playlist files (M3U, XSPF, PLS) carry their own structure, so check them before plain text
+  const playlistFile = parsePlaylistFile(input);
+  if (playlistFile) {
+    return { kind: 'text', platform: playlistFile.format, tracks: playlistFile.tracks, name: playlistFile.name };
+  }
+
+  // Check if input is a plain text track list
+  if (isTextTrackList(input)) {
+    if (!options.columns && readCsvTable(input)?.ambiguous) {
+      throw new ImportError('Could not tell which CSV columns hold the title and artist. Choose the columns and try again.');
+    }
+    const textTracks = parseTextTracks(input, options.columns);
+    if (!textTracks || textTracks.length === 0) {
+      throw new ImportError('Could not parse track list. Try format: "Artist - Title" (one per line)');
+    }
+    return { kind: 'text', platform: 'text', tracks: textTracks };
+  }
+
+  // Try to parse as URL with SSRF protection - pages on other sites are read for structured data,
+  // and that source checks where their host resolves before fetching
+  const parsed = parsePlaylistUrl(input);
+  const urlValidation = validateExternalUrl(input, { anyDomain: parsed?.platform === 'generic' });
+  if (!urlValidation.valid) {
+    throw new ImportError(urlValidation.error!);
+  }
+
+  if (!parsed) {
+    throw new ImportError('Not a valid playlist URL. Supported: YouTube, Spotify, SoundCloud, Deezer, Apple Music, Tidal, Amazon Music. Or paste a list of tracks (one per line).');
+  }
+
+  return { kind: 'url', platform: parsed.platform, playlist: parsed };
+}
+
+/**
+ * Build the result for a source track with no Spotify match
+ */
+export function notFoundTrack(info: PlaylistTrackInfo): ImportedTrack {
+  return {
+    originalTitle: info.title,
+    originalArtist: info.artist,
+    spotifyTrack: null,
+    status: 'not_found',
+    confidence: 0,
+  };
+}
+
+/**
+ * Find the best Spotify match for a single source track
+ * @throws SpotifyApiError if Spotify rejects the search (callers decide whether to retry)
+ */
+export async function searchTrackMatch(info: PlaylistTrackInfo, token: string): Promise<ImportedTrack> {
+  const { best, alternatives } = await findTrackMatches(info, token);
+  if (!best) {
+    return { ...notFoundTrack(info), alternatives };
+  }
+
+  const [isLiked] = await checkSavedTracks([best.track.id], token);
+  return {
+    originalTitle: info.title,
+    originalArtist: info.artist,
+    spotifyTrack: { ...best.track, isLiked },
+    status: best.confidence >= MATCHING.REVIEW_BELOW ? 'found' : 'uncertain',
+    confidence: best.confidence,
+    alternatives,
+  };
+}
+
+/**
+ * Look up source tracks that carry a Spotify track URI, in batches
+ * @returns A found result for each track whose URI Spotify knows, null for the rest
+ * @throws SpotifyApiError if Spotify rejects a lookup (callers decide whether to retry)
+ */
+export async function resolveSpotifyUris(
+  infos: PlaylistTrackInfo[],
+  token: string
+): Promise<(ImportedTrack | null)[]> {
+  const ids = [...new Set(infos.flatMap((info) => info.spotifyUri ? [info.spotifyUri.split(':')[2]] : []))];
+  const tracksById = new Map<string, SpotifyTrack & { isLiked: boolean }>();
+
+  for (let i = 0; i < ids.length; i += VALIDATION.MAX_TRACK_LOOKUP_IDS) {
+    const chunk = ids.slice(i, i + VALIDATION.MAX_TRACK_LOOKUP_IDS);
+    const tracks = await getTracks(chunk, token);
+    const found = tracks.flatMap((track, index) => track ? [{ id: chunk[index], track }] : []);
+    if (found.length === 0) continue;
+
+    const liked = await checkSavedTracks(found.map(({ track }) => track.id), token);
+    found.forEach(({ id, track }, index) => tracksById.set(id, { ...track, isLiked: liked[index] }));
+  }
+
+  return infos.map((info) => {
+    const track = info.spotifyUri ? tracksById.get(info.spotifyUri.split(':')[2]) : undefined;
+    if (!track) return null;
+
+    // Lines holding only a URI have no title of their own
+    const uriOnly = info.title === info.spotifyUri;
+    return {
+      originalTitle: uriOnly ? track.name : info.title,
+      originalArtist: uriOnly ? track.artists[0]?.name : info.artist,
+      spotifyTrack: track,
+      status: 'found',
+      confidence: 1,
+    };
+  });
+}
+
+/**
+ * Search Spotify for a single source track
+ * Never throws - failed searches are reported as not found
+ */
+async function matchTrack(info: PlaylistTrackInfo, token: string): Promise<ImportedTrack> {
+  try {
+    return await searchTrackMatch(info, token);
+  } catch {
+    return notFoundTrack(info);
+  }
+}
+
+/**
+ * Match source tracks with bounded concurrency, yielding results as they complete
+ * Tracks with a Spotify URI are looked up in batches first; the rest are searched.
+ * Stops starting new searches as soon as the consumer stops iterating (e.g. client cancelled)
+ */
+async function* matchTracks(
+  infos: PlaylistTrackInfo[],
+  token: string
+): AsyncGenerator<{ index: number; track: ImportedTrack }> {
+  let resolved: (ImportedTrack | null)[];
+  try {
+    resolved = await resolveSpotifyUris(infos, token);
+  } catch {
+    // Fall back to searching every track
+    resolved = infos.map(() => null);
+  }
+
+  const toSearch: number[] = [];
+  for (const [index, track] of resolved.entries()) {
+    if (track) {
+      yield { index, track };
+    } else {
+      toSearch.push(index);
+    }
+  }
+
+  const pending = new Map<number, Promise<{ index: number; track: ImportedTrack }>>();
+  let nextSearch = 0;
+
+  const startNext = () => {
+    const index = toSearch[nextSearch++];
+    pending.set(index, matchTrack(infos[index], token).then((track) => ({ index, track })));
+  };
+
+  while (nextSearch < toSearch.length && pending.size < IMPORT.MATCH_CONCURRENCY) {
+    startNext();
+  }
+
+  while (pending.size > 0) {
+    const result = await Promise.race(pending.values());
+    pending.delete(result.index);
+    if (nextSearch < toSearch.length) {
+      startNext();
+    }
+    yield result;
+  }
+}
+
+/**
+ * Read a positive track limit from an environment variable
+ */
+function readTrackLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+/**
+ * Max tracks read per import, from IMPORT_MAX_TRACKS (defaults to IMPORT.MAX_TRACKS)
+ */
+export function getImportTrackLimit(): number {
+  return readTrackLimit(import.meta.env.IMPORT_MAX_TRACKS, IMPORT.MAX_TRACKS);
+}
+
+/**
+ * Max tracks read per background import job, from IMPORT_JOB_MAX_TRACKS (defaults to IMPORT.MAX_JOB_TRACKS)
+ */
+export function getJobTrackLimit(): number {
+  return readTrackLimit(import.meta.env.IMPORT_JOB_MAX_TRACKS, IMPORT.MAX_JOB_TRACKS);
+}
+
+/** Source tracks extracted for an import */
+export interface ExtractedTracks {
+  playlistName: string;
+  details: PlaylistDetails;
+  /** Source tracks left out by the track limit */
+  truncated: number;
+  /** Tracks that still need matching on Spotify */
+  tracks: PlaylistTrackInfo[];
+  /** Already-resolved tracks (Spotify playlists need no matching) */
+  resolved: ImportedTrack[] | null;
+}
+
+/**
+ * Fetch the source playlist and extract its tracks
+ * @param source - Validated source from resolveImportSource
+ * @param token - Spotify access token
+ * @param limit - Max tracks to extract
+ * @throws ImportError if no tracks could be extracted
+ */
+export async function extractImportTracks(
+  source: ImportSource,
+  token: string,
+  limit: number = getImportTrackLimit()
+): Promise<ExtractedTracks> {
+  if (source.kind === 'text') {
+    return {
+      playlistName: source.name ?? 'Text Import',
+      details: {},
+      truncated: Math.max(0, source.tracks.length - limit),
+      tracks: source.tracks.slice(0, limit),
+      resolved: null,
+    };
+  }
+
+  if (source.playlist.platform === 'spotify') {
+    const result = await getSpotifyPlaylistTracksInfo(source.playlist.playlistId, token, limit);
+    return {
+      playlistName: result.name,
+      details: result.details,
+      truncated: result.truncated,
+      tracks: [],
+      resolved: result.tracks.map((track) => ({
+        originalTitle: track.name,
+        originalArtist: track.artists[0]?.name,
+        spotifyTrack: track,
+        status: 'found' as const,
+        confidence: 1,
+      })),
+    };
+  }
+
+  // For other platforms, scrape and search
+  const { tracks: trackInfos, metadata, truncated } = await scrapePlaylist(source.playlist.url, limit);
+
+  if (trackInfos.length === 0) {
+    throw new ImportError('Could not extract tracks from this playlist. The playlist may be private or empty.');
+  }
+
+  const { name, trackCount: _trackCount, ...details } = metadata;
+  return { playlistName: name ?? '', details, truncated, tracks: trackInfos, resolved: null };
+}
+
+/**
+ * Run an import, yielding progress events
+ * @param source - Validated source from resolveImportSource
+ * @param token - Spotify access token
+ * @throws ImportError if no tracks could be extracted
+ */
+export async function* runPlaylistImport(
+  source: ImportSource,
+  token: string
+): AsyncGenerator<ImportEvent> {
+  const { platform } = source;
+  yield { type: 'fetching', platform };
+
+  const { playlistName, details, truncated, tracks: trackInfos, resolved } = await extractImportTracks(source, token);
+  const total = resolved?.length ?? trackInfos.length;
+  yield { type: 'extracted', platform, playlistName, details, total, truncated };
+
+  let found = 0;
+  let uncertain = 0;
+  let completed = 0;
+
+  const results = resolved
+    ? (async function* () {
+        for (const [index, track] of resolved.entries()) {
+          yield { index, track };
+        }
+      })()
+    : matchTracks(trackInfos, token);
+
+  for await (const { index, track } of results) {
+    completed++;
+    if (track.status === 'found') found++;
+    if (track.status === 'uncertain') uncertain++;
+    yield { type: 'matched', index, completed, total, track };
+  }
+
+  yield {
+    type: 'done',
+    platform,
+    playlistName,
+    details,
+    truncated,
+    summary: { total, found, uncertain, notFound: total - found - uncertain },
+  };
+}
+
+/**
+ * Run an import to completion and return the tracks in source order
+ * @param source - Validated source from resolveImportSource
+ * @param token - Spotify access token
+ * @throws ImportError if no tracks could be extracted
+ */
+export async function collectPlaylistImport(
+  source: ImportSource,
+  token: string
+): Promise<PlaylistImportResult> {
+  const tracks: ImportedTrack[] = [];
+  let result: PlaylistImportResult = {
+    platform: source.platform,
+    playlistName: '',
+    details: {},
+    truncated: 0,
+    tracks,
+    summary: { total: 0, found: 0, uncertain: 0, notFound: 0 },
+  };
+
+  for await (const event of runPlaylistImport(source, token)) {
+    if (event.type === 'matched') {
+      tracks[event.index] = event.track;
+    } else if (event.type === 'done') {
+      const { type: _type, ...rest } = event;
+      result = { ...rest, tracks };
+    }
+  }
+
+  return result;
+}
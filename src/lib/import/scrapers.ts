@@ -0,0 +1,74 @@
+/**
+ * Playlist fetching helpers - page requests for playlist sources, and Spotify playlists
+ * (which need no scraping). Per-platform page readers live in ./sources.
+ */
+
+import { checkSavedTracks, collectPages, getPlaylist, iteratePlaylistItems } from '../spotify';
+import { decodeXmlText } from '../playlist-files';
+import { IMPORT } from '../constants';
+import type { SpotifyTrack } from '../spotify';
+import type { PlaylistDetails } from './types';
+
+// Browser-like headers sent with every scraper request
+export const SCRAPER_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Cache-Control': 'no-cache',
+};
+
+// Fetch with timeout and browser-like headers (init can add a method, body or extra headers)
+export async function fetchWithTimeout(url: string, timeoutMs: number, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        ...SCRAPER_HEADERS,
+        ...init.headers as Record<string, string> | undefined,
+      },
+    });
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Get tracks from Spotify playlist directly
+export async function getSpotifyPlaylistTracksInfo(
+  playlistId: string,
+  token: string,
+  limit: number = IMPORT.MAX_TRACKS
+): Promise<{ tracks: (SpotifyTrack & { isLiked: boolean })[]; name: string; details: PlaylistDetails; truncated: number }> {
+  try {
+    const playlist = await getPlaylist(playlistId, token);
+    // Follows the API's next links until the limit is reached
+    const items = await collectPages(iteratePlaylistItems(playlistId, token), limit);
+    const tracks = items
+      .filter(item => item.track !== null)
+      .map(item => item.track as SpotifyTrack);
+
+    // Check liked status (the contains endpoint accepts a limited number of IDs per call)
+    const likedStatus: boolean[] = [];
+    for (let i = 0; i < tracks.length; i += IMPORT.SAVED_CHECK_BATCH_SIZE) {
+      const batchIds = tracks.slice(i, i + IMPORT.SAVED_CHECK_BATCH_SIZE).map(t => t.id);
+      likedStatus.push(...await checkSavedTracks(batchIds, token));
+    }
+
+    return {
+      tracks: tracks.map((track, i) => ({ ...track, isLiked: likedStatus[i] || false })),
+      name: playlist.name,
+      details: {
+        owner: playlist.owner.display_name || undefined,
+        // Descriptions may contain links and HTML entities
+        description: decodeXmlText(playlist.description?.replace(/<[^>]*>/g, '') ?? '') || undefined,
+        imageUrl: playlist.images?.[0]?.url,
+      },
+      truncated: Math.max(0, playlist.tracks.total - items.length),
+    };
+  } catch {
+    return { tracks: [], name: '', details: {}, truncated: 0 };
+  }
+}
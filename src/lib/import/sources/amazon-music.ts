@@ -0,0 +1,36 @@
+/**
+ * Amazon Music playlist source
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { fetchPage, pageMetadata } from './html';
+
+export class AmazonMusicPlaylistSource implements PlaylistSource {
+  readonly platform = 'amazon-music';
+
+  match(url: URL): boolean {
+    const hostname = url.hostname.toLowerCase();
+    return hostname === 'music.amazon.com' ||
+      hostname.endsWith('.music.amazon.com') ||
+      (hostname.includes('amazon.') && url.pathname.includes('/music/'));
+  }
+
+  fetch(url: URL): Promise<string | null> {
+    return fetchPage(url.href);
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks: PlaylistTrackInfo[] = [];
+
+    for (const match of html.matchAll(/"title"\s*:\s*"([^"]+)"\s*,\s*"artistName"\s*:\s*"([^"]+)"/gi)) {
+      tracks.push({ title: match[1], artist: match[2] });
+    }
+
+    return tracks;
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    return pageMetadata(html);
+  }
+}
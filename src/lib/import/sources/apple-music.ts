@@ -0,0 +1,54 @@
+/**
+ * Apple Music playlist source
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { fetchPage, pageMetadata } from './html';
+
+export class AppleMusicPlaylistSource implements PlaylistSource {
+  readonly platform = 'apple-music';
+
+  match(url: URL): boolean {
+    return url.hostname.toLowerCase() === 'music.apple.com';
+  }
+
+  fetch(url: URL): Promise<string | null> {
+    return fetchPage(url.href);
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks: PlaylistTrackInfo[] = [];
+
+    // Pattern 1: JSON-LD structured data
+    for (const match of html.match(/<script[^>]*type="application\/ld\+json"[^>]*>([\s\S]*?)<\/script>/gi) ?? []) {
+      try {
+        const data = JSON.parse(match.replace(/<script[^>]*>|<\/script>/gi, ''));
+        for (const track of data.track ?? []) {
+          if (track.name) tracks.push({ title: track.name, artist: track.byArtist?.name });
+        }
+      } catch { /* JSON parse failed */ }
+    }
+
+    // Pattern 2: Look for track names in meta/data attributes
+    if (tracks.length === 0) {
+      for (const match of html.matchAll(/data-testid="track-title"[^>]*>([^<]+)</gi)) {
+        const title = match[1].trim();
+        if (title) tracks.push({ title });
+      }
+    }
+
+    // Pattern 3: Look in embedded JSON
+    if (tracks.length === 0) {
+      for (const match of html.matchAll(/"name"\s*:\s*"([^"]+)"\s*,\s*"@type"\s*:\s*"MusicRecording"/gi)) {
+        tracks.push({ title: match[1] });
+      }
+    }
+
+    return tracks;
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    return pageMetadata(html);
+  }
+}
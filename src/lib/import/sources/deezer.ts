@@ -0,0 +1,124 @@
+/**
+ * Deezer playlist source
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { fetchJson, fetchPage, mergeMetadata, pageMetadata } from './html';
+
+/** A song in Deezer's embedded app state */
+interface DeezerSong {
+  SNG_TITLE?: string;
+  ART_NAME?: string;
+}
+
+/** The parts of Deezer's embedded app state we read */
+interface DeezerAppState {
+  DATA?: {
+    TITLE?: string;
+    DESCRIPTION?: string;
+    PARENT_USERNAME?: string;
+    NB_SONG?: number;
+    SONGS?: { data?: DeezerSong[] };
+  };
+  SONGS?: { data?: DeezerSong[] };
+}
+
+/** A page of the public API's playlist tracks endpoint */
+interface DeezerTrackPage {
+  data?: { title?: string; duration?: number; artist?: { name?: string }; album?: { title?: string } }[];
+  next?: string;
+}
+
+/** Tracks per public API request (the API's maximum) */
+const API_PAGE_SIZE = 100;
+
+/**
+ * Read the app state Deezer embeds in its pages
+ */
+function readAppState(html: string): DeezerAppState | null {
+  const match = html.match(/__DZR_APP_STATE__\s*=\s*({[\s\S]*?})\s*<\/script>/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Songs embedded in the app state (the first page of the playlist)
+ */
+function readSongs(state: DeezerAppState | null): DeezerSong[] {
+  return state?.DATA?.SONGS?.data || state?.SONGS?.data || [];
+}
+
+export class DeezerPlaylistSource implements PlaylistSource {
+  readonly platform = 'deezer';
+
+  match(url: URL): boolean {
+    const hostname = url.hostname.toLowerCase();
+    return hostname === 'deezer.com' || hostname.endsWith('.deezer.com');
+  }
+
+  fetch(url: URL): Promise<string | null> {
+    return fetchPage(url.href);
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks: PlaylistTrackInfo[] = [];
+
+    // Pattern 1: __DZR_APP_STATE__ JSON
+    for (const song of readSongs(readAppState(html))) {
+      if (song.SNG_TITLE) tracks.push({ title: song.SNG_TITLE, artist: song.ART_NAME });
+    }
+
+    // Pattern 2: Direct regex for track data
+    if (tracks.length === 0) {
+      const titles = [...html.matchAll(/"SNG_TITLE"\s*:\s*"([^"]+)"/gi)].map(m => m[1]);
+      const artists = [...html.matchAll(/"ART_NAME"\s*:\s*"([^"]+)"/gi)].map(m => m[1]);
+
+      for (let i = 0; i < titles.length; i++) {
+        tracks.push({ title: titles[i], artist: artists[i] });
+      }
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Page through the public API for the songs after those embedded in the page
+   */
+  async *more(url: URL, html: string): AsyncGenerator<PlaylistTrackInfo[]> {
+    const playlistId = url.pathname.match(/\/playlist\/(\d+)/)?.[1];
+    if (!playlistId) return;
+
+    const index = readSongs(readAppState(html)).length;
+    let next: string | undefined = `https://api.deezer.com/playlist/${playlistId}/tracks?index=${index}&limit=${API_PAGE_SIZE}`;
+    while (next) {
+      const page: DeezerTrackPage | null = await fetchJson<DeezerTrackPage>(next);
+      // Errors come back as 200 responses with an error object and no data
+      if (!page?.data?.length) return;
+
+      yield page.data
+        .filter(track => track.title)
+        .map(track => ({
+          title: track.title as string,
+          artist: track.artist?.name,
+          album: track.album?.title,
+          durationMs: track.duration ? track.duration * 1000 : undefined,
+        }));
+      next = page.next;
+    }
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    const playlist = readAppState(html)?.DATA;
+    return mergeMetadata({
+      name: playlist?.TITLE,
+      owner: playlist?.PARENT_USERNAME,
+      description: playlist?.DESCRIPTION,
+      trackCount: playlist?.NB_SONG,
+    }, pageMetadata(html));
+  }
+}
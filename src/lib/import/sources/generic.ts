@@ -0,0 +1,47 @@
+/**
+ * Fallback source for pages no other source handles
+ * Reads structured data first, then a few common markup patterns.
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { fetchPublicPage, pageMetadata } from './html';
+import { extractStructuredTracks } from './structured-data';
+
+// Common markup for track names, tried in order until one finds something (pages without structured data)
+const TITLE_PATTERNS = [
+  /<meta\s+property="music:song"\s+content="([^"]+)"/gi,
+  /"trackName"\s*:\s*"([^"]+)"/gi,
+  /"songName"\s*:\s*"([^"]+)"/gi,
+];
+
+export class GenericPlaylistSource implements PlaylistSource {
+  readonly platform = 'generic';
+
+  match(): boolean {
+    return true;
+  }
+
+  fetch(url: URL): Promise<string | null> {
+    // Any site can end up here, not just the allowlisted platforms
+    return fetchPublicPage(url.href);
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks = extractStructuredTracks(html);
+    if (tracks.length > 0) return tracks;
+
+    for (const pattern of TITLE_PATTERNS) {
+      for (const match of html.matchAll(pattern)) {
+        tracks.push({ title: match[1] });
+      }
+      if (tracks.length > 0) break;
+    }
+
+    return tracks;
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    return pageMetadata(html);
+  }
+}
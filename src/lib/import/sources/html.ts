@@ -0,0 +1,277 @@
+/**
+ * Shared helpers for playlist sources
+ */
+
+import { lookup } from 'node:dns/promises';
+import type { LookupAddress } from 'node:dns';
+import { request as httpRequest, type IncomingMessage } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import type { LookupFunction } from 'node:net';
+import { fetchWithTimeout, SCRAPER_HEADERS } from '../scrapers';
+import { isBlockedIp, validateExternalUrl } from '../../api/validators';
+import { decodeXmlText } from '../../playlist-files';
+import { IMPORT, TIMEOUTS } from '../../constants';
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSourceMetadata } from './types';
+
+/**
+ * Fetch a page's HTML
+ * @returns The HTML, or null for error responses
+ */
+export async function fetchPage(url: string, init?: RequestInit): Promise<string | null> {
+  const response = await fetchWithTimeout(url, TIMEOUTS.EXTERNAL_API_MS, init);
+  return response.ok ? response.text() : null;
+}
+
+// Redirects followed when fetching a page on an arbitrary host
+const MAX_PUBLIC_PAGE_REDIRECTS = 5;
+
+// Content types read as pages from hosts that aren't on the allowlist
+const PUBLIC_PAGE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * Resolve a hostname, checking that every address it resolves to is public
+ * @returns The address to connect to, or null if any is private or the lookup failed
+ */
+async function resolvePublicAddress(hostname: string): Promise<LookupAddress | null> {
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    if (addresses.length === 0 ||
+        addresses.some(({ address }) => isBlockedIp(address.replace(/^::ffff:/i, '')))) {
+      return null;
+    }
+    return addresses[0];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send a GET request over a connection to an address that was already checked
+ * The socket is handed that address instead of resolving the hostname again, so a DNS
+ * answer that changes after the check (DNS rebinding) is never connected to.
+ */
+function requestPinned(url: URL, address: LookupAddress, signal: AbortSignal): Promise<IncomingMessage> {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [address]);
+    } else {
+      callback(null, address.address, address.family);
+    }
+  };
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    send(url, { headers: SCRAPER_HEADERS, lookup: pinnedLookup, signal }, resolve)
+      .on('error', reject)
+      .end();
+  });
+}
+
+/**
+ * Read a response body as text, giving up once it passes a size limit
+ * @returns The text, or null if the body is too large
+ */
+async function readLimitedText(response: IncomingMessage, maxBytes: number): Promise<string | null> {
+  if (Number(response.headers['content-length']) > maxBytes) {
+    response.destroy();
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    // Leaving the loop destroys the stream, so the rest is never downloaded
+    if (size > maxBytes) return null;
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Fetch a page on a host that isn't on the import allowlist
+ * Every hop of a redirect is checked to resolve to a public address, and the connection is
+ * made to the address that was checked. Only HTML is read, up to IMPORT.MAX_PUBLIC_PAGE_BYTES.
+ * @returns The HTML, or null for error responses, blocked hosts, other content and oversized pages
+ */
+export async function fetchPublicPage(url: string): Promise<string | null> {
+  // One deadline for the whole redirect chain and body
+  const signal = AbortSignal.timeout(TIMEOUTS.EXTERNAL_API_MS);
+  let current = url;
+  for (let redirects = 0; redirects <= MAX_PUBLIC_PAGE_REDIRECTS; redirects++) {
+    if (!validateExternalUrl(current, { anyDomain: true }).valid) return null;
+    const target = new URL(current);
+    const address = await resolvePublicAddress(target.hostname);
+    if (!address) return null;
+
+    const response = await requestPinned(target, address, signal);
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      current = new URL(location, current).href;
+      continue;
+    }
+
+    const contentType = response.headers['content-type']?.split(';')[0].trim().toLowerCase();
+    if (status < 200 || status >= 300 || !contentType || !PUBLIC_PAGE_CONTENT_TYPES.includes(contentType)) {
+      response.destroy();
+      return null;
+    }
+    return readLimitedText(response, IMPORT.MAX_PUBLIC_PAGE_BYTES);
+  }
+  return null;
+}
+
+/**
+ * Fetch a JSON endpoint
+ * @returns The parsed body, or null for error responses
+ */
+export async function fetchJson<T>(url: string, init?: RequestInit): Promise<T | null> {
+  const response = await fetchWithTimeout(url, TIMEOUTS.EXTERNAL_API_MS, init);
+  return response.ok ? response.json() as Promise<T> : null;
+}
+
+/**
+ * Normalize a title or artist for duplicate checks: lowercase, no accents, punctuation or extra spaces
+ */
+function normalizeTrackText(text: string | undefined): string {
+  return (text ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Identify a track for duplicate checks: by its Spotify URI or ISRC when known, else its title and artist
+ */
+export function trackKey(track: PlaylistTrackInfo): string {
+  if (track.spotifyUri) return `uri:${track.spotifyUri}`;
+  if (track.isrc) return `isrc:${track.isrc}`;
+  return `text:${normalizeTrackText(track.title)}|${normalizeTrackText(track.artist)}`;
+}
+
+/**
+ * Append a page of tracks, skipping ones an earlier page already listed
+ * Continuation pages can overlap, but a repeat within one page is kept - playlists can list a song twice.
+ * @param seen - Keys (see trackKey) of the tracks on earlier pages; this page's are added
+ */
+export function appendNewTracks(tracks: PlaylistTrackInfo[], page: PlaylistTrackInfo[], seen: Set<string>): void {
+  const keys = page.map(trackKey);
+  page.forEach((track, i) => {
+    if (!seen.has(keys[i])) tracks.push(track);
+  });
+  keys.forEach((key) => seen.add(key));
+}
+
+/**
+ * Read a `<meta property="..." content="...">` (or name=) tag
+ */
+export function readMetaContent(html: string, property: string): string | undefined {
+  const escaped = property.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const tag = html.match(new RegExp(`<meta[^>]+(?:property|name)=["']${escaped}["'][^>]*>`, 'i'))?.[0];
+  const content = tag?.match(/content=(?:"([^"]*)"|'([^']*)')/i);
+  const value = content ? decodeXmlText(content[1] ?? content[2]) : '';
+  return value || undefined;
+}
+
+/**
+ * Decode the escapes in a string captured from inline JSON (\\", \\u0026, ...)
+ */
+export function decodeJsonString(value: string): string {
+  try {
+    return JSON.parse(`"${value}"`);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse every JSON-LD block on a page, flattening arrays and `@graph` lists
+ * Blocks that aren't valid JSON are skipped.
+ */
+export function readJsonLd(html: string): Record<string, unknown>[] {
+  const nodes: Record<string, unknown>[] = [];
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      const node = value as Record<string, unknown>;
+      nodes.push(node);
+      if (node['@graph']) collect(node['@graph']);
+    }
+  };
+
+  for (const match of html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    try {
+      collect(JSON.parse(match[1]));
+    } catch { /* JSON parse failed */ }
+  }
+  return nodes;
+}
+
+/**
+ * Check a JSON-LD node's @type (which may be a list)
+ */
+export function hasJsonLdType(node: Record<string, unknown>, types: string[]): boolean {
+  const nodeTypes = ([] as unknown[]).concat(node['@type']);
+  return nodeTypes.some((type) => typeof type === 'string' && types.includes(type));
+}
+
+/**
+ * Read a JSON-LD value that may be text, a named entity, or a list of either
+ */
+export function jsonLdText(value: unknown): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  if (typeof first === 'string') return first.trim() || undefined;
+  if (first && typeof first === 'object') {
+    const entity = first as Record<string, unknown>;
+    return jsonLdText(entity.name ?? entity.url);
+  }
+  return undefined;
+}
+
+/**
+ * Combine metadata, taking each field from the first part that has it
+ */
+export function mergeMetadata(...parts: PlaylistSourceMetadata[]): PlaylistSourceMetadata {
+  const merged: PlaylistSourceMetadata = {};
+  for (const part of parts) {
+    for (const key of ['name', 'owner', 'description', 'imageUrl'] as const) {
+      merged[key] ??= part[key] || undefined;
+    }
+    merged.trackCount ??= part.trackCount || undefined;
+  }
+  return merged;
+}
+
+/**
+ * Playlist details from Open Graph tags, which every supported platform sets
+ */
+export function openGraphMetadata(html: string): PlaylistSourceMetadata {
+  return {
+    name: readMetaContent(html, 'og:title'),
+    description: readMetaContent(html, 'og:description'),
+    imageUrl: readMetaContent(html, 'og:image'),
+  };
+}
+
+/**
+ * Playlist details from a page's JSON-LD playlist/album, falling back to Open Graph tags
+ */
+export function pageMetadata(html: string): PlaylistSourceMetadata {
+  const playlist = readJsonLd(html).find((node) => hasJsonLdType(node, ['MusicPlaylist', 'MusicAlbum']));
+  const structured: PlaylistSourceMetadata = playlist
+    ? {
+        name: jsonLdText(playlist.name),
+        owner: jsonLdText(playlist.author ?? playlist.creator ?? playlist.byArtist),
+        description: jsonLdText(playlist.description),
+        imageUrl: jsonLdText(playlist.image),
+        trackCount: Number(playlist.numTracks) || undefined,
+      }
+    : {};
+  return mergeMetadata(structured, openGraphMetadata(html));
+}
@@ -0,0 +1,135 @@
+/**
+ * Playlist sources - registry of per-platform playlist page readers
+ * Easy to add new platforms without modifying existing code
+ */
+
+import { AmazonMusicPlaylistSource } from './amazon-music';
+import { AppleMusicPlaylistSource } from './apple-music';
+import { DeezerPlaylistSource } from './deezer';
+import { GenericPlaylistSource } from './generic';
+import { SoundCloudPlaylistSource } from './soundcloud';
+import { TidalPlaylistSource } from './tidal';
+import { YouTubePlaylistSource } from './youtube';
+import { appendNewTracks, trackKey } from './html';
+import { extractStructuredTracks } from './structured-data';
+import { IMPORT } from '../../constants';
+import type { PlaylistSource, ScrapedPlaylist } from './types';
+
+export * from './types';
+export { readMetaContent, readJsonLd, pageMetadata } from './html';
+export { extractStructuredTracks, parseIsoDuration } from './structured-data';
+export {
+  AmazonMusicPlaylistSource,
+  AppleMusicPlaylistSource,
+  DeezerPlaylistSource,
+  GenericPlaylistSource,
+  SoundCloudPlaylistSource,
+  TidalPlaylistSource,
+  YouTubePlaylistSource,
+};
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const sources: PlaylistSource[] = [
+  new YouTubePlaylistSource(),
+  new SoundCloudPlaylistSource(),
+  new DeezerPlaylistSource(),
+  new AppleMusicPlaylistSource(),
+  new TidalPlaylistSource(),
+  new AmazonMusicPlaylistSource(),
+];
+
+// Used for any page no registered source matches
+const fallbackSource = new GenericPlaylistSource();
+
+/**
+ * Register a new playlist source
+ * @param source - The source to register
+ */
+export function registerPlaylistSource(source: PlaylistSource): void {
+  // Add to beginning so custom sources take precedence
+  sources.unshift(source);
+}
+
+/**
+ * Remove a playlist source by platform name
+ * @param platform - The platform name to remove
+ */
+export function unregisterPlaylistSource(platform: string): void {
+  const index = sources.findIndex((s) => s.platform === platform);
+  if (index !== -1) {
+    sources.splice(index, 1);
+  }
+}
+
+/**
+ * Get all registered playlist sources
+ */
+export function getPlaylistSources(): readonly PlaylistSource[] {
+  return sources;
+}
+
+/**
+ * Find the source that reads a playlist URL
+ * @returns The matching source, or the generic fallback
+ */
+export function findPlaylistSource(url: URL): PlaylistSource {
+  return sources.find((source) => source.match(url)) ?? fallbackSource;
+}
+
+// =============================================================================
+// Scraping
+// =============================================================================
+
+/**
+ * Fetch a playlist page and extract its tracks and details, following the source's continuations
+ * Never throws - pages that can't be fetched or parsed give no tracks
+ * @param url - Playlist page URL
+ * @param limit - Max tracks to return
+ */
+export async function scrapePlaylist(url: string, limit: number = IMPORT.MAX_TRACKS): Promise<ScrapedPlaylist> {
+  try {
+    const pageUrl = new URL(url);
+    const source = findPlaylistSource(pageUrl);
+    const html = await source.fetch(pageUrl);
+    if (!html) {
+      return { tracks: [], metadata: {}, truncated: 0 };
+    }
+
+    // Pages a platform's own extractor can't read may still carry structured data
+    let tracks = source.extract(html);
+    if (tracks.length === 0 && source !== fallbackSource) {
+      tracks = extractStructuredTracks(html);
+    }
+    const metadata = source.metadata(html);
+
+    // Read one track past the limit so we can tell whether any were left out
+    let stoppedEarly = false;
+    if (source.more && tracks.length <= limit) {
+      let requests = 0;
+      const seen = new Set(tracks.map(trackKey));
+      try {
+        for await (const batch of source.more(pageUrl, html)) {
+          appendNewTracks(tracks, batch, seen);
+          if (tracks.length > limit || ++requests >= IMPORT.MAX_CONTINUATION_REQUESTS) {
+            stoppedEarly = true;
+            break;
+          }
+        }
+      } catch {
+        // Continuation failed - keep the tracks read so far
+      }
+    }
+
+    const kept = tracks.slice(0, limit);
+    const truncated = stoppedEarly || tracks.length > limit
+      ? Math.max(tracks.length, metadata.trackCount ?? 0) - kept.length
+      : 0;
+    return { tracks: kept, metadata, truncated };
+  } catch {
+    // Scraping failed - report no tracks
+    return { tracks: [], metadata: {}, truncated: 0 };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * SoundCloud set/playlist source
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { fetchJson, fetchPage, mergeMetadata, pageMetadata } from './html';
+
+/** A track in SoundCloud's data - only the first few in a set are complete, the rest are just IDs */
+interface SoundCloudTrack {
+  id?: number;
+  title?: string;
+  duration?: number;
+  user?: { username?: string };
+}
+
+/** An entry in SoundCloud's hydration data (only the fields we read) */
+interface SoundCloudHydration {
+  hydratable?: string;
+  data?: {
+    title?: string;
+    description?: string;
+    artwork_url?: string;
+    track_count?: number;
+    user?: { username?: string };
+    tracks?: SoundCloudTrack[];
+  };
+}
+
+/** Track IDs per api-v2 tracks request */
+const TRACK_BATCH_SIZE = 50;
+
+/**
+ * Read the hydration data SoundCloud embeds in its pages
+ */
+function readHydration(html: string): SoundCloudHydration[] {
+  const match = html.match(/<script[^>]*>window\.__sc_hydration\s*=\s*(\[[\s\S]*?\]);<\/script>/);
+  if (!match) return [];
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Find the public client ID the web app uses for api-v2, which is set in one of its script bundles
+ */
+async function findClientId(html: string): Promise<string | null> {
+  const scripts = [...html.matchAll(/<script[^>]+src="(https:\/\/a-v2\.sndcdn\.com\/assets\/[^"]+\.js)"/g)].map(m => m[1]);
+  // The app bundle that sets it is usually one of the last
+  for (const script of scripts.reverse()) {
+    const clientId = (await fetchPage(script))?.match(/client_id\s*[:=]\s*"(\w{32})"/)?.[1];
+    if (clientId) return clientId;
+  }
+  return null;
+}
+
+export class SoundCloudPlaylistSource implements PlaylistSource {
+  readonly platform = 'soundcloud';
+
+  match(url: URL): boolean {
+    const hostname = url.hostname.toLowerCase();
+    return hostname === 'soundcloud.com' || hostname.endsWith('.soundcloud.com');
+  }
+
+  fetch(url: URL): Promise<string | null> {
+    return fetchPage(url.href);
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks: PlaylistTrackInfo[] = [];
+
+    // Pattern 1: JSON data in script tags
+    for (const item of readHydration(html)) {
+      for (const track of item.data?.tracks ?? []) {
+        if (track.title) tracks.push({ title: track.title, artist: track.user?.username });
+      }
+    }
+
+    // Pattern 2: Look for track titles in the page
+    if (tracks.length === 0) {
+      for (const match of html.matchAll(/"title":"([^"]+)","permalink_url"/g)) {
+        tracks.push({ title: match[1] });
+      }
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Look up the tracks the page only lists by ID, in batches
+   */
+  async *more(_url: URL, html: string): AsyncGenerator<PlaylistTrackInfo[]> {
+    const playlist = readHydration(html).find((item) => item.hydratable === 'playlist')?.data;
+    const ids = (playlist?.tracks ?? [])
+      .filter(track => !track.title && track.id)
+      .map(track => track.id as number);
+    if (ids.length === 0) return;
+
+    const clientId = await findClientId(html);
+    if (!clientId) return;
+
+    for (let i = 0; i < ids.length; i += TRACK_BATCH_SIZE) {
+      const batch = ids.slice(i, i + TRACK_BATCH_SIZE);
+      const found = await fetchJson<SoundCloudTrack[]>(
+        `https://api-v2.soundcloud.com/tracks?ids=${batch.join(',')}&client_id=${clientId}`
+      );
+      if (!found) return;
+
+      // Results don't keep the requested order
+      const byId = new Map(found.map(track => [track.id, track]));
+      yield batch
+        .map(id => byId.get(id))
+        .filter((track): track is SoundCloudTrack & { title: string } => !!track?.title)
+        .map(track => ({ title: track.title, artist: track.user?.username, durationMs: track.duration }));
+    }
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    const playlist = readHydration(html).find((item) => item.hydratable === 'playlist')?.data;
+    return mergeMetadata({
+      name: playlist?.title,
+      owner: playlist?.user?.username,
+      description: playlist?.description,
+      // Artwork URLs default to a thumbnail; ask for the larger size
+      imageUrl: playlist?.artwork_url?.replace('-large.', '-t500x500.'),
+      trackCount: playlist?.track_count,
+    }, pageMetadata(html));
+  }
+}
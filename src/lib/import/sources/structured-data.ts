@@ -0,0 +1,229 @@
+/**
+ * Structured data track extraction - JSON-LD, schema.org microdata and og:audio tags
+ * Many sites without a dedicated source (radio playlists, blogs, Bandcamp albums, Beatport charts)
+ * describe their tracks this way, so this is tried for any page.
+ */
+
+import { decodeXmlText } from '../../playlist-files';
+import { normalizeIsrc, toSpotifyTrackUri } from '../../track-identifiers';
+import type { PlaylistTrackInfo } from '../types';
+import { appendNewTracks, hasJsonLdType, jsonLdText, readJsonLd } from './html';
+
+/** Album details tracks inherit when they don't give their own */
+interface TrackContext {
+  artist?: string;
+  album?: string;
+}
+
+// Keys that hold a playlist's or album's tracks, directly or as an ItemList
+const JSON_LD_TRACK_KEYS = ['track', 'tracks', 'itemListElement', 'item', 'hasPart'];
+
+// Guards against deeply nested or self-referencing JSON-LD
+const MAX_JSON_LD_DEPTH = 8;
+
+// Opening tag of a schema.org MusicRecording microdata item
+const MICRODATA_RECORDING_PATTERN = /<[a-z][^>]*\bitemtype=["'](?:https?:)?\/\/schema\.org\/MusicRecording["'][^>]*>/gi;
+
+// How far past its opening tag the last microdata item on a page is read
+const MAX_MICRODATA_ITEM_LENGTH = 5000;
+
+// Microdata properties that hold a nested item whose `name` belongs to them, not the track
+const MICRODATA_NESTED_PROPS: Record<string, keyof TrackContext> = {
+  byArtist: 'artist',
+  author: 'artist',
+  inAlbum: 'album',
+};
+
+/**
+ * Parse a duration given as ISO 8601 (PT3M25S, or Bandcamp's P00H03M25S) or seconds
+ * @returns Duration in milliseconds, or undefined if unreadable
+ */
+export function parseIsoDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value > 0 ? Math.round(value * 1000) : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+
+  const match = value.trim().match(/^P(?:(\d+)D)?T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/i);
+  if (!match) return undefined;
+
+  const [, days, hours, minutes, seconds] = match.map(Number);
+  const ms = (((days || 0) * 24 + (hours || 0)) * 60 + (minutes || 0)) * 60 * 1000 + (seconds || 0) * 1000;
+  return ms > 0 ? Math.round(ms) : undefined;
+}
+
+/**
+ * Find a Spotify track link among a JSON-LD node's url/sameAs values
+ */
+function readSpotifyUri(node: Record<string, unknown>): string | undefined {
+  for (const value of ([] as unknown[]).concat(node.url, node.sameAs)) {
+    const uri = typeof value === 'string' ? toSpotifyTrackUri(value) : undefined;
+    if (uri) return uri;
+  }
+  return undefined;
+}
+
+/**
+ * Map a JSON-LD MusicRecording to a track
+ */
+function recordingToTrack(node: Record<string, unknown>, context: TrackContext): PlaylistTrackInfo | null {
+  const title = jsonLdText(node.name);
+  if (!title) return null;
+
+  return {
+    title,
+    artist: jsonLdText(node.byArtist ?? node.author ?? node.creator) ?? context.artist,
+    album: jsonLdText(node.inAlbum) ?? context.album,
+    durationMs: parseIsoDuration(node.duration),
+    isrc: typeof node.isrcCode === 'string' ? normalizeIsrc(node.isrcCode) : undefined,
+    spotifyUri: readSpotifyUri(node),
+  };
+}
+
+/**
+ * Collect the MusicRecordings in a JSON-LD value, descending into playlists, albums and item lists
+ */
+function collectJsonLdTracks(
+  value: unknown,
+  tracks: PlaylistTrackInfo[],
+  context: TrackContext = {},
+  depth = 0
+): void {
+  if (depth > MAX_JSON_LD_DEPTH) return;
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectJsonLdTracks(item, tracks, context, depth + 1));
+    return;
+  }
+  if (!value || typeof value !== 'object') return;
+
+  const node = value as Record<string, unknown>;
+  if (hasJsonLdType(node, ['MusicRecording'])) {
+    const track = recordingToTrack(node, context);
+    if (track) tracks.push(track);
+    return;
+  }
+
+  // Album tracks often leave out the artist and album they share
+  const nodeContext = hasJsonLdType(node, ['MusicAlbum'])
+    ? { artist: jsonLdText(node.byArtist) ?? context.artist, album: jsonLdText(node.name) }
+    : context;
+  for (const key of JSON_LD_TRACK_KEYS) {
+    collectJsonLdTracks(node[key], tracks, nodeContext, depth + 1);
+  }
+}
+
+/**
+ * Read the value of a property tag: its content/datetime attribute, or the text that follows it
+ */
+function readTagValue(tag: string, after: string): string | undefined {
+  const attribute = tag.match(/\b(?:content|datetime)=(?:"([^"]*)"|'([^']*)')/i);
+  const textEnd = after.indexOf('<');
+  const raw = attribute
+    ? attribute[1] ?? attribute[2]
+    : textEnd === -1 ? after : after.slice(0, textEnd);
+  const value = decodeXmlText(raw.replace(/\s+/g, ' ').trim());
+  return value || undefined;
+}
+
+/**
+ * Read one microdata MusicRecording from the markup following its opening tag
+ */
+function readMicrodataRecording(fragment: string): PlaylistTrackInfo | null {
+  const track: Partial<PlaylistTrackInfo> = {};
+  let nested: keyof TrackContext | null = null;
+
+  for (const match of fragment.matchAll(/<[a-z][^>]*\bitemprop=["']([^"']+)["'][^>]*>/gi)) {
+    const [tag, props] = match;
+    const after = fragment.slice((match.index ?? 0) + tag.length);
+    const value = readTagValue(tag, after);
+
+    for (const prop of props.split(/\s+/)) {
+      const field = MICRODATA_NESTED_PROPS[prop];
+      if (field) {
+        // A nested item names itself with a later `name` property
+        if (/\bitemscope\b/i.test(tag) && !/\bcontent=/i.test(tag)) {
+          nested = field;
+        } else {
+          track[field] ??= value;
+        }
+      } else if (prop === 'name' && value) {
+        if (nested) {
+          track[nested] ??= value;
+          nested = null;
+        } else {
+          track.title ??= value;
+        }
+      } else if (prop === 'duration') {
+        track.durationMs ??= parseIsoDuration(value);
+      } else if (prop === 'isrcCode' && value) {
+        track.isrc ??= normalizeIsrc(value);
+      } else if ((prop === 'url' || prop === 'sameAs') && !track.spotifyUri) {
+        const href = tag.match(/\bhref=["']([^"']+)["']/i)?.[1] ?? value;
+        track.spotifyUri = href ? toSpotifyTrackUri(href) : undefined;
+      }
+    }
+  }
+
+  return track.title ? { ...track, title: track.title } : null;
+}
+
+/**
+ * Collect the schema.org MusicRecording microdata items on a page
+ */
+function collectMicrodataTracks(html: string, tracks: PlaylistTrackInfo[]): void {
+  const starts = [...html.matchAll(MICRODATA_RECORDING_PATTERN)].map((match) => match.index ?? 0);
+  starts.forEach((start, i) => {
+    // Each item runs until the next one starts
+    const fragment = html.slice(start, starts[i + 1] ?? start + MAX_MICRODATA_ITEM_LENGTH);
+    // Skip past the item's own opening tag so its itemprop (e.g. "track") isn't read as a property
+    const track = readMicrodataRecording(fragment.slice(fragment.indexOf('>') + 1));
+    if (track) tracks.push(track);
+  });
+}
+
+/**
+ * Collect tracks described by Open Graph og:audio tags (each og:audio starts a new track)
+ */
+function collectOpenGraphAudioTracks(html: string, tracks: PlaylistTrackInfo[]): void {
+  let current: Partial<PlaylistTrackInfo> | null = null;
+  const flush = (): void => {
+    if (current?.title) tracks.push({ ...current, title: current.title });
+  };
+
+  for (const [tag] of html.matchAll(/<meta[^>]+(?:property|name)=["']og:audio(?::[a-z_]+)?["'][^>]*>/gi)) {
+    const property = tag.match(/(?:property|name)=["']og:audio(?::([a-z_]+))?["']/i)?.[1]?.toLowerCase();
+    const content = readTagValue(tag, '');
+
+    if (!property || property === 'url') {
+      flush();
+      current = {};
+    } else if (content && (property === 'title' || property === 'artist' || property === 'album')) {
+      current ??= {};
+      current[property] ??= content;
+    }
+  }
+  flush();
+}
+
+/**
+ * Extract tracks from a page's JSON-LD, microdata and og:audio tags
+ * Tracks described in more than one format (e.g. both JSON-LD and microdata) are listed once.
+ */
+export function extractStructuredTracks(html: string): PlaylistTrackInfo[] {
+  const jsonLdTracks: PlaylistTrackInfo[] = [];
+  for (const node of readJsonLd(html)) {
+    collectJsonLdTracks(node, jsonLdTracks);
+  }
+  const microdataTracks: PlaylistTrackInfo[] = [];
+  collectMicrodataTracks(html, microdataTracks);
+  const openGraphTracks: PlaylistTrackInfo[] = [];
+  collectOpenGraphAudioTracks(html, openGraphTracks);
+
+  const tracks: PlaylistTrackInfo[] = [];
+  const seen = new Set<string>();
+  for (const formatTracks of [jsonLdTracks, microdataTracks, openGraphTracks]) {
+    appendNewTracks(tracks, formatTracks, seen);
+  }
+  return tracks;
+}
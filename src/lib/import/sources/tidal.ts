@@ -0,0 +1,68 @@
+/**
+ * Tidal playlist source
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { fetchPage, mergeMetadata, pageMetadata } from './html';
+
+/** The parts of Tidal's embedded playlist data we read */
+interface TidalPlaylistData {
+  title?: string;
+  description?: string;
+  creator?: { name?: string };
+  items?: { item?: { title?: string; artists?: { name?: string }[] } }[];
+}
+
+/**
+ * Read the playlist from the Next.js page data Tidal embeds
+ */
+function readNextDataPlaylist(html: string): TidalPlaylistData | null {
+  const match = html.match(/<script[^>]*id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]).props?.pageProps?.playlist ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export class TidalPlaylistSource implements PlaylistSource {
+  readonly platform = 'tidal';
+
+  match(url: URL): boolean {
+    const hostname = url.hostname.toLowerCase();
+    return hostname === 'tidal.com' || hostname.endsWith('.tidal.com');
+  }
+
+  fetch(url: URL): Promise<string | null> {
+    return fetchPage(url.href);
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks: PlaylistTrackInfo[] = [];
+
+    // Pattern 1: NEXT_DATA JSON
+    for (const { item } of readNextDataPlaylist(html)?.items || []) {
+      if (item?.title) tracks.push({ title: item.title, artist: item.artists?.[0]?.name });
+    }
+
+    // Pattern 2: Look for track data in page
+    if (tracks.length === 0) {
+      for (const match of html.matchAll(/"title"\s*:\s*"([^"]+)"\s*,\s*"artists"/gi)) {
+        tracks.push({ title: match[1] });
+      }
+    }
+
+    return tracks;
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    const playlist = readNextDataPlaylist(html);
+    return mergeMetadata({
+      name: playlist?.title,
+      owner: playlist?.creator?.name,
+      description: playlist?.description,
+    }, pageMetadata(html));
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Playlist source types
+ */
+
+import type { PlaylistDetails, PlaylistTrackInfo } from '../types';
+
+/** Playlist details read from a source page */
+export interface PlaylistSourceMetadata extends PlaylistDetails {
+  name?: string;
+  /** Number of tracks the page says the playlist has, used to report how many a limit left out */
+  trackCount?: number;
+}
+
+/**
+ * Reads playlists from one platform's pages
+ * Fetching is kept apart from extraction so extractors can run against saved pages.
+ */
+export interface PlaylistSource {
+  /** Platform identifier */
+  readonly platform: string;
+  /** Check if this source handles the given playlist URL */
+  match(url: URL): boolean;
+  /** Fetch the page to extract from, or null if it couldn't be loaded */
+  fetch(url: URL): Promise<string | null>;
+  /** Pull source tracks out of a fetched page */
+  extract(html: string): PlaylistTrackInfo[];
+  /**
+   * Fetch the tracks a page doesn't include (continuations, paginated APIs), a batch at a time
+   * Only iterated as far as the import's track limit needs.
+   */
+  more?(url: URL, html: string): AsyncGenerator<PlaylistTrackInfo[]>;
+  /** Pull playlist details out of a fetched page */
+  metadata(html: string): PlaylistSourceMetadata;
+}
+
+/** Tracks and details scraped from a playlist page */
+export interface ScrapedPlaylist {
+  tracks: PlaylistTrackInfo[];
+  metadata: PlaylistSourceMetadata;
+  /** Tracks left out by the track limit */
+  truncated: number;
+}
@@ -0,0 +1,132 @@
+/**
+ * YouTube and YouTube Music playlist source
+ */
+
+import type { PlaylistTrackInfo } from '../types';
+import type { PlaylistSource, PlaylistSourceMetadata } from './types';
+import { decodeJsonString, fetchPage, mergeMetadata, pageMetadata } from './html';
+
+/** Client settings the page's ytcfg passes to the innertube API */
+interface InnertubeConfig {
+  apiKey: string;
+  clientName: string;
+  clientVersion: string;
+}
+
+/**
+ * Read the innertube client settings from a playlist page
+ */
+function readInnertubeConfig(html: string): InnertubeConfig | null {
+  const apiKey = html.match(/"INNERTUBE_API_KEY":\s*"([^"]+)"/)?.[1];
+  const clientName = html.match(/"INNERTUBE_CLIENT_NAME":\s*"([^"]+)"/)?.[1];
+  const clientVersion = html.match(/"INNERTUBE_CLIENT_VERSION":\s*"([^"]+)"/)?.[1];
+  return apiKey && clientName && clientVersion ? { apiKey, clientName, clientVersion } : null;
+}
+
+/**
+ * Read the token for the next batch of playlist entries from a page or continuation response
+ */
+function readContinuationToken(text: string): string | undefined {
+  return text.match(/"continuationCommand":\s*{\s*"token":\s*"([^"]+)"/)?.[1];
+}
+
+export class YouTubePlaylistSource implements PlaylistSource {
+  readonly platform = 'youtube';
+
+  match(url: URL): boolean {
+    const hostname = url.hostname.toLowerCase();
+    return hostname === 'youtube.com' || hostname.endsWith('.youtube.com');
+  }
+
+  async fetch(url: URL): Promise<string | null> {
+    const playlistId = url.searchParams.get('list');
+    if (!playlistId) return null;
+
+    // Try YouTube Music first if it's a YTM playlist, otherwise try regular YouTube
+    // YTM playlists (especially auto-generated ones starting with RDCLAK) may not work on regular YouTube
+    const pages = [
+      `https://www.youtube.com/playlist?list=${playlistId}`,
+      `https://music.youtube.com/playlist?list=${playlistId}`,
+    ];
+    if (url.hostname.toLowerCase() === 'music.youtube.com') {
+      pages.reverse();
+    }
+
+    for (const page of pages) {
+      try {
+        const html = await fetchPage(page);
+        // If we found tracks, no need to try the other URL
+        if (html && this.extract(html).length > 0) return html;
+      } catch {
+        // Try next URL
+      }
+    }
+    return null;
+  }
+
+  extract(html: string): PlaylistTrackInfo[] {
+    const tracks: PlaylistTrackInfo[] = [];
+
+    // Both YouTube and YouTube Music embed info in JSON within the page
+    const titleMatches = html.matchAll(/"title":\s*{\s*"runs":\s*\[\s*{\s*"text":\s*"([^"]+)"/g);
+
+    for (const match of titleMatches) {
+      const title = match[1];
+      // Skip common non-music entries and UI elements
+      if (!title ||
+          title.includes('[Deleted video]') ||
+          title.includes('[Private video]') ||
+          title.includes('Playlist') ||
+          title.length <= 1) {
+        continue;
+      }
+
+      const cleanTitle = title
+        .replace(/\s*\(Official\s*(Video|Audio|Music Video|Lyric Video)\)\s*/gi, '')
+        .replace(/\s*\[Official\s*(Video|Audio|Music Video|Lyric Video)\]\s*/gi, '')
+        .replace(/\s*\|\s*Official\s*(Video|Audio)\s*/gi, '')
+        .trim();
+
+      if (cleanTitle) tracks.push({ title: cleanTitle });
+    }
+
+    return tracks;
+  }
+
+  /**
+   * Follow the playlist's continuation tokens - pages only embed the first 100 entries
+   */
+  async *more(_url: URL, html: string): AsyncGenerator<PlaylistTrackInfo[]> {
+    const config = readInnertubeConfig(html);
+    if (!config) return;
+
+    // YouTube Music pages talk to their own host
+    const host = config.clientName === 'WEB_REMIX' ? 'music.youtube.com' : 'www.youtube.com';
+    let token = readContinuationToken(html);
+    while (token) {
+      const response = await fetchPage(`https://${host}/youtubei/v1/browse?key=${config.apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          context: { client: { clientName: config.clientName, clientVersion: config.clientVersion } },
+          continuation: token,
+        }),
+      });
+      if (!response) return;
+
+      yield this.extract(response);
+      const next = readContinuationToken(response);
+      token = next !== token ? next : undefined;
+    }
+  }
+
+  metadata(html: string): PlaylistSourceMetadata {
+    // Channel name on YouTube, curator line on YouTube Music
+    const owner = html.match(/"(?:ownerText|straplineTextOne)":\s*{\s*"runs":\s*\[\s*{\s*"text":\s*"((?:[^"\\]|\\.)+)"/)?.[1];
+    const videoCount = html.match(/"numVideosText":\s*{\s*"runs":\s*\[\s*{\s*"text":\s*"([\d,.\s]+)"/)?.[1];
+    return mergeMetadata({
+      owner: owner && decodeJsonString(owner),
+      trackCount: videoCount ? Number(videoCount.replace(/\D/g, '')) : undefined,
+    }, pageMetadata(html));
+  }
+}
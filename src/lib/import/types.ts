@@ -0,0 +1,115 @@
+/**
+ * Playlist import types
+ */
+
+import type { SpotifyTrack } from '../spotify';
+import type { MatchCandidate } from '../matching';
+import type { CsvColumn } from '../csv';
+
+/** A track as extracted from the source playlist, before matching */
+export interface PlaylistTrackInfo {
+  title: string;
+  artist?: string;
+  album?: string;
+  /** Track length, when the source provides it */
+  durationMs?: number;
+  /** International Standard Recording Code, when the source provides it */
+  isrc?: string;
+  /** Spotify track URI, when the source provides it - looked up directly instead of searched */
+  spotifyUri?: string;
+}
+
+/** Details of the source playlist beyond its name, when the source provides them */
+export interface PlaylistDetails {
+  /** Owner or curator */
+  owner?: string;
+  description?: string;
+  /** Cover image URL */
+  imageUrl?: string;
+}
+
+/** Options chosen by the user when starting an import */
+export interface ImportOptions {
+  /** For listening-history exports, only import tracks played at least this many times */
+  minPlays?: number;
+  /** For CSV track lists with ambiguous headers, the field each column holds */
+  columns?: CsvColumn[];
+}
+
+/** A ranked alternative Spotify match */
+export type MatchAlternative = MatchCandidate;
+
+/** A source track and its Spotify match (if any) */
+export interface ImportedTrack {
+  originalTitle: string;
+  originalArtist?: string;
+  spotifyTrack: (SpotifyTrack & { isLiked: boolean }) | null;
+  /** 'uncertain' matches scored below MATCHING.REVIEW_BELOW and should be reviewed */
+  status: 'found' | 'uncertain' | 'not_found';
+  /** How closely the match agrees with the source track (0-1) */
+  confidence: number;
+  /** Other plausible matches, best first */
+  alternatives?: MatchAlternative[];
+}
+
+/** Match counts for an import */
+export interface ImportSummary {
+  total: number;
+  found: number;
+  uncertain: number;
+  notFound: number;
+}
+
+/** Final result of a playlist import */
+export interface PlaylistImportResult {
+  platform: string;
+  playlistName: string;
+  details: PlaylistDetails;
+  /** Source tracks left out because the playlist was longer than the import's track limit */
+  truncated: number;
+  tracks: ImportedTrack[];
+  summary: ImportSummary;
+}
+
+/**
+ * Progress events emitted while an import runs
+ * Sent to clients as Server-Sent Events named after `type`
+ */
+export type ImportEvent =
+  | { type: 'fetching'; platform: string }
+  | {
+      type: 'extracted';
+      platform: string;
+      playlistName: string;
+      details: PlaylistDetails;
+      total: number;
+      /** Source tracks left out by the track limit */
+      truncated: number;
+    }
+  | {
+      type: 'matched';
+      /** Position of the track in the source playlist */
+      index: number;
+      /** Number of tracks matched so far */
+      completed: number;
+      total: number;
+      track: ImportedTrack;
+    }
+  | ({ type: 'done' } & Omit<PlaylistImportResult, 'tracks'>);
+
+/**
+ * Error raised for imports that can't proceed (bad input, nothing extracted)
+ */
+export class ImportError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = 'ImportError';
+  }
+
+  static isImportError(error: unknown): error is ImportError {
+    return error instanceof ImportError;
+  }
+}
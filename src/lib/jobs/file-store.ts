@@ -0,0 +1,162 @@
+/**
+ * File-backed import job store
+ * Keeps jobs in memory and persists each one to its own JSON file in a directory, so saving
+ * a batch only rewrites that job and imports resume after a restart.
+ * Session IDs are bearer credentials, so they're encrypted at rest like refresh tokens.
+ * Suitable for single-instance self-hosted deployments.
+ */
+
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { decryptSecret, encryptSecret } from '../session';
+import {
+  byNewest,
+  byOldest,
+  isJobActive,
+  isJobExpired,
+  type ImportJob,
+  type ImportJobStore,
+} from './store';
+
+/** A job as written to disk */
+type StoredImportJob = Omit<ImportJob, 'sessionId'> & { encryptedSessionId: string };
+
+export class FileImportJobStore implements ImportJobStore {
+  private jobs: Map<string, ImportJob> | null = null;
+  private loading: Promise<Map<string, ImportJob>> | null = null;
+  // Pending writes per job, so writes to one file never overlap
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly directory: string) {}
+
+  async get(id: string): Promise<ImportJob | null> {
+    const jobs = await this.load();
+    const job = jobs.get(id);
+    if (!job) return null;
+    if (isJobExpired(job)) {
+      jobs.delete(id);
+      await this.remove(id);
+      return null;
+    }
+    return { ...job };
+  }
+
+  async set(job: ImportJob): Promise<void> {
+    const jobs = await this.load();
+    jobs.set(job.id, { ...job });
+    await this.persist(job);
+  }
+
+  async delete(id: string): Promise<void> {
+    const jobs = await this.load();
+    if (jobs.delete(id)) {
+      await this.remove(id);
+    }
+  }
+
+  async listByUser(userId: string): Promise<ImportJob[]> {
+    const jobs = await this.load();
+    const now = Date.now();
+    return [...jobs.values()]
+      .filter(job => job.userId === userId && !isJobExpired(job, now))
+      .sort(byNewest)
+      .map(job => ({ ...job }));
+  }
+
+  async listActive(): Promise<ImportJob[]> {
+    const jobs = await this.load();
+    return [...jobs.values()]
+      .filter(isJobActive)
+      .sort(byOldest)
+      .map(job => ({ ...job }));
+  }
+
+  private jobPath(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+
+  /**
+   * Load jobs from disk once, removing expired records and ones that can no longer be decrypted
+   */
+  private async load(): Promise<Map<string, ImportJob>> {
+    if (this.jobs) return this.jobs;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const jobs = new Map<string, ImportJob>();
+        let files: string[] = [];
+        try {
+          files = (await readdir(this.directory)).filter(file => file.endsWith('.json'));
+        } catch {
+          // Missing directory - start with an empty store
+        }
+
+        const now = Date.now();
+        for (const file of files) {
+          const id = file.slice(0, -'.json'.length);
+          try {
+            const { encryptedSessionId, ...record } = JSON.parse(
+              await readFile(join(this.directory, file), 'utf8')
+            ) as StoredImportJob;
+            const job: ImportJob = { ...record, sessionId: decryptSecret(encryptedSessionId) };
+            if (!isJobExpired(job, now)) {
+              jobs.set(job.id, job);
+              continue;
+            }
+          } catch {
+            // Unreadable, or encrypted with a different SESSION_SECRET - the job can't run
+          }
+          await this.remove(id);
+        }
+
+        this.jobs = jobs;
+        return jobs;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Queue a write to one job's file, after any pending write to the same file
+   */
+  private enqueue(id: string, write: () => Promise<void>): Promise<void> {
+    const queued = (this.writes.get(id) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(write);
+    this.writes.set(id, queued);
+    queued.finally(() => {
+      if (this.writes.get(id) === queued) this.writes.delete(id);
+    }).catch(() => undefined);
+    return queued;
+  }
+
+  /**
+   * Write a job to disk through a temp file so a crash never leaves a partial file
+   */
+  private persist(job: ImportJob): Promise<void> {
+    const { sessionId, ...record } = job;
+    const stored: StoredImportJob = { ...record, encryptedSessionId: encryptSecret(sessionId) };
+    const filePath = this.jobPath(job.id);
+
+    return this.enqueue(job.id, async () => {
+      const tempPath = `${filePath}.tmp`;
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(tempPath, JSON.stringify(stored), { encoding: 'utf8', mode: 0o600 });
+      await rename(tempPath, filePath);
+    });
+  }
+
+  /**
+   * Delete a job's file
+   */
+  private remove(id: string): Promise<void> {
+    return this.enqueue(id, async () => {
+      try {
+        await unlink(this.jobPath(id));
+      } catch {
+        // Already gone
+      }
+    });
+  }
+}
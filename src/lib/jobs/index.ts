@@ -0,0 +1,8 @@
+/**
+ * Import job utilities - re-exports all job-related modules
+ */
+
+export * from './store';
+export * from './file-store';
+export * from './worker';
+export * from './manager';
@@ -0,0 +1,199 @@
+/**
+ * Import job lifecycle helpers
+ * Creates, lists and cancels jobs backed by the configured ImportJobStore
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ImportError, resolveImportSource, type ImportedTrack, type ImportOptions, type PlaylistDetails } from '../import';
+import { IMPORT } from '../constants';
+import { FileImportJobStore } from './file-store';
+import { MemoryImportJobStore, isJobActive, type ImportJob, type ImportJobStatus, type ImportJobStore } from './store';
+import { isSessionStorePersistent } from '../session';
+import { startImportWorker } from './worker';
+
+/** Job details safe to return to the client */
+export interface ImportJobView {
+  id: string;
+  status: ImportJobStatus;
+  platform: string;
+  playlistName: string;
+  playlistDetails: PlaylistDetails;
+  /** Source tracks left out by the job's track limit */
+  truncated: number;
+  progress: {
+    /** Tracks matched so far */
+    processed: number;
+    /** Tracks extracted from the source (0 until extraction has run) */
+    total: number;
+  };
+  summary: ImportJob['summary'];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  /** Per-track results starting at `offset` (only included when requested) */
+  tracks?: ImportedTrack[];
+  offset?: number;
+}
+
+let importJobStore: ImportJobStore | null = null;
+
+/**
+ * Create the store configured by IMPORT_JOB_STORE ('file' or 'memory')
+ * Resumed jobs need the session they were started with, so the file store is only
+ * the default when sessions also survive restarts.
+ * @throws Error if the file store is requested while sessions are kept in memory
+ */
+function createDefaultStore(): ImportJobStore {
+  const persistentSessions = isSessionStorePersistent();
+  const kind = import.meta.env.IMPORT_JOB_STORE || (persistentSessions ? 'file' : 'memory');
+
+  if (kind !== 'file') {
+    return new MemoryImportJobStore();
+  }
+  if (!persistentSessions) {
+    throw new Error('IMPORT_JOB_STORE=file needs a persistent session store (SESSION_STORE=file) so jobs can resume');
+  }
+  return new FileImportJobStore(import.meta.env.IMPORT_JOB_STORE_PATH || IMPORT.DEFAULT_JOB_DIRECTORY);
+}
+
+/**
+ * Get the active import job store, creating the configured default on first use
+ */
+export function getImportJobStore(): ImportJobStore {
+  if (!importJobStore) {
+    importJobStore = createDefaultStore();
+  }
+  return importJobStore;
+}
+
+/**
+ * Start processing import jobs, resuming any persisted before a restart
+ * Called once at server startup (see src/lib/jobs/startup.ts).
+ */
+export function startImportJobs(): void {
+  startImportWorker(getImportJobStore());
+}
+
+/**
+ * Replace the active import job store
+ * @param store - The store to use for all subsequent job operations
+ */
+export function setImportJobStore(store: ImportJobStore): void {
+  importJobStore = store;
+  startImportWorker(store);
+}
+
+/**
+ * Queue a new import job
+ * @param input - Playlist URL or plain text track list
+ * @param userId - Spotify user ID that owns the job
+ * @param sessionId - Session the worker uses for Spotify tokens
+ * @param options - Import options, kept with the job so a resumed job reads its input the same way
+ * @throws ImportError if the input is invalid or the user has too many active jobs
+ */
+export async function createImportJob(
+  input: string,
+  userId: string,
+  sessionId: string,
+  options: ImportOptions = {}
+): Promise<ImportJob> {
+  const source = resolveImportSource(input, options);
+  const store = getImportJobStore();
+
+  const activeJobs = (await store.listByUser(userId)).filter(isJobActive);
+  if (activeJobs.length >= IMPORT.MAX_ACTIVE_JOBS_PER_USER) {
+    throw new ImportError(
+      `You already have ${activeJobs.length} imports running. Wait for one to finish or cancel it.`,
+      429
+    );
+  }
+
+  const now = Date.now();
+  const job: ImportJob = {
+    id: randomUUID(),
+    userId,
+    sessionId,
+    status: 'queued',
+    input,
+    options,
+    platform: source.platform,
+    playlistName: '',
+    sourceTracks: null,
+    results: [],
+    summary: { total: 0, found: 0, uncertain: 0, notFound: 0 },
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.set(job);
+  startImportWorker(store);
+  return job;
+}
+
+/**
+ * Get one of a user's jobs
+ * @returns The job, or null if it doesn't exist or belongs to someone else
+ */
+export async function getImportJob(id: string, userId: string): Promise<ImportJob | null> {
+  const job = await getImportJobStore().get(id);
+  return job && job.userId === userId ? job : null;
+}
+
+/**
+ * List a user's jobs, newest first
+ */
+export function listImportJobs(userId: string): Promise<ImportJob[]> {
+  return getImportJobStore().listByUser(userId);
+}
+
+/**
+ * Cancel one of a user's queued or running jobs
+ * Results matched so far are kept.
+ * @returns The updated job, or null if it doesn't exist or belongs to someone else
+ */
+export async function cancelImportJob(id: string, userId: string): Promise<ImportJob | null> {
+  const store = getImportJobStore();
+  const job = await getImportJob(id, userId);
+  if (!job || !isJobActive(job)) return job;
+
+  const now = Date.now();
+  const cancelled: ImportJob = { ...job, status: 'cancelled', updatedAt: now, finishedAt: now, retryAt: undefined };
+  await store.set(cancelled);
+  return cancelled;
+}
+
+/**
+ * Convert a job to its client representation
+ * @param job - The job
+ * @param tracks - Optional window of per-track results to include
+ */
+export function toImportJobView(
+  job: ImportJob,
+  tracks?: { offset: number; limit: number }
+): ImportJobView {
+  const view: ImportJobView = {
+    id: job.id,
+    status: job.status,
+    platform: job.platform,
+    playlistName: job.playlistName,
+    playlistDetails: job.playlistDetails ?? {},
+    truncated: job.truncated ?? 0,
+    progress: {
+      processed: job.results.length,
+      total: job.sourceTracks?.length ?? 0,
+    },
+    summary: job.summary,
+    error: job.error,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString(),
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+  };
+
+  if (tracks) {
+    view.offset = tracks.offset;
+    view.tracks = job.results.slice(tracks.offset, tracks.offset + tracks.limit);
+  }
+
+  return view;
+}
@@ -0,0 +1,13 @@
+/**
+ * Background import startup
+ * Loaded once when the server starts (see src/integrations/import-worker.ts),
+ * so jobs persisted before a restart resume without waiting for a request.
+ */
+
+import { startImportJobs } from './manager';
+
+try {
+  startImportJobs();
+} catch (error) {
+  console.error('[import-jobs] Worker not started:', error instanceof Error ? error.message : error);
+}
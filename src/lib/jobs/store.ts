@@ -0,0 +1,149 @@
+/**
+ * Import job storage abstraction
+ * Jobs hold everything needed to resume after a restart: the original input,
+ * the extracted source tracks and the results matched so far.
+ */
+
+import { IMPORT } from '../constants';
+import type { ImportedTrack, ImportOptions, ImportSummary, PlaylistDetails, PlaylistTrackInfo } from '../import';
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ImportJob {
+  /** Random job ID */
+  id: string;
+  /** Spotify user ID that owns this job */
+  userId: string;
+  /** Session the worker uses to get Spotify tokens */
+  sessionId: string;
+  status: ImportJobStatus;
+  /** Original input (playlist URL or pasted track list) */
+  input: string;
+  /** Options the import was started with */
+  options?: ImportOptions;
+  platform: string;
+  playlistName: string;
+  /** Owner, description and cover image of the source playlist, once extracted */
+  playlistDetails?: PlaylistDetails;
+  /** Source tracks left out by the job's track limit */
+  truncated?: number;
+  /** Extracted source tracks, or null until extraction has run */
+  sourceTracks: PlaylistTrackInfo[] | null;
+  /** Matched results, index-aligned with sourceTracks (length is the resume cursor) */
+  results: ImportedTrack[];
+  summary: ImportSummary;
+  /** Why the job failed */
+  error?: string;
+  /** Don't process again before this time (epoch ms) - set when Spotify throttles us */
+  retryAt?: number;
+  /** When the job was created (epoch ms) */
+  createdAt: number;
+  /** When the job last changed (epoch ms) */
+  updatedAt: number;
+  /** When the job reached a final status (epoch ms) */
+  finishedAt?: number;
+}
+
+/**
+ * Pluggable persistence for import jobs
+ * Implementations must treat expired jobs as missing.
+ */
+export interface ImportJobStore {
+  /** Get a job by ID, or null if missing/expired */
+  get(id: string): Promise<ImportJob | null>;
+  /** Create or replace a job */
+  set(job: ImportJob): Promise<void>;
+  /** Delete a job by ID */
+  delete(id: string): Promise<void>;
+  /** List a user's jobs, newest first */
+  listByUser(userId: string): Promise<ImportJob[]>;
+  /** List queued and running jobs, oldest first */
+  listActive(): Promise<ImportJob[]>;
+}
+
+/**
+ * Check whether a job still has work to do
+ */
+export function isJobActive(job: ImportJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Check whether a finished job is past its retention period
+ */
+export function isJobExpired(job: ImportJob, now = Date.now()): boolean {
+  return job.finishedAt !== undefined && now > job.finishedAt + IMPORT.JOB_RETENTION_MS;
+}
+
+/**
+ * Sort jobs newest first
+ */
+export function byNewest(a: ImportJob, b: ImportJob): number {
+  return b.createdAt - a.createdAt;
+}
+
+/**
+ * Sort jobs oldest first
+ */
+export function byOldest(a: ImportJob, b: ImportJob): number {
+  return a.createdAt - b.createdAt;
+}
+
+/**
+ * In-memory import job store
+ * Note: jobs are lost on restart - use FileImportJobStore to resume them
+ */
+export class MemoryImportJobStore implements ImportJobStore {
+  private jobs = new Map<string, ImportJob>();
+
+  constructor() {
+    // Clean up expired jobs periodically
+    if (typeof setInterval !== 'undefined') {
+      const timer = setInterval(() => this.purgeExpired(), IMPORT.JOB_CLEANUP_INTERVAL_MS);
+      // Don't keep the process alive just for cleanup
+      (timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  async get(id: string): Promise<ImportJob | null> {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    if (isJobExpired(job)) {
+      this.jobs.delete(id);
+      return null;
+    }
+    return { ...job };
+  }
+
+  async set(job: ImportJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.jobs.delete(id);
+  }
+
+  async listByUser(userId: string): Promise<ImportJob[]> {
+    const now = Date.now();
+    return [...this.jobs.values()]
+      .filter(job => job.userId === userId && !isJobExpired(job, now))
+      .sort(byNewest)
+      .map(job => ({ ...job }));
+  }
+
+  async listActive(): Promise<ImportJob[]> {
+    return [...this.jobs.values()]
+      .filter(isJobActive)
+      .sort(byOldest)
+      .map(job => ({ ...job }));
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [id, job] of this.jobs.entries()) {
+      if (isJobExpired(job, now)) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
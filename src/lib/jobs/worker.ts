@@ -0,0 +1,227 @@
+/**
+ * Background import worker
+ * Processes active jobs one batch at a time (round-robin across jobs), persisting
+ * progress after every batch so a restart resumes where it left off.
+ */
+
+import { SpotifyApiError } from '../spotify';
+import { getSessionAccessToken } from '../api/auth-middleware';
+import {
+  extractImportTracks,
+  getJobTrackLimit,
+  notFoundTrack,
+  resolveImportSource,
+  resolveSpotifyUris,
+  searchTrackMatch,
+  type ImportedTrack,
+} from '../import';
+import { IMPORT } from '../constants';
+import { isJobActive, type ImportJob, type ImportJobStatus, type ImportJobStore } from './store';
+
+let workerRunning = false;
+// Set when a job is queued while the worker is deciding whether to stop
+let wakeRequested = false;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Count match results for a job
+ */
+function summarize(job: Pick<ImportJob, 'sourceTracks' | 'results'>): ImportJob['summary'] {
+  const found = job.results.filter(track => track.status === 'found').length;
+  const uncertain = job.results.filter(track => track.status === 'uncertain').length;
+  return {
+    total: job.sourceTracks?.length ?? 0,
+    found,
+    uncertain,
+    notFound: job.results.length - found - uncertain,
+  };
+}
+
+/**
+ * Save changes to a job unless it was cancelled or removed while we were working on it
+ */
+async function saveJob(
+  store: ImportJobStore,
+  job: ImportJob,
+  changes: Partial<ImportJob>
+): Promise<void> {
+  const latest = await store.get(job.id);
+  if (!latest || !isJobActive(latest)) return;
+
+  const updated: ImportJob = { ...latest, ...changes, updatedAt: Date.now() };
+  updated.summary = summarize(updated);
+  await store.set(updated);
+}
+
+/**
+ * Move a job to a final status
+ */
+function finishJob(
+  store: ImportJobStore,
+  job: ImportJob,
+  status: Exclude<ImportJobStatus, 'queued' | 'running'>,
+  error?: string
+): Promise<void> {
+  return saveJob(store, job, { status, error, retryAt: undefined, finishedAt: Date.now() });
+}
+
+/**
+ * Check whether an error means "try again later" rather than "this track failed"
+ */
+function isTransientError(error: unknown): error is SpotifyApiError {
+  return SpotifyApiError.isSpotifyApiError(error) && (error.isRetryable || error.status === 401);
+}
+
+/**
+ * Extract the job's source tracks
+ */
+async function extractStep(store: ImportJobStore, job: ImportJob, token: string): Promise<void> {
+  const source = resolveImportSource(job.input, job.options);
+  const { playlistName, details, truncated, tracks, resolved } = await extractImportTracks(source, token, getJobTrackLimit());
+
+  if (resolved) {
+    // Spotify playlists are already matched
+    await saveJob(store, job, {
+      status: 'completed',
+      playlistName,
+      playlistDetails: details,
+      truncated,
+      sourceTracks: resolved.map(track => ({ title: track.originalTitle, artist: track.originalArtist })),
+      results: resolved,
+      finishedAt: Date.now(),
+    });
+    return;
+  }
+
+  await saveJob(store, job, {
+    status: 'running',
+    playlistName,
+    playlistDetails: details,
+    truncated,
+    sourceTracks: tracks,
+    results: [],
+  });
+}
+
+/**
+ * Match the next batch of source tracks
+ * Results are only committed up to the first transient failure, so the batch resumes cleanly
+ */
+async function matchStep(store: ImportJobStore, job: ImportJob, token: string): Promise<void> {
+  const sourceTracks = job.sourceTracks ?? [];
+  const batch = sourceTracks.slice(job.results.length, job.results.length + IMPORT.JOB_BATCH_SIZE);
+
+  // Tracks with a Spotify URI need no search; transient lookup failures retry the whole batch
+  let resolved: (ImportedTrack | null)[];
+  try {
+    resolved = await resolveSpotifyUris(batch, token);
+  } catch (error) {
+    if (isTransientError(error)) throw error;
+    resolved = batch.map(() => null);
+  }
+
+  const settled = await Promise.allSettled(
+    batch.map((info, i) => resolved[i] ?? searchTrackMatch(info, token))
+  );
+
+  const matched: ImportedTrack[] = [];
+  let transientError: SpotifyApiError | null = null;
+
+  for (const [i, outcome] of settled.entries()) {
+    if (outcome.status === 'fulfilled') {
+      matched.push(outcome.value);
+    } else if (isTransientError(outcome.reason)) {
+      transientError = outcome.reason;
+      break;
+    } else {
+      matched.push(notFoundTrack(batch[i]));
+    }
+  }
+
+  const results = [...job.results, ...matched];
+  await saveJob(store, job, { status: 'running', results, retryAt: undefined });
+
+  if (transientError) {
+    throw transientError;
+  }
+
+  if (results.length >= sourceTracks.length) {
+    await finishJob(store, job, 'completed');
+  }
+}
+
+/**
+ * Run one unit of work for a job: extraction, or one batch of matches
+ */
+async function processJobStep(store: ImportJobStore, job: ImportJob): Promise<void> {
+  const token = await getSessionAccessToken(job.sessionId);
+  if (!token) {
+    await finishJob(store, job, 'failed', 'Session expired. Log in again and restart the import.');
+    return;
+  }
+
+  try {
+    if (job.sourceTracks === null) {
+      await extractStep(store, job, token);
+    } else {
+      await matchStep(store, job, token);
+    }
+  } catch (error) {
+    if (SpotifyApiError.isSpotifyApiError(error) && error.status === 401) {
+      // The Spotify client already refreshed the token once for this batch and it was still rejected
+      await finishJob(store, job, 'failed', 'Spotify rejected the session. Log in again and restart the import.');
+      return;
+    }
+
+    if (SpotifyApiError.isSpotifyApiError(error) && error.isRetryable) {
+      // Spotify is throttling or unavailable - back off this job
+      const delay = error.retryAfterMs ?? IMPORT.JOB_THROTTLE_DELAY_MS;
+      await saveJob(store, job, { retryAt: Date.now() + delay });
+      return;
+    }
+
+    // ImportErrors carry a user-facing message; anything else is reported as-is
+    await finishJob(store, job, 'failed', error instanceof Error ? error.message : 'Import failed');
+  }
+}
+
+/**
+ * Process active jobs until none are left
+ */
+async function runWorker(store: ImportJobStore): Promise<void> {
+  while (true) {
+    wakeRequested = false;
+    const jobs = await store.listActive();
+    if (jobs.length === 0 && !wakeRequested) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const job of jobs) {
+      if (job.retryAt && job.retryAt > now) continue;
+      await processJobStep(store, job);
+    }
+
+    await sleep(IMPORT.JOB_BATCH_DELAY_MS);
+  }
+}
+
+/**
+ * Start the worker if it isn't already running
+ * Safe to call whenever a job is queued - wakes the worker if it's already running.
+ * @param store - The store to read jobs from
+ */
+export function startImportWorker(store: ImportJobStore): void {
+  wakeRequested = true;
+  if (workerRunning) return;
+
+  workerRunning = true;
+  runWorker(store)
+    .catch(error => {
+      console.error('[import-jobs] Worker stopped:', error);
+    })
+    .finally(() => {
+      workerRunning = false;
+    });
+}
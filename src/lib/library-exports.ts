@@ -0,0 +1,315 @@
+/**
+ * Library and listening-history export parsers
+ * Reads data exports from other services (Spotify streaming history, Apple Music library,
+ * YouTube Music Takeout, Last.fm scrobbles) into track listings with play counts.
+ * Runs in the browser (to recognize dropped files) and on the server (to import them).
+ */
+
+import type { ParsedTextTrack } from './playlist-parser';
+import { parseCsv } from './csv';
+import { decodeXmlText } from './playlist-files';
+import { IMPORT } from './constants';
+
+/** Export formats that can be imported */
+export type LibraryExportFormat = 'spotify-history' | 'apple-music-library' | 'youtube-music' | 'lastfm';
+
+/** A track from an export, with how often it was played */
+export interface LibraryTrack extends ParsedTextTrack {
+  /** Play count, when the export records plays */
+  plays?: number;
+}
+
+/** Tracks read from an export */
+export interface ParsedLibraryExport {
+  format: LibraryExportFormat;
+  /** Display name for the import */
+  name: string;
+  /** Tracks after filtering, most played first when play counts are known */
+  tracks: LibraryTrack[];
+  /** Whether the export records plays, so a minimum play count can apply */
+  hasPlayCounts: boolean;
+}
+
+/** Options for reading an export */
+export interface LibraryExportOptions {
+  /** Only keep tracks played at least this many times (ignored without play counts) */
+  minPlays?: number;
+}
+
+/** Display names for each export format */
+export const LIBRARY_EXPORT_NAMES: Record<LibraryExportFormat, string> = {
+  'spotify-history': 'Spotify Streaming History',
+  'apple-music-library': 'Apple Music Library',
+  'youtube-music': 'YouTube Music',
+  'lastfm': 'Last.fm Scrobbles',
+};
+
+// Header names used by each service, lowercased
+const TITLE_HEADERS = ['song title', 'song name', 'track name', 'track', 'title', 'name'];
+const ARTIST_HEADERS = ['artist names', 'artist name 1', 'artist name', 'artist', 'album artist'];
+const ALBUM_HEADERS = ['album title', 'album name', 'album'];
+const PLAYS_HEADERS = ['play count', 'plays', 'playcount', 'scrobbles'];
+const TIMESTAMP_HEADERS = ['uts', 'utc_time', 'timestamp', 'date', 'time'];
+
+// Last.fm exporters write "31 Jan 2020 12:00" or an ISO date in the last column
+const SCROBBLE_DATE_PATTERN = /^(\d{1,2} \w{3} \d{4}|\d{4}-\d{2}-\d{2})/;
+
+/** A single play (or library entry) before tallying */
+interface PlayRow extends ParsedTextTrack {
+  plays: number;
+}
+
+/**
+ * Find the first column whose header matches one of the names
+ */
+function findColumn(headers: string[], names: string[]): number {
+  for (const name of names) {
+    const index = headers.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Split delimited text into rows, using tabs when the header has them
+ */
+function readDelimitedRows(text: string): string[][] {
+  const firstLine = text.trimStart().split(/\r?\n/, 1)[0];
+  return parseCsv(text, firstLine.includes('\t') ? '\t' : ',');
+}
+
+/**
+ * Merge rows for the same track, adding up their plays
+ */
+function tallyPlays(rows: PlayRow[]): LibraryTrack[] {
+  const tracks = new Map<string, LibraryTrack & { plays: number }>();
+  for (const row of rows) {
+    const key = `${row.title.toLowerCase()}|${row.artist?.toLowerCase() ?? ''}`;
+    const existing = tracks.get(key);
+    if (existing) {
+      existing.plays += row.plays;
+      existing.album ??= row.album;
+      existing.durationMs ??= row.durationMs;
+    } else {
+      tracks.set(key, { ...row });
+    }
+  }
+  return [...tracks.values()];
+}
+
+/**
+ * Spotify account data: StreamingHistory*.json (basic) or Streaming_History_Audio_*.json (extended)
+ */
+function parseSpotifyHistory(entries: Record<string, unknown>[]): PlayRow[] {
+  const rows: PlayRow[] = [];
+  for (const entry of entries) {
+    const title = entry.trackName ?? entry.master_metadata_track_name;
+    const artist = entry.artistName ?? entry.master_metadata_album_artist_name;
+    const album = entry.master_metadata_album_album_name;
+    const msPlayed = Number(entry.msPlayed ?? entry.ms_played ?? 0);
+    // Podcast episodes have no track name in extended history
+    if (typeof title !== 'string' || !title) continue;
+
+    rows.push({
+      title,
+      artist: typeof artist === 'string' ? artist : undefined,
+      album: typeof album === 'string' ? album : undefined,
+      plays: msPlayed >= IMPORT.MIN_COUNTED_PLAY_MS ? 1 : 0,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Google Takeout watch-history.json, keeping YouTube Music entries
+ */
+function parseYouTubeMusicHistory(entries: Record<string, unknown>[]): PlayRow[] {
+  const rows: PlayRow[] = [];
+  for (const entry of entries) {
+    if (entry.header !== 'YouTube Music' || typeof entry.title !== 'string') continue;
+
+    const title = entry.title.replace(/^Watched\s+/, '').trim();
+    const subtitles = Array.isArray(entry.subtitles) ? entry.subtitles : [];
+    const channel = (subtitles[0] as { name?: unknown } | undefined)?.name;
+    // Auto-generated artist channels are named "Artist - Topic"
+    const artist = typeof channel === 'string' ? channel.replace(/\s+-\s+Topic$/, '').trim() : undefined;
+    if (title) {
+      rows.push({ title, artist: artist || undefined, plays: 1 });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Apple Music / iTunes Library.xml (a property list of track dictionaries)
+ */
+function parseAppleLibraryXml(text: string): PlayRow[] {
+  const rows: PlayRow[] = [];
+  // Track dictionaries are flat, so match innermost <dict> blocks that have a Track ID
+  for (const [, body] of text.matchAll(/<dict>((?:(?!<\/?dict>)[\s\S])*?<key>Track ID<\/key>(?:(?!<\/?dict>)[\s\S])*?)<\/dict>/g)) {
+    const fields = new Map<string, string>();
+    for (const [, key, type, value] of body.matchAll(/<key>([^<]*)<\/key>\s*<(string|integer|date|true|false)\s*\/?>(?:([^<]*)<\/\2>)?/g)) {
+      fields.set(decodeXmlText(key), type === 'true' || type === 'false' ? type : decodeXmlText(value ?? ''));
+    }
+
+    const title = fields.get('Name');
+    if (!title || fields.get('Podcast') === 'true' || fields.get('Movie') === 'true' || fields.get('TV Show') === 'true') {
+      continue;
+    }
+
+    const totalTime = Number.parseInt(fields.get('Total Time') ?? '', 10);
+    rows.push({
+      title,
+      artist: fields.get('Artist') ?? fields.get('Album Artist'),
+      album: fields.get('Album'),
+      durationMs: Number.isFinite(totalTime) && totalTime > 0 ? totalTime : undefined,
+      plays: Number.parseInt(fields.get('Play Count') ?? '0', 10) || 0,
+    });
+  }
+  return rows;
+}
+
+/**
+ * Header-mapped CSV or tab-separated exports (Apple Music text export, YouTube Music
+ * library CSV, Last.fm scrobbles with a header row)
+ * Rows without a play-count column count as one play each, which suits scrobble logs.
+ */
+function parseDelimitedExport(rows: string[][], format: LibraryExportFormat): PlayRow[] {
+  const headers = rows[0].map((header) => header.toLowerCase());
+  const titleIndex = findColumn(headers, TITLE_HEADERS);
+  const artistIndex = findColumn(headers, ARTIST_HEADERS);
+  const albumIndex = findColumn(headers, ALBUM_HEADERS);
+  const playsIndex = findColumn(headers, PLAYS_HEADERS);
+  // Apple's text export lists Time in seconds
+  const timeIndex = format === 'apple-music-library' ? headers.indexOf('time') : -1;
+
+  const result: PlayRow[] = [];
+  for (const row of rows.slice(1)) {
+    const title = row[titleIndex];
+    if (!title) continue;
+
+    const seconds = timeIndex === -1 ? NaN : Number.parseFloat(row[timeIndex]);
+    result.push({
+      title,
+      artist: (artistIndex === -1 ? undefined : row[artistIndex]) || undefined,
+      album: (albumIndex === -1 ? undefined : row[albumIndex]) || undefined,
+      durationMs: Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : undefined,
+      plays: playsIndex === -1 ? 1 : Number.parseInt(row[playsIndex], 10) || 0,
+    });
+  }
+  return result;
+}
+
+/**
+ * Headerless Last.fm scrobble CSV: artist, album, title, date
+ */
+function parseLastfmScrobbles(rows: string[][]): PlayRow[] {
+  return rows
+    .filter((row) => row.length >= 4 && row[2])
+    .map(([artist, album, title]) => ({
+      title,
+      artist: artist || undefined,
+      album: album || undefined,
+      plays: 1,
+    }));
+}
+
+/**
+ * Try to read the text as a JSON array of objects
+ */
+function readJsonEntries(text: string): Record<string, unknown>[] | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('[')) return null;
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed.filter((entry) => entry && typeof entry === 'object') : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Work out which service an export came from
+ * Only looks at the start of the text, so it's cheap enough to run on every dropped file
+ * @returns The format, or null for anything else
+ */
+export function detectLibraryExport(text: string): LibraryExportFormat | null {
+  const trimmed = text.trimStart();
+  const head = trimmed.slice(0, 4096);
+
+  if (trimmed.startsWith('[')) {
+    if (/"(msPlayed|ms_played)"\s*:/.test(head)) return 'spotify-history';
+    if (/"header"\s*:\s*"YouTube Music"/.test(text)) return 'youtube-music';
+    return null;
+  }
+
+  if (/<plist[\s>]/.test(head) && /<key>Tracks<\/key>/.test(text)) {
+    return 'apple-music-library';
+  }
+
+  const firstLine = head.split(/\r?\n/, 1)[0];
+  const headers = (parseCsv(firstLine, firstLine.includes('\t') ? '\t' : ',')[0] ?? [])
+    .map((header) => header.toLowerCase());
+
+  if (headers.includes('name') && headers.includes('artist') && (headers.includes('plays') || headers.includes('time'))) {
+    return 'apple-music-library';
+  }
+  if (headers.includes('song title') && findColumn(headers, ARTIST_HEADERS) !== -1) {
+    return 'youtube-music';
+  }
+  if (headers.includes('artist') && (headers.includes('track') || headers.includes('name'))
+    && findColumn(headers, TIMESTAMP_HEADERS) !== -1) {
+    return 'lastfm';
+  }
+  if (headers.length === 4 && SCROBBLE_DATE_PATTERN.test(headers[3])) {
+    return 'lastfm';
+  }
+
+  return null;
+}
+
+/**
+ * Parse an export from another service
+ * @param text - Export file contents
+ * @param options - Filtering options
+ * @returns The tracks, or null if the text isn't a recognized export or nothing is left
+ */
+export function parseLibraryExport(
+  text: string,
+  options: LibraryExportOptions = {}
+): ParsedLibraryExport | null {
+  const format = detectLibraryExport(text);
+  if (!format) return null;
+
+  // Listening histories and scrobble logs always count plays; library exports only with a plays column
+  let rows: PlayRow[];
+  let hasPlayCounts = true;
+  let isHistory = false;
+  if (format === 'apple-music-library' && /<plist[\s>]/.test(text.slice(0, 4096))) {
+    rows = parseAppleLibraryXml(text);
+  } else if (format === 'spotify-history' || (format === 'youtube-music' && text.trimStart().startsWith('['))) {
+    const entries = readJsonEntries(text) ?? [];
+    isHistory = true;
+    rows = format === 'spotify-history' ? parseSpotifyHistory(entries) : parseYouTubeMusicHistory(entries);
+  } else {
+    const delimited = readDelimitedRows(text);
+    const headerless = format === 'lastfm' && SCROBBLE_DATE_PATTERN.test(delimited[0]?.[3] ?? '');
+    rows = headerless ? parseLastfmScrobbles(delimited) : parseDelimitedExport(delimited, format);
+    isHistory = format === 'lastfm';
+    hasPlayCounts = format === 'lastfm'
+      || findColumn(delimited[0].map((header) => header.toLowerCase()), PLAYS_HEADERS) !== -1;
+  }
+
+  // Listening histories leave out streams that never counted as a play (skipped under the counted length);
+  // library exports list unplayed tracks too, and keep them unless a minimum is asked for
+  const minPlays = hasPlayCounts ? Math.max(isHistory ? 1 : 0, options.minPlays ?? 0) : 0;
+
+  let tracks = tallyPlays(rows).filter((track) => (track.plays ?? 0) >= minPlays);
+  if (hasPlayCounts) {
+    tracks = tracks.sort((a, b) => (b.plays ?? 0) - (a.plays ?? 0));
+  } else {
+    tracks = tracks.map(({ plays: _plays, ...track }) => track);
+  }
+
+  return tracks.length > 0 ? { format, name: LIBRARY_EXPORT_NAMES[format], tracks, hasPlayCounts } : null;
+}
@@ -0,0 +1,253 @@
+/**
+ * Track matching engine
+ * Scores Spotify search candidates against a source track (title/artist similarity,
+ * duration, version markers and ISRC) so imports don't blindly accept the first hit.
+ */
+
+import { searchTracks, type SpotifyTrack } from './spotify';
+import { VERSION_MARKERS, cleanSearchQuery } from './fuzzy-search';
+import { MATCHING } from './constants';
+
+/** What we know about the track being matched */
+export interface MatchSource {
+  title: string;
+  artist?: string;
+  album?: string;
+  durationMs?: number;
+  isrc?: string;
+}
+
+/** A scored Spotify candidate */
+export interface MatchCandidate {
+  track: SpotifyTrack;
+  /** How closely the candidate agrees with the source track (0-1) */
+  confidence: number;
+}
+
+/** Result of matching a source track */
+export interface MatchResult {
+  /** Best candidate, or null if nothing reached MATCHING.MIN_CONFIDENCE */
+  best: MatchCandidate | null;
+  /** Other plausible candidates, best first */
+  alternatives: MatchCandidate[];
+}
+
+// Versions that are almost never what the source meant unless it says so
+const UNWANTED_MARKERS = [
+  'karaoke', 'cover', 'tribute', 'instrumental', 'originally performed',
+  'made famous', 'in the style of', '8-bit', 'lullaby',
+];
+
+// Remasters are the same recording, so they only count lightly
+const MINOR_MARKERS = new Set<string>(['remaster', 'remastered']);
+
+/**
+ * Normalize text for comparison: cleaned of noise words, lowercase, no accents or punctuation
+ */
+export function normalizeForMatch(text: string): string {
+  return cleanSearchQuery(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Count character bigrams in a string
+ */
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Sørensen–Dice similarity of two normalized strings (0-1)
+ */
+export function stringSimilarity(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  let overlap = 0;
+  for (const [gram, count] of aGrams) {
+    overlap += Math.min(count, bGrams.get(gram) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + b.length - 1);
+}
+
+/**
+ * Find which markers appear (as whole words) in some text
+ */
+function findMarkers(text: string, markers: readonly string[]): Set<string> {
+  const lower = text.toLowerCase();
+  const found = new Set<string>();
+  for (const marker of markers) {
+    if (new RegExp(`\\b${marker.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)) {
+      found.add(marker);
+    }
+  }
+  return found;
+}
+
+/**
+ * Best similarity between the source artist and any of the track's artists
+ */
+function artistSimilarity(sourceArtist: string, track: SpotifyTrack): number {
+  const source = normalizeForMatch(sourceArtist);
+  let best = 0;
+  for (const artist of track.artists) {
+    const name = normalizeForMatch(artist.name);
+    // "Artist A & Artist B" credits contain each artist's name
+    if (name.length >= 3 && source.includes(name)) return 1;
+    best = Math.max(best, stringSimilarity(source, name));
+  }
+  return best;
+}
+
+/**
+ * Penalty for version markers that appear on only one side
+ */
+function versionPenalty(source: MatchSource, track: SpotifyTrack): number {
+  const sourceText = `${source.title} ${source.album ?? ''}`;
+  const candidateText = `${track.name} ${track.album.name}`;
+
+  let penalty = 0;
+
+  const sourceVersions = findMarkers(sourceText, VERSION_MARKERS);
+  const candidateVersions = findMarkers(candidateText, VERSION_MARKERS);
+  for (const marker of new Set([...sourceVersions, ...candidateVersions])) {
+    if (sourceVersions.has(marker) !== candidateVersions.has(marker)) {
+      penalty += MINOR_MARKERS.has(marker) ? MATCHING.VERSION_PENALTY / 3 : MATCHING.VERSION_PENALTY;
+    }
+  }
+
+  const sourceUnwanted = findMarkers(sourceText, UNWANTED_MARKERS);
+  const candidateUnwanted = findMarkers(`${candidateText} ${track.artists.map(a => a.name).join(' ')}`, UNWANTED_MARKERS);
+  if ([...candidateUnwanted].some(marker => !sourceUnwanted.has(marker))) {
+    penalty += MATCHING.UNWANTED_VERSION_PENALTY;
+  }
+
+  return penalty;
+}
+
+/**
+ * Penalty for a difference in track length, scaled between the tolerance and the max delta
+ */
+function durationPenalty(source: MatchSource, track: SpotifyTrack): number {
+  if (!source.durationMs || !track.duration_ms) return 0;
+
+  const delta = Math.abs(source.durationMs - track.duration_ms);
+  if (delta <= MATCHING.DURATION_TOLERANCE_MS) return 0;
+
+  const range = MATCHING.DURATION_MAX_DELTA_MS - MATCHING.DURATION_TOLERANCE_MS;
+  const scale = Math.min(1, (delta - MATCHING.DURATION_TOLERANCE_MS) / range);
+  return scale * MATCHING.DURATION_PENALTY;
+}
+
+/**
+ * Score how well a Spotify track matches a source track
+ * @param source - The source track
+ * @param track - The Spotify candidate
+ * @returns Confidence between 0 and 1
+ */
+export function scoreCandidate(source: MatchSource, track: SpotifyTrack): number {
+  // Same ISRC means the same recording
+  if (source.isrc && track.external_ids?.isrc?.toUpperCase() === source.isrc.toUpperCase()) {
+    return 1;
+  }
+
+  const sourceTitle = normalizeForMatch(source.title);
+  const candidateTitle = normalizeForMatch(track.name);
+
+  let score: number;
+  if (source.artist) {
+    // Spotify appends versions as " - Live at ...", " - Remastered 2011"; compare the base title too
+    const baseTitle = normalizeForMatch(track.name.split(' - ')[0]);
+    const titleScore = Math.max(
+      stringSimilarity(sourceTitle, candidateTitle),
+      stringSimilarity(sourceTitle, baseTitle)
+    );
+    // A matching artist can't rescue a different song, so title similarity gates the score
+    score = titleScore * (0.4 + 0.6 * artistSimilarity(source.artist, track));
+  } else {
+    // Scraped titles often include the artist ("Artist - Title") in either order
+    const artists = normalizeForMatch(track.artists.map(a => a.name).join(' '));
+    score = Math.max(
+      stringSimilarity(sourceTitle, candidateTitle),
+      stringSimilarity(sourceTitle, `${artists} ${candidateTitle}`),
+      stringSimilarity(sourceTitle, `${candidateTitle} ${artists}`)
+    );
+  }
+
+  score -= versionPenalty(source, track) + durationPenalty(source, track);
+  return Math.round(Math.max(0, Math.min(1, score)) * 100) / 100;
+}
+
+/**
+ * Score and rank a list of candidates, best first
+ * @param source - The source track
+ * @param tracks - Spotify candidates (duplicates are ignored)
+ */
+export function rankCandidates(source: MatchSource, tracks: SpotifyTrack[]): MatchCandidate[] {
+  const seen = new Set<string>();
+  const ranked: MatchCandidate[] = [];
+  for (const track of tracks) {
+    if (seen.has(track.id)) continue;
+    seen.add(track.id);
+    ranked.push({ track, confidence: scoreCandidate(source, track) });
+  }
+  // Stable sort keeps Spotify's relevance order for ties
+  return ranked.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Build the Spotify search query for a source track
+ */
+function buildQuery(title: string, artist?: string): string {
+  return artist ? `${title} ${artist}` : title;
+}
+
+/**
+ * Search Spotify for a source track and rank the candidates
+ * Tries an ISRC lookup first when available, and a cleaned-up query when the first search scores poorly.
+ * @param source - The source track
+ * @param token - Spotify access token
+ * @throws SpotifyApiError if Spotify rejects a search
+ */
+export async function findTrackMatches(source: MatchSource, token: string): Promise<MatchResult> {
+  const candidates: SpotifyTrack[] = [];
+
+  if (source.isrc) {
+    const result = await searchTracks(`isrc:${source.isrc}`, token, 1);
+    candidates.push(...result.tracks.items);
+  }
+
+  // Lines holding only an ISRC have no text worth searching for
+  if (candidates.length === 0 && source.title !== source.isrc) {
+    const result = await searchTracks(buildQuery(source.title, source.artist), token, MATCHING.CANDIDATE_LIMIT);
+    candidates.push(...result.tracks.items);
+
+    const cleanedQuery = buildQuery(cleanSearchQuery(source.title), source.artist && cleanSearchQuery(source.artist));
+    const bestSoFar = rankCandidates(source, candidates)[0]?.confidence ?? 0;
+    if (bestSoFar < MATCHING.RETRY_BELOW && cleanedQuery && cleanedQuery !== buildQuery(source.title, source.artist).toLowerCase()) {
+      const retry = await searchTracks(cleanedQuery, token, MATCHING.CANDIDATE_LIMIT);
+      candidates.push(...retry.tracks.items);
+    }
+  }
+
+  const ranked = rankCandidates(source, candidates);
+  const [first, ...rest] = ranked;
+  const best = first && first.confidence >= MATCHING.MIN_CONFIDENCE ? first : null;
+
+  return {
+    best,
+    alternatives: (best ? rest : ranked).slice(0, MATCHING.MAX_ALTERNATIVES),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Duplicate detection within a playlist
+ * Groups repeated track IDs, and different releases of the same song (remasters,
+ * album vs single), so the user can choose which copies to remove.
+ */
+
+import type { SpotifyTrack } from './spotify';
+import { normalizeForMatch } from './matching';
+
+/** A track at a specific position in a playlist */
+export interface PlaylistEntry {
+  /** Zero-based position in the playlist */
+  position: number;
+  track: SpotifyTrack;
+}
+
+/** Playlist entries that look like the same song */
+export interface DuplicateGroup {
+  /**
+   * Strongest match in the group: 'exact' when some track appears more than once (the group
+   * may also hold other releases), 'similar' when every entry is a different release of one song
+   */
+  kind: 'exact' | 'similar';
+  /** Entries in playlist order; the first is the one kept by default */
+  entries: PlaylistEntry[];
+}
+
+// Versions that are a different recording, so they never count as the same song
+const DISTINCT_VERSION_PATTERN = /\b(live|acoustic|unplugged|remix(ed)?|instrumental|demo|karaoke|extended)\b/gi;
+
+/**
+ * Key shared by releases of the same song: base title, primary artist and any markers
+ * of a different recording. Spotify puts release details after " - " ("Remastered 2011",
+ * "Single Version"), so that part is dropped.
+ */
+export function songKey(track: SpotifyTrack): string {
+  const base = track.name.split(' - ')[0];
+  const versions = [...new Set((track.name.match(DISTINCT_VERSION_PATTERN) ?? []).map((m) => m.toLowerCase()))];
+  const artist = track.artists[0]?.name ?? '';
+  return [normalizeForMatch(base), normalizeForMatch(artist), ...versions.sort()].join('|');
+}
+
+/**
+ * Find groups of duplicate entries in a playlist
+ * Each entry belongs to at most one group; groups are ordered by first position
+ * @param entries - Playlist entries (unavailable tracks already excluded)
+ */
+export function findDuplicateGroups(entries: PlaylistEntry[]): DuplicateGroup[] {
+  // Bucket by song first, then check whether a bucket holds more than one track ID
+  const bySong = new Map<string, PlaylistEntry[]>();
+  for (const entry of entries) {
+    const key = songKey(entry.track);
+    const bucket = bySong.get(key);
+    if (bucket) {
+      bucket.push(entry);
+    } else {
+      bySong.set(key, [entry]);
+    }
+  }
+
+  const groups: DuplicateGroup[] = [];
+  for (const bucket of bySong.values()) {
+    if (bucket.length < 2) continue;
+
+    const ids = new Set(bucket.map((entry) => entry.track.id));
+    groups.push({
+      kind: ids.size < bucket.length ? 'exact' : 'similar',
+      entries: [...bucket].sort((a, b) => a.position - b.position),
+    });
+  }
+
+  return groups.sort((a, b) => a.entries[0].position - b.entries[0].position);
+}
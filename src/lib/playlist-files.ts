@@ -0,0 +1,272 @@
+/**
+ * Playlist file parsers
+ * Reads M3U/M3U8, XSPF and PLS files exported by local players into track listings.
+ * Runs in the browser (to recognize dropped files) and on the server (to import them).
+ */
+
+import type { ParsedTextTrack } from './playlist-parser';
+import { normalizeIsrc, toSpotifyTrackUri } from './track-identifiers';
+
+/** Playlist file formats that can be imported */
+export type PlaylistFileFormat = 'm3u' | 'xspf' | 'pls';
+
+/** Tracks read from a playlist file */
+export interface ParsedPlaylistFile {
+  format: PlaylistFileFormat;
+  /** Playlist title, when the file has one */
+  name?: string;
+  tracks: ParsedTextTrack[];
+}
+
+const AUDIO_FILE_PATTERN = /\.(mp3|flac|m4a|aac|ogg|oga|opus|wav|wma|aiff?|alac)$/i;
+
+/**
+ * Split "Artist - Title" display text, as written by most players
+ */
+function splitDisplayTitle(text: string): ParsedTextTrack | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const dashIndex = trimmed.indexOf(' - ');
+  if (dashIndex > 0) {
+    return {
+      artist: trimmed.substring(0, dashIndex).trim(),
+      title: trimmed.substring(dashIndex + 3).trim(),
+    };
+  }
+  return { title: trimmed };
+}
+
+/**
+ * Guess a track from a local file path, e.g. "Music/Artist/01 - Artist - Title.mp3"
+ * Remote URLs are skipped: their paths rarely describe the track
+ */
+function trackFromLocation(location: string): ParsedTextTrack | null {
+  const trimmed = location.trim();
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) && !/^file:\/\//i.test(trimmed)) {
+    return null;
+  }
+
+  let fileName = trimmed.split(/[\\/]/).pop() ?? '';
+  try {
+    fileName = decodeURIComponent(fileName);
+  } catch {
+    // Keep the raw name if it isn't valid percent-encoding
+  }
+
+  const base = fileName
+    .replace(AUDIO_FILE_PATTERN, '')
+    .replace(/_/g, ' ')
+    // Leading track numbers: "01 - ", "01. ", "1 "
+    .replace(/^\d{1,3}(\s*[-.)]\s*|\s+)/, '');
+  return splitDisplayTitle(base);
+}
+
+/**
+ * Convert a length in seconds to milliseconds, ignoring unknown (-1) lengths
+ */
+function secondsToMs(value: string | undefined): number | undefined {
+  const seconds = Number.parseFloat(value ?? '');
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds * 1000) : undefined;
+}
+
+/**
+ * Parse an M3U/M3U8 playlist, extended or plain
+ * `#EXTINF:<seconds>,Artist - Title` gives the track and its length; plain entries
+ * fall back to the file name.
+ */
+export function parseM3u(text: string): ParsedPlaylistFile {
+  const tracks: ParsedTextTrack[] = [];
+  let name: string | undefined;
+  let pending: Partial<ParsedTextTrack> = {};
+
+  const flush = (location?: string): void => {
+    const fromInfo = pending.title ? pending : null;
+    const base = fromInfo ?? (location ? trackFromLocation(location) : null);
+    if (base?.title) {
+      tracks.push({
+        title: base.title,
+        artist: pending.artist ?? base.artist,
+        album: pending.album,
+        durationMs: pending.durationMs,
+        spotifyUri: location ? toSpotifyTrackUri(location) : undefined,
+      });
+    }
+    pending = {};
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const extinf = line.match(/^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i);
+      if (extinf) {
+        const display = splitDisplayTitle(extinf[2]);
+        pending = { ...pending, ...display, durationMs: secondsToMs(extinf[1]) };
+      } else if (/^#EXTART:/i.test(line)) {
+        pending.artist = line.slice('#EXTART:'.length).trim() || undefined;
+      } else if (/^#EXTALB:/i.test(line)) {
+        pending.album = line.slice('#EXTALB:'.length).trim() || undefined;
+      } else if (/^#PLAYLIST:/i.test(line)) {
+        name = line.slice('#PLAYLIST:'.length).trim() || undefined;
+      }
+      continue;
+    }
+
+    flush(line);
+  }
+
+  // An #EXTINF with no location after it still names a track
+  if (pending.title) flush();
+
+  return { format: 'm3u', name, tracks };
+}
+
+/**
+ * Decode a numeric character reference, leaving it unchanged if it isn't a valid code point
+ * (beyond U+10FFFF, or a lone surrogate half)
+ */
+function decodeCodePoint(entity: string, codePoint: number): string {
+  const valid = codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+  return valid ? String.fromCodePoint(codePoint) : entity;
+}
+
+/**
+ * Decode the XML entities and CDATA sections that appear in XSPF and plist text
+ */
+export function decodeXmlText(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (entity: string, hex: string) => decodeCodePoint(entity, Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (entity: string, dec: string) => decodeCodePoint(entity, Number.parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read the text of the first matching child element
+ */
+function xmlElement(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  const value = match ? decodeXmlText(match[1]) : '';
+  return value || undefined;
+}
+
+/**
+ * Read the text of every matching child element
+ */
+function xmlElements(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi'))]
+    .map((match) => decodeXmlText(match[1]))
+    .filter(Boolean);
+}
+
+/**
+ * Parse an XSPF playlist
+ * XSPF durations are already in milliseconds. Spotify links and `urn:isrc:` identifiers
+ * (as written by our own export) are kept so the tracks can be looked up directly.
+ */
+export function parseXspf(text: string): ParsedPlaylistFile {
+  const trackListIndex = text.search(/<trackList[\s>]/i);
+  const head = trackListIndex === -1 ? text : text.slice(0, trackListIndex);
+
+  const tracks: ParsedTextTrack[] = [];
+  for (const [, body] of text.matchAll(/<track(?:\s[^>]*)?>([\s\S]*?)<\/track>/gi)) {
+    const title = xmlElement(body, 'title');
+    const location = xmlElement(body, 'location');
+    const base = title ? { title } : location ? trackFromLocation(location) : null;
+    if (!base?.title) continue;
+
+    const duration = Number.parseInt(xmlElement(body, 'duration') ?? '', 10);
+    const ids = [...xmlElements(body, 'identifier'), ...xmlElements(body, 'location')];
+    const spotifyUri = ids.map(toSpotifyTrackUri).find(Boolean);
+    const isrc = ids
+      .map((id) => id.match(/^urn:isrc:(.+)$/i)?.[1])
+      .map((id) => (id ? normalizeIsrc(id) : undefined))
+      .find(Boolean);
+    tracks.push({
+      title: base.title,
+      artist: xmlElement(body, 'creator') ?? base.artist,
+      album: xmlElement(body, 'album'),
+      durationMs: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+      isrc,
+      spotifyUri,
+    });
+  }
+
+  return { format: 'xspf', name: xmlElement(head, 'title'), tracks };
+}
+
+/**
+ * Parse a PLS playlist (`FileN=`, `TitleN=`, `LengthN=` entries)
+ */
+export function parsePls(text: string): ParsedPlaylistFile {
+  const entries = new Map<number, { file?: string; title?: string; length?: string }>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = rawLine.trim().match(/^(File|Title|Length)(\d+)\s*=\s*(.*)$/i);
+    if (!match) continue;
+
+    const index = Number.parseInt(match[2], 10);
+    const entry = entries.get(index) ?? {};
+    const key = match[1].toLowerCase() as 'file' | 'title' | 'length';
+    entry[key] = match[3];
+    entries.set(index, entry);
+  }
+
+  const tracks: ParsedTextTrack[] = [];
+  for (const [, entry] of [...entries].sort(([a], [b]) => a - b)) {
+    const base = (entry.title ? splitDisplayTitle(entry.title) : null)
+      ?? (entry.file ? trackFromLocation(entry.file) : null);
+    if (!base?.title) continue;
+    tracks.push({ ...base, durationMs: secondsToMs(entry.length) });
+  }
+
+  return { format: 'pls', tracks };
+}
+
+/**
+ * Work out which playlist file format some text is in
+ * @returns The format, or null for anything else (URLs, plain track lists)
+ */
+export function detectPlaylistFileFormat(text: string): PlaylistFileFormat | null {
+  const trimmed = text.trimStart();
+
+  if (/^\[playlist\]/i.test(trimmed)) {
+    return 'pls';
+  }
+
+  if (/^(<\?xml[^>]*>\s*)?<playlist[\s>]/i.test(trimmed) && /<trackList[\s>]/i.test(trimmed)) {
+    return 'xspf';
+  }
+
+  if (/^#EXTM3U/i.test(trimmed) || /^#EXTINF:/im.test(trimmed)) {
+    return 'm3u';
+  }
+
+  // Plain M3U: nothing but comments and audio file paths
+  const lines = trimmed.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+  if (lines.length > 0 && lines.every((line) => AUDIO_FILE_PATTERN.test(line))) {
+    return 'm3u';
+  }
+
+  return null;
+}
+
+/**
+ * Parse a playlist file of any supported format
+ * @param text - File contents
+ * @returns The parsed playlist, or null if the text isn't a playlist file or has no tracks
+ */
+export function parsePlaylistFile(text: string): ParsedPlaylistFile | null {
+  const format = detectPlaylistFileFormat(text);
+  if (!format) return null;
+
+  const parsed = format === 'm3u' ? parseM3u(text) : format === 'xspf' ? parseXspf(text) : parsePls(text);
+  return parsed.tracks.length > 0 ? parsed : null;
+}
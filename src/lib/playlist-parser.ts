@@ -3,6 +3,10 @@
  * Detects and parses playlist URLs from various music platforms
  */
 
+import { readCsvTable, tracksFromCsvTable, type CsvColumn } from './csv';
+import { extractTrackIdentifiers } from './track-identifiers';
+import { isSupportedUrl } from './url-parser';
+
 export interface ParsedPlaylistUrl {
   platform: string;
   playlistId: string;
@@ -125,6 +129,18 @@ const amazonMusicPlaylistParser: PlaylistParser = {
   },
 };
 
+// Any other web page - read on the server for structured data (JSON-LD, microdata, og:audio)
+// Single track links are left to track import
+const genericPlaylistParser: PlaylistParser = {
+  platform: 'generic',
+  match(url: URL): boolean {
+    return (url.protocol === 'http:' || url.protocol === 'https:') && !isSupportedUrl(url.href);
+  },
+  parse(url: URL): string | null {
+    return url.href;
+  },
+};
+
 const playlistParsers: PlaylistParser[] = [
   youtubePlaylistParser,
   soundcloudPlaylistParser,
@@ -133,6 +149,8 @@ const playlistParsers: PlaylistParser[] = [
   appleMusicPlaylistParser,
   tidalPlaylistParser,
   amazonMusicPlaylistParser,
+  // Must stay last
+  genericPlaylistParser,
 ];
 
 /**
@@ -181,6 +199,14 @@ export interface ParsedTextTrack {
   title: string;
   /** Artist name if provided */
   artist?: string;
+  /** Album name, when the source provides it (playlist files, CSV) */
+  album?: string;
+  /** Track length, when the source provides it (playlist files, CSV) */
+  durationMs?: number;
+  /** International Standard Recording Code, when the source provides it (CSV, pasted lines) */
+  isrc?: string;
+  /** Spotify track URI, when the source provides it (CSV, pasted lines) */
+  spotifyUri?: string;
 }
 
 /**
@@ -189,11 +215,20 @@ export interface ParsedTextTrack {
  * - "Artist - Title"
  * - "Title by Artist"
  * - "Title"
- * - CSV format with headers (artist,title or title,artist)
+ * - CSV/TSV with a header row (see readCsvTable for recognized columns)
+ * Spotify track URIs/links and ISRCs on a line are picked out and kept alongside the text;
+ * a line holding only an identifier uses it as its title.
  * @param text - The text input to parse
+ * @param columns - Column mapping chosen by the user, for CSV whose headers are ambiguous
  * @returns Array of parsed tracks, or null if not valid text track list
  */
-export function parseTextTracks(text: string): ParsedTextTrack[] | null {
+export function parseTextTracks(text: string, columns?: CsvColumn[]): ParsedTextTrack[] | null {
+  const table = readCsvTable(text);
+  if (table) {
+    const tracks = tracksFromCsvTable(table, columns);
+    return tracks.length > 0 ? tracks : null;
+  }
+
   const lines = text
     .split(/[\n\r]+/)
     .map(line => line.trim())
@@ -203,24 +238,14 @@ export function parseTextTracks(text: string): ParsedTextTrack[] | null {
     return null;
   }
 
-  // Check if first line looks like CSV headers
-  const firstLine = lines[0].toLowerCase();
-  const hasHeaders = firstLine.includes('artist') && firstLine.includes('title');
-
   const tracks: ParsedTextTrack[] = [];
-  const startIndex = hasHeaders ? 1 : 0;
-
-  // Determine column order if CSV with headers
-  let artistFirst = false;
-  if (hasHeaders) {
-    const headers = firstLine.split(/[,\t;|]/);
-    const artistIndex = headers.findIndex(h => h.trim().includes('artist'));
-    const titleIndex = headers.findIndex(h => h.trim().includes('title'));
-    artistFirst = artistIndex < titleIndex;
-  }
 
-  for (let i = startIndex; i < lines.length; i++) {
-    const line = lines[i];
+  for (const rawLine of lines) {
+    const { spotifyUri, isrc, rest: line } = extractTrackIdentifiers(rawLine);
+    if (!line && (spotifyUri || isrc)) {
+      tracks.push({ title: (spotifyUri ?? isrc)!, spotifyUri, isrc });
+      continue;
+    }
 
     // Skip empty lines and common non-track content
     if (!line || line.length < 2) continue;
@@ -229,23 +254,8 @@ export function parseTextTracks(text: string): ParsedTextTrack[] | null {
     let title: string | undefined;
     let artist: string | undefined;
 
-    // Try CSV format (comma, tab, semicolon, or pipe separated)
-    if (/[,\t;|]/.test(line) && hasHeaders) {
-      const parts = line.split(/[,\t;|]/).map(p => p.trim().replace(/^["']|["']$/g, ''));
-      if (parts.length >= 2) {
-        if (artistFirst) {
-          artist = parts[0] || undefined;
-          title = parts[1] || undefined;
-        } else {
-          title = parts[0] || undefined;
-          artist = parts[1] || undefined;
-        }
-      } else if (parts.length === 1) {
-        title = parts[0];
-      }
-    }
     // Try "Artist - Title" format (most common)
-    else if (line.includes(' - ')) {
+    if (line.includes(' - ')) {
       const dashIndex = line.indexOf(' - ');
       artist = line.substring(0, dashIndex).trim();
       title = line.substring(dashIndex + 3).trim();
@@ -279,7 +289,7 @@ export function parseTextTracks(text: string): ParsedTextTrack[] | null {
         .trim();
 
       if (title.length > 0) {
-        tracks.push({ title, artist: artist || undefined });
+        tracks.push({ title, artist: artist || undefined, spotifyUri, isrc });
       }
     }
   }
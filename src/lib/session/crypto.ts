@@ -0,0 +1,69 @@
+/**
+ * Encryption helpers for secrets stored at rest (e.g. refresh tokens)
+ * Uses AES-256-GCM with a key derived from SESSION_SECRET
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { isProduction } from '../api/security';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+let cachedKey: Buffer | null = null;
+
+/**
+ * Derive the encryption key from SESSION_SECRET
+ * In development a random per-process key is used if no secret is configured
+ */
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  const secret = import.meta.env.SESSION_SECRET;
+  if (secret) {
+    cachedKey = createHash('sha256').update(secret).digest();
+  } else if (isProduction()) {
+    throw new Error('SESSION_SECRET must be set in production');
+  } else {
+    console.warn('[session] SESSION_SECRET not set - using a temporary key; sessions will not survive restarts');
+    cachedKey = randomBytes(32);
+  }
+
+  return cachedKey;
+}
+
+/**
+ * Encrypt a secret for storage
+ * @param plaintext - The value to encrypt
+ * @returns Encoded string in the form iv.tag.ciphertext (base64url)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * @param encoded - The encoded ciphertext
+ * @returns The plaintext value
+ * @throws If the value was tampered with or encrypted with a different key
+ */
+export function decryptSecret(encoded: string): string {
+  const [iv, tag, ciphertext] = encoded.split('.').map(part => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !ciphertext) {
+    throw new Error('Malformed encrypted value');
+  }
+  const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Derive a stable, non-secret handle for a session ID
+ * Used when listing sessions so the real IDs (bearer credentials) are never exposed
+ */
+export function getSessionHandle(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex').slice(0, 16);
+}
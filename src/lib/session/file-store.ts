@@ -0,0 +1,111 @@
+/**
+ * File-backed session store
+ * Keeps sessions in memory and persists them to a JSON file so they survive restarts.
+ * Suitable for single-instance self-hosted deployments.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { isSessionExpired, type SessionRecord, type SessionStore } from './store';
+
+export class FileSessionStore implements SessionStore {
+  private sessions: Map<string, SessionRecord> | null = null;
+  private loading: Promise<Map<string, SessionRecord>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const sessions = await this.load();
+    const record = sessions.get(id);
+    if (!record) return null;
+    if (isSessionExpired(record)) {
+      sessions.delete(id);
+      await this.persist();
+      return null;
+    }
+    return { ...record };
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    const sessions = await this.load();
+    sessions.set(record.id, { ...record });
+    await this.persist();
+  }
+
+  async delete(id: string): Promise<void> {
+    const sessions = await this.load();
+    if (sessions.delete(id)) {
+      await this.persist();
+    }
+  }
+
+  async listByUser(userId: string): Promise<SessionRecord[]> {
+    const sessions = await this.load();
+    const now = Date.now();
+    return [...sessions.values()]
+      .filter(record => record.userId === userId && !isSessionExpired(record, now))
+      .map(record => ({ ...record }));
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    const sessions = await this.load();
+    let removed = 0;
+    for (const [id, record] of sessions.entries()) {
+      if (record.userId === userId) {
+        sessions.delete(id);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      await this.persist();
+    }
+    return removed;
+  }
+
+  /**
+   * Load sessions from disk once, dropping expired records
+   */
+  private async load(): Promise<Map<string, SessionRecord>> {
+    if (this.sessions) return this.sessions;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const sessions = new Map<string, SessionRecord>();
+        try {
+          const contents = await readFile(this.filePath, 'utf8');
+          const records = JSON.parse(contents) as SessionRecord[];
+          const now = Date.now();
+          for (const record of records) {
+            if (!isSessionExpired(record, now)) {
+              sessions.set(record.id, record);
+            }
+          }
+        } catch {
+          // Missing or unreadable file - start with an empty store
+        }
+        this.sessions = sessions;
+        return sessions;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  /**
+   * Write the current sessions to disk
+   * Writes are serialized and go through a temp file so a crash never leaves a partial file
+   */
+  private persist(): Promise<void> {
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const records = [...(this.sessions?.values() ?? [])];
+        const tempPath = `${this.filePath}.tmp`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, JSON.stringify(records), { encoding: 'utf8', mode: 0o600 });
+        await rename(tempPath, this.filePath);
+      });
+    return this.writeQueue;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Session utilities - re-exports all session-related modules
+ */
+
+export * from './store';
+export * from './file-store';
+export * from './crypto';
+export * from './manager';
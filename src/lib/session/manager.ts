@@ -0,0 +1,218 @@
+/**
+ * Session lifecycle helpers
+ * Creates, refreshes and revokes server-side sessions backed by the configured SessionStore
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { TokenResponse } from '../auth';
+import { getCookieOptions } from '../api/security';
+import { COOKIES, SESSION } from '../constants';
+import { decryptSecret, encryptSecret, getSessionHandle } from './crypto';
+import { FileSessionStore } from './file-store';
+import { MemorySessionStore, type SessionRecord, type SessionStore } from './store';
+
+/** Session details safe to return to the client */
+export interface SessionSummary {
+  /** Non-secret handle used to reference the session in revocation requests */
+  handle: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent?: string;
+  /** Whether this is the session making the request */
+  current: boolean;
+}
+
+let sessionStore: SessionStore | null = null;
+
+/**
+ * Create the store configured by SESSION_STORE ('memory' or 'file')
+ */
+function createDefaultStore(): SessionStore {
+  if (import.meta.env.SESSION_STORE === 'file') {
+    return new FileSessionStore(import.meta.env.SESSION_STORE_PATH || SESSION.DEFAULT_FILE_PATH);
+  }
+  return new MemorySessionStore();
+}
+
+/**
+ * Get the active session store, creating the configured default on first use
+ */
+export function getSessionStore(): SessionStore {
+  if (!sessionStore) {
+    sessionStore = createDefaultStore();
+  }
+  return sessionStore;
+}
+
+/**
+ * Check whether sessions survive a restart
+ * Anything but the in-memory store (file, or a custom store such as Redis) counts as persistent.
+ */
+export function isSessionStorePersistent(): boolean {
+  return !(getSessionStore() instanceof MemorySessionStore);
+}
+
+/**
+ * Replace the active session store (e.g. with a Redis-backed implementation)
+ * @param store - The store to use for all subsequent session operations
+ */
+export function setSessionStore(store: SessionStore): void {
+  sessionStore = store;
+}
+
+/**
+ * Generate a cryptographically random session ID
+ */
+export function generateSessionId(): string {
+  return randomBytes(SESSION.ID_BYTES).toString('base64url');
+}
+
+/**
+ * Create and persist a new session from an OAuth token response
+ * @param tokens - Tokens from the authorization code exchange
+ * @param userId - Spotify user ID that owns the session
+ * @param userAgent - Optional user agent for session listings
+ */
+export async function createSession(
+  tokens: TokenResponse,
+  userId: string,
+  userAgent?: string
+): Promise<SessionRecord> {
+  const now = Date.now();
+  const record: SessionRecord = {
+    id: generateSessionId(),
+    userId,
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: now + tokens.expires_in * 1000,
+    encryptedRefreshToken: encryptSecret(tokens.refresh_token),
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + SESSION.MAX_AGE_SECONDS * 1000,
+    userAgent: userAgent?.slice(0, 200),
+  };
+
+  await getSessionStore().set(record);
+  return record;
+}
+
+/**
+ * Look up a session by ID, sliding its expiry forward when it is used
+ * @param sessionId - The session ID from the cookie
+ * @returns The session, or null if missing or expired
+ */
+export async function getSession(sessionId: string): Promise<SessionRecord | null> {
+  const store = getSessionStore();
+  const record = await store.get(sessionId);
+  if (!record) return null;
+
+  // Only write back occasionally to avoid a store write on every request
+  const now = Date.now();
+  if (now - record.lastSeenAt > SESSION.TOUCH_INTERVAL_MS) {
+    record.lastSeenAt = now;
+    record.expiresAt = now + SESSION.MAX_AGE_SECONDS * 1000;
+    await store.set(record);
+  }
+
+  return record;
+}
+
+/**
+ * Store refreshed tokens on an existing session
+ * @param session - The session to update
+ * @param tokens - Tokens from the refresh grant (refresh_token may be omitted)
+ */
+export async function updateSessionTokens(
+  session: SessionRecord,
+  tokens: Pick<TokenResponse, 'access_token' | 'expires_in'> & { refresh_token?: string }
+): Promise<SessionRecord> {
+  const updated: SessionRecord = {
+    ...session,
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: Date.now() + tokens.expires_in * 1000,
+    encryptedRefreshToken: tokens.refresh_token
+      ? encryptSecret(tokens.refresh_token)
+      : session.encryptedRefreshToken,
+  };
+
+  await getSessionStore().set(updated);
+  return updated;
+}
+
+/**
+ * Decrypt the refresh token stored on a session
+ */
+export function getSessionRefreshToken(session: SessionRecord): string {
+  return decryptSecret(session.encryptedRefreshToken);
+}
+
+/**
+ * Invalidate a single session
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  await getSessionStore().delete(sessionId);
+}
+
+/**
+ * List a user's active sessions without exposing session IDs
+ * @param userId - The Spotify user ID
+ * @param currentSessionId - The requesting session, flagged as current
+ */
+export async function listUserSessions(
+  userId: string,
+  currentSessionId?: string
+): Promise<SessionSummary[]> {
+  const sessions = await getSessionStore().listByUser(userId);
+  return sessions
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map(session => ({
+      handle: getSessionHandle(session.id),
+      createdAt: new Date(session.createdAt).toISOString(),
+      lastSeenAt: new Date(session.lastSeenAt).toISOString(),
+      userAgent: session.userAgent,
+      current: session.id === currentSessionId,
+    }));
+}
+
+/**
+ * Revoke one of a user's sessions by its public handle
+ * @returns The revoked session ID, or null if no session matched
+ */
+export async function revokeUserSessionByHandle(userId: string, handle: string): Promise<string | null> {
+  const sessions = await getSessionStore().listByUser(userId);
+  const match = sessions.find(session => getSessionHandle(session.id) === handle);
+  if (!match) return null;
+  await revokeSession(match.id);
+  return match.id;
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping one
+ * @param userId - The Spotify user ID
+ * @param exceptSessionId - Session to keep (usually the current one)
+ * @returns Number of sessions revoked
+ */
+export async function revokeUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const store = getSessionStore();
+  if (!exceptSessionId) {
+    return store.deleteByUser(userId);
+  }
+
+  const sessions = await store.listByUser(userId);
+  const toRevoke = sessions.filter(session => session.id !== exceptSessionId);
+  await Promise.all(toRevoke.map(session => store.delete(session.id)));
+  return toRevoke.length;
+}
+
+/**
+ * Build the Set-Cookie value for a session
+ */
+export function getSessionCookie(sessionId: string): string {
+  return `${COOKIES.SESSION}=${sessionId}; ${getCookieOptions(SESSION.MAX_AGE_SECONDS)}`;
+}
+
+/**
+ * Build a Set-Cookie value that clears the session cookie
+ */
+export function getClearSessionCookie(): string {
+  return `${COOKIES.SESSION}=; ${getCookieOptions(0)}`;
+}
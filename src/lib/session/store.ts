@@ -0,0 +1,114 @@
+/**
+ * Session storage abstraction
+ * Sessions are keyed by an opaque ID stored in the session cookie;
+ * Spotify tokens never leave the server.
+ */
+
+import { SESSION } from '../constants';
+
+export interface SessionRecord {
+  /** Opaque session ID (the value of the session cookie) */
+  id: string;
+  /** Spotify user ID that owns this session */
+  userId: string;
+  /** Current Spotify access token */
+  accessToken: string;
+  /** When the access token expires (epoch ms) */
+  accessTokenExpiresAt: number;
+  /** Refresh token, encrypted with the session secret */
+  encryptedRefreshToken: string;
+  /** When the session was created (epoch ms) */
+  createdAt: number;
+  /** When the session was last used (epoch ms) */
+  lastSeenAt: number;
+  /** When the session expires if unused (epoch ms) */
+  expiresAt: number;
+  /** User agent that created the session, for session listings */
+  userAgent?: string;
+}
+
+/**
+ * Pluggable persistence for sessions
+ * Implementations must treat expired records as missing.
+ */
+export interface SessionStore {
+  /** Get a session by ID, or null if missing/expired */
+  get(id: string): Promise<SessionRecord | null>;
+  /** Create or replace a session */
+  set(record: SessionRecord): Promise<void>;
+  /** Delete a session by ID */
+  delete(id: string): Promise<void>;
+  /** List all active sessions for a user */
+  listByUser(userId: string): Promise<SessionRecord[]>;
+  /** Delete all sessions for a user, returning the number removed */
+  deleteByUser(userId: string): Promise<number>;
+}
+
+/**
+ * Check whether a session record has expired
+ */
+export function isSessionExpired(record: SessionRecord, now = Date.now()): boolean {
+  return now > record.expiresAt;
+}
+
+/**
+ * In-memory session store
+ * Note: sessions are lost on restart and not shared between instances
+ */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionRecord>();
+
+  constructor() {
+    // Clean up expired sessions periodically
+    if (typeof setInterval !== 'undefined') {
+      const timer = setInterval(() => this.purgeExpired(), SESSION.CLEANUP_INTERVAL_MS);
+      // Don't keep the process alive just for cleanup
+      (timer as { unref?: () => void }).unref?.();
+    }
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const record = this.sessions.get(id);
+    if (!record) return null;
+    if (isSessionExpired(record)) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return { ...record };
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    this.sessions.set(record.id, { ...record });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async listByUser(userId: string): Promise<SessionRecord[]> {
+    const now = Date.now();
+    return [...this.sessions.values()]
+      .filter(record => record.userId === userId && !isSessionExpired(record, now))
+      .map(record => ({ ...record }));
+  }
+
+  async deleteByUser(userId: string): Promise<number> {
+    let removed = 0;
+    for (const [id, record] of this.sessions.entries()) {
+      if (record.userId === userId) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [id, record] of this.sessions.entries()) {
+      if (isSessionExpired(record, now)) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { SPOTIFY_API, PAGINATION, VALIDATION } from './constants';
+
 const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
 
 export interface SpotifyImage {
@@ -30,6 +32,10 @@ export interface SpotifyTrack {
   external_urls: {
     spotify: string;
   };
+  /** Industry identifiers (full track objects only) */
+  external_ids?: {
+    isrc?: string;
+  };
 }
 
 export interface SpotifyPlaylist {
@@ -43,6 +49,12 @@ export interface SpotifyPlaylist {
   tracks: {
     total: number;
   };
+  description?: string | null;
+  external_urls?: {
+    spotify: string;
+  };
+  /** Version identifier for the playlist's contents */
+  snapshot_id?: string;
 }
 
 export interface SearchResponse {
@@ -59,6 +71,183 @@ export interface PlaylistsResponse {
   total: number;
   limit: number;
   offset: number;
+  next: string | null;
+}
+
+/** Generic Spotify paging object returned by list endpoints */
+export interface SpotifyPaging<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+  next: string | null;
+}
+
+/** An item in a playlist (track is null for removed/unavailable tracks) */
+export interface PlaylistItem {
+  track: SpotifyTrack | null;
+  added_at: string;
+}
+
+/** A track in the user's Liked Songs */
+export interface SavedTrack {
+  track: SpotifyTrack;
+  added_at: string;
+}
+
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Error thrown when the Spotify Web API returns a non-OK response
+ * Carries enough metadata for API routes to map it to a proper HTTP response
+ */
+export class SpotifyApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status returned by Spotify */
+    public status: number,
+    /** Spotify reason code (e.g. NO_ACTIVE_DEVICE, PREMIUM_REQUIRED) if provided */
+    public reason?: string,
+    /** Milliseconds the caller should wait before retrying, if known */
+    public retryAfterMs?: number,
+    /** Number of attempts made before giving up */
+    public attempts: number = 1
+  ) {
+    super(message);
+    this.name = 'SpotifyApiError';
+  }
+
+  /** Whether the request may succeed if retried later */
+  get isRetryable(): boolean {
+    return this.status === 429 || SPOTIFY_API.RETRYABLE_STATUSES.includes(this.status);
+  }
+
+  static isSpotifyApiError(error: unknown): error is SpotifyApiError {
+    return error instanceof SpotifyApiError;
+  }
+}
+
+// =============================================================================
+// Token Refresh
+// =============================================================================
+
+/**
+ * Gets a replacement for an access token Spotify rejected with a 401
+ * @returns The new token, or null if it can't be refreshed
+ */
+export type TokenRefresher = (rejectedToken: string) => Promise<string | null>;
+
+let tokenRefresher: TokenRefresher | null = null;
+
+/**
+ * Set how rejected access tokens are replaced
+ * Registered by the auth layer, which knows which session issued each token.
+ * @param refresher - The refresher, or null to surface 401s directly
+ */
+export function setTokenRefresher(refresher: TokenRefresher | null): void {
+  tokenRefresher = refresher;
+}
+
+// =============================================================================
+// Request Scheduling
+// =============================================================================
+
+interface TokenSlots {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+// Per-token concurrency limiter so bulk operations don't trip Spotify's rate limits
+const tokenSlots = new Map<string, TokenSlots>();
+
+async function acquireSlot(token: string): Promise<void> {
+  let slots = tokenSlots.get(token);
+  if (!slots) {
+    slots = { active: 0, waiting: [] };
+    tokenSlots.set(token, slots);
+  }
+
+  if (slots.active < SPOTIFY_API.MAX_CONCURRENT_PER_TOKEN) {
+    slots.active++;
+    return;
+  }
+
+  // Slot is handed over directly by releaseSlot, so active stays constant
+  await new Promise<void>((resolve) => slots!.waiting.push(resolve));
+}
+
+function releaseSlot(token: string): void {
+  const slots = tokenSlots.get(token);
+  if (!slots) return;
+
+  const next = slots.waiting.shift();
+  if (next) {
+    next();
+    return;
+  }
+
+  slots.active--;
+  if (slots.active === 0) {
+    tokenSlots.delete(token);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(SPOTIFY_API.BACKOFF_MAX_MS, SPOTIFY_API.BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Build a SpotifyApiError from a failed response body
+ */
+function createSpotifyError(
+  response: Response,
+  text: string,
+  retryAfterMs: number | undefined,
+  attempts: number
+): SpotifyApiError {
+  // Try to parse error as JSON, but handle non-JSON responses
+  let errorMessage = `Spotify API error: ${response.status}`;
+  let reason: string | undefined;
+  if (text) {
+    try {
+      const error = JSON.parse(text);
+      errorMessage = error.error?.message || errorMessage;
+      reason = error.error?.reason;
+    } catch {
+      // Response is not JSON, use status text
+      errorMessage = `Spotify API error: ${response.status} ${response.statusText}`;
+    }
+  }
+  return new SpotifyApiError(errorMessage, response.status, reason, retryAfterMs, attempts);
 }
 
 async function spotifyFetch<T>(
@@ -66,44 +255,110 @@ async function spotifyFetch<T>(
   token: string,
   options: RequestInit = {}
 ): Promise<T> {
-  const response = await fetch(`${SPOTIFY_API_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-      ...options.headers,
-    },
-  });
+  const idempotent = SPOTIFY_API.IDEMPOTENT_METHODS.includes((options.method ?? 'GET').toUpperCase());
+  let currentToken = token;
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    let text: string;
+
+    await acquireSlot(currentToken);
+    try {
+      response = await fetch(`${SPOTIFY_API_BASE}${endpoint}`, {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${currentToken}`,
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+      });
+
+      // Some endpoints return 200/204 with no content
+      text = await response.text();
+    } finally {
+      releaseSlot(currentToken);
+    }
+
+    // Spotify rejected the token (revoked or clock skew) - refresh once and replay only this request,
+    // which Spotify didn't apply. Doesn't count as a retry.
+    if (response.status === 401 && !refreshed && tokenRefresher) {
+      const replacement = await tokenRefresher(currentToken);
+      if (replacement) {
+        currentToken = replacement;
+        refreshed = true;
+        attempt--;
+        continue;
+      }
+    }
 
-  // Some endpoints return 200/204 with no content
-  const text = await response.text();
-
-  if (!response.ok) {
-    // Try to parse error as JSON, but handle non-JSON responses
-    let errorMessage = `Spotify API error: ${response.status}`;
-    if (text) {
-      try {
-        const error = JSON.parse(text);
-        errorMessage = error.error?.message || errorMessage;
-      } catch {
-        // Response is not JSON, use status text
-        errorMessage = `Spotify API error: ${response.status} ${response.statusText}`;
+    if (!response.ok) {
+      const canRetry = attempt < SPOTIFY_API.MAX_RETRIES;
+      let retryAfterMs: number | undefined;
+
+      if (response.status === 429) {
+        // Honour Retry-After, but don't hold the request open for too long
+        retryAfterMs = parseRetryAfter(response.headers.get('Retry-After')) ?? getBackoffDelay(attempt);
+        if (canRetry && retryAfterMs <= SPOTIFY_API.MAX_RETRY_AFTER_MS) {
+          await sleep(retryAfterMs);
+          continue;
+        }
+      } else if (SPOTIFY_API.RETRYABLE_STATUSES.includes(response.status) && canRetry && idempotent) {
+        await sleep(getBackoffDelay(attempt));
+        continue;
       }
+
+      throw createSpotifyError(response, text, retryAfterMs, attempt + 1);
+    }
+
+    if (!text) {
+      return {} as T;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      // If response is OK but not valid JSON, return empty object
+      // This can happen with some Spotify endpoints that return non-JSON success responses
+      return {} as T;
     }
-    throw new Error(errorMessage);
   }
+}
+
+/**
+ * Walk a paginated Spotify endpoint by following `next` links
+ * Yields one page of items at a time so callers can stream or stop early
+ * @param endpoint - The first page endpoint (relative to the API base)
+ * @param token - The access token
+ */
+async function* paginate<T>(endpoint: string, token: string): AsyncGenerator<T[], void, undefined> {
+  let next: string | null = endpoint;
+
+  while (next) {
+    const page: SpotifyPaging<T> = await spotifyFetch<SpotifyPaging<T>>(next, token);
+    yield page.items ?? [];
 
-  if (!text) {
-    return {} as T;
+    // `next` is an absolute URL; spotifyFetch expects a path relative to the API base
+    next = page.next?.startsWith(SPOTIFY_API_BASE)
+      ? page.next.slice(SPOTIFY_API_BASE.length)
+      : null;
   }
+}
 
-  try {
-    return JSON.parse(text);
-  } catch {
-    // If response is OK but not valid JSON, return empty object
-    // This can happen with some Spotify endpoints that return non-JSON success responses
-    return {} as T;
+/**
+ * Collect pages from a paginator into a single array
+ * @param pages - Async iterable of item pages
+ * @param limit - Optional maximum number of items to collect
+ */
+export async function collectPages<T>(pages: AsyncIterable<T[]>, limit = Infinity): Promise<T[]> {
+  const items: T[] = [];
+  for await (const page of pages) {
+    items.push(...page);
+    if (items.length >= limit) {
+      return items.slice(0, limit);
+    }
   }
+  return items;
 }
 
 export async function searchTracks(
@@ -155,6 +410,27 @@ export async function removeTrack(trackId: string, token: string): Promise<void>
   });
 }
 
+/**
+ * Remove multiple tracks from Liked Songs (max 50 at a time)
+ * @param trackIds - Array of track IDs to remove
+ * @param token - The access token
+ */
+export async function removeTracks(trackIds: string[], token: string): Promise<void> {
+  const chunks: string[][] = [];
+  for (let i = 0; i < trackIds.length; i += VALIDATION.MAX_SAVE_TRACK_IDS) {
+    chunks.push(trackIds.slice(i, i + VALIDATION.MAX_SAVE_TRACK_IDS));
+  }
+
+  await Promise.all(
+    chunks.map(chunk =>
+      spotifyFetch<void>('/me/tracks', token, {
+        method: 'DELETE',
+        body: JSON.stringify({ ids: chunk }),
+      })
+    )
+  );
+}
+
 export async function checkSavedTracks(
   trackIds: string[],
   token: string
@@ -175,14 +451,209 @@ export async function getPlaylists(
   return spotifyFetch<PlaylistsResponse>(`/me/playlists?${params}`, token);
 }
 
+/**
+ * Iterate over all of the current user's playlists, one page at a time
+ * @param token - The access token
+ */
+export function iteratePlaylists(token: string): AsyncGenerator<SpotifyPlaylist[], void, undefined> {
+  const params = new URLSearchParams({
+    limit: PAGINATION.PLAYLISTS_PAGE_SIZE.toString(),
+  });
+  return paginate<SpotifyPlaylist>(`/me/playlists?${params}`, token);
+}
+
+/**
+ * Iterate over all tracks in the user's Liked Songs, one page at a time
+ * @param token - The access token
+ */
+export function iterateSavedTracks(token: string): AsyncGenerator<SavedTrack[], void, undefined> {
+  const params = new URLSearchParams({
+    limit: PAGINATION.SAVED_TRACKS_PAGE_SIZE.toString(),
+  });
+  return paginate<SavedTrack>(`/me/tracks?${params}`, token);
+}
+
+/**
+ * Add tracks to a playlist in a single request (max 100 URIs)
+ * @param playlistId - The Spotify playlist ID
+ * @param trackUri - One track URI or several, in order
+ * @param token - The access token
+ * @param position - Zero-based index to insert at (appends when omitted)
+ * @returns The playlist's new snapshot ID
+ */
 export async function addToPlaylist(
   playlistId: string,
-  trackUri: string,
+  trackUri: string | string[],
+  token: string,
+  position?: number
+): Promise<string> {
+  const uris = Array.isArray(trackUri) ? trackUri : [trackUri];
+  const result = await spotifyFetch<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, token, {
+    method: 'POST',
+    body: JSON.stringify(position === undefined ? { uris } : { uris, position }),
+  });
+  return result.snapshot_id;
+}
+
+/**
+ * Remove every occurrence of the given tracks from a playlist, 100 URIs per request
+ * @param playlistId - The Spotify playlist ID
+ * @param uris - Track URIs to remove
+ * @param token - The access token
+ * @param snapshotId - Playlist version the removal applies to (latest when omitted)
+ * @returns The playlist's new snapshot ID
+ */
+export async function removeFromPlaylist(
+  playlistId: string,
+  uris: string[],
+  token: string,
+  snapshotId?: string
+): Promise<string | null> {
+  let snapshot = snapshotId ?? null;
+  for (let offset = 0; offset < uris.length; offset += VALIDATION.MAX_PLAYLIST_ADD_URIS) {
+    const batch = uris.slice(offset, offset + VALIDATION.MAX_PLAYLIST_ADD_URIS);
+    const result = await spotifyFetch<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, token, {
+      method: 'DELETE',
+      body: JSON.stringify({
+        tracks: batch.map((uri) => ({ uri })),
+        ...(snapshot ? { snapshot_id: snapshot } : {}),
+      }),
+    });
+    snapshot = result.snapshot_id;
+  }
+  return snapshot;
+}
+
+/**
+ * Remove specific occurrences of tracks from a playlist, leaving other copies in place
+ * Batches run from the end of the playlist backwards, so earlier positions stay valid
+ * as each batch's snapshot is passed to the next.
+ * @param playlistId - The Spotify playlist ID
+ * @param items - Track URIs with the zero-based positions to remove
+ * @param snapshotId - Playlist version the positions refer to
+ * @param token - The access token
+ * @returns The playlist's new snapshot ID
+ */
+export async function removePlaylistPositions(
+  playlistId: string,
+  items: { uri: string; position: number }[],
+  snapshotId: string,
   token: string
-): Promise<void> {
-  await spotifyFetch<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, token, {
+): Promise<string> {
+  const ordered = [...items].sort((a, b) => b.position - a.position);
+  let snapshot = snapshotId;
+  for (let offset = 0; offset < ordered.length; offset += VALIDATION.MAX_PLAYLIST_ADD_URIS) {
+    const positionsByUri = new Map<string, number[]>();
+    for (const { uri, position } of ordered.slice(offset, offset + VALIDATION.MAX_PLAYLIST_ADD_URIS)) {
+      positionsByUri.set(uri, [...(positionsByUri.get(uri) ?? []), position]);
+    }
+    const result = await spotifyFetch<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, token, {
+      method: 'DELETE',
+      body: JSON.stringify({
+        tracks: [...positionsByUri].map(([uri, positions]) => ({ uri, positions })),
+        snapshot_id: snapshot,
+      }),
+    });
+    snapshot = result.snapshot_id;
+  }
+  return snapshot;
+}
+
+/**
+ * Move a range of playlist items to a new position
+ * @param playlistId - The Spotify playlist ID
+ * @param move - Zero-based start of the range, the index to insert it before, and its length
+ * @param token - The access token
+ * @param snapshotId - Playlist version the move applies to (latest when omitted)
+ * @returns The playlist's new snapshot ID
+ */
+export async function reorderPlaylistItems(
+  playlistId: string,
+  move: { rangeStart: number; insertBefore: number; rangeLength?: number },
+  token: string,
+  snapshotId?: string
+): Promise<string> {
+  const result = await spotifyFetch<{ snapshot_id: string }>(`/playlists/${playlistId}/tracks`, token, {
+    method: 'PUT',
+    body: JSON.stringify({
+      range_start: move.rangeStart,
+      insert_before: move.insertBefore,
+      range_length: move.rangeLength ?? 1,
+      ...(snapshotId ? { snapshot_id: snapshotId } : {}),
+    }),
+  });
+  return result.snapshot_id;
+}
+
+/** Outcome of adding tracks to a playlist across several requests */
+export interface BatchAddResult {
+  added: number;
+  /** URIs that made it into the playlist, in order */
+  addedUris: string[];
+  /** Zero-based positions of addedUris as of snapshotId */
+  addedPositions: number[];
+  /** Snapshot ID after the last successful batch */
+  snapshotId: string | null;
+  /** Batches Spotify rejected; offsets index into the requested URIs */
+  failed: { offset: number; count: number; error: string }[];
+}
+
+/**
+ * Add any number of tracks to a playlist in 100-URI batches, keeping their order
+ * Batches run one at a time; a rejected batch is recorded and the rest still run
+ * @param playlistId - The Spotify playlist ID
+ * @param uris - Track URIs in the order they should appear
+ * @param token - The access token
+ * @param position - Zero-based index to insert at (appends when omitted)
+ */
+export async function addToPlaylistInBatches(
+  playlistId: string,
+  uris: string[],
+  token: string,
+  position?: number
+): Promise<BatchAddResult> {
+  const result: BatchAddResult = { added: 0, addedUris: [], addedPositions: [], snapshotId: null, failed: [] };
+  if (uris.length === 0) return result;
+
+  // Appends are pinned to the current length so each added track's position is known
+  const start = position ?? (await getPlaylist(playlistId, token)).tracks.total;
+
+  for (let offset = 0; offset < uris.length; offset += VALIDATION.MAX_PLAYLIST_ADD_URIS) {
+    const batch = uris.slice(offset, offset + VALIDATION.MAX_PLAYLIST_ADD_URIS);
+    try {
+      // Earlier batches shift the insertion point for later ones
+      const insertAt = start + result.added;
+      result.snapshotId = await addToPlaylist(playlistId, batch, token, insertAt);
+      result.added += batch.length;
+      result.addedUris.push(...batch);
+      result.addedPositions.push(...batch.map((_, i) => insertAt + i));
+    } catch (error) {
+      if (!SpotifyApiError.isSpotifyApiError(error)) throw error;
+      result.failed.push({ offset, count: batch.length, error: error.message });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Create a playlist owned by the current user
+ * @param name - Playlist name
+ * @param options - Optional description and visibility (private by default)
+ * @param token - The access token
+ */
+export async function createPlaylist(
+  name: string,
+  options: { description?: string; isPublic?: boolean },
+  token: string
+): Promise<SpotifyPlaylist> {
+  return spotifyFetch<SpotifyPlaylist>('/me/playlists', token, {
     method: 'POST',
-    body: JSON.stringify({ uris: [trackUri] }),
+    body: JSON.stringify({
+      name,
+      description: options.description ?? '',
+      public: options.isPublic ?? false,
+    }),
   });
 }
 
@@ -308,6 +779,20 @@ export async function getTrackById(trackId: string, token: string): Promise<Spot
   return spotifyFetch<SpotifyTrack>(`/tracks/${trackId}`, token);
 }
 
+/**
+ * Look up several tracks by ID (max 50 at a time)
+ * @param trackIds - Track IDs to look up
+ * @param token - The access token
+ * @returns Tracks in the same order as the IDs; null where Spotify has no such track
+ */
+export async function getTracks(trackIds: string[], token: string): Promise<(SpotifyTrack | null)[]> {
+  const params = new URLSearchParams({
+    ids: trackIds.join(','),
+  });
+  const response = await spotifyFetch<{ tracks: (SpotifyTrack | null)[] }>(`/tracks?${params}`, token);
+  return response.tracks;
+}
+
 export interface SpotifyUser {
   id: string;
   display_name: string | null;
@@ -331,10 +816,7 @@ export interface CurrentlyPlaying {
 }
 
 export interface PlaylistTracksResponse {
-  items: Array<{
-    track: SpotifyTrack | null;
-    added_at: string;
-  }>;
+  items: PlaylistItem[];
   total: number;
   limit: number;
   offset: number;
@@ -359,23 +841,101 @@ export async function getPlaylistTracks(
   return spotifyFetch<PlaylistTracksResponse>(`/playlists/${playlistId}/tracks?${params}`, token);
 }
 
+/**
+ * Get a playlist's details, without its items
+ * @param playlistId - The Spotify playlist ID
+ * @param token - The access token
+ */
+export async function getPlaylist(playlistId: string, token: string): Promise<SpotifyPlaylist> {
+  const params = new URLSearchParams({
+    fields: 'id,name,description,images,owner(id,display_name),tracks(total),external_urls,snapshot_id',
+  });
+  return spotifyFetch<SpotifyPlaylist>(`/playlists/${playlistId}?${params}`, token);
+}
+
+/**
+ * Get one page of a playlist's items with full track details
+ * @param playlistId - The Spotify playlist ID
+ * @param token - The access token
+ * @param offset - Index of the first item
+ * @param limit - Items per page (Spotify max: 100)
+ */
+export async function getPlaylistItems(
+  playlistId: string,
+  token: string,
+  offset = 0,
+  limit: number = PAGINATION.PLAYLIST_ITEMS_PAGE_SIZE
+): Promise<SpotifyPaging<PlaylistItem>> {
+  const params = new URLSearchParams({
+    offset: offset.toString(),
+    limit: Math.min(limit, PAGINATION.PLAYLIST_ITEMS_PAGE_SIZE).toString(),
+  });
+  return spotifyFetch<SpotifyPaging<PlaylistItem>>(`/playlists/${playlistId}/tracks?${params}`, token);
+}
+
+/** Playlist item fields needed when only track IDs matter */
+export const PLAYLIST_ITEM_ID_FIELDS = 'items(track(id)),next';
+
+/**
+ * Iterate over every item in a playlist, one page at a time
+ * @param playlistId - The Spotify playlist ID
+ * @param token - The access token
+ * @param fields - Optional Spotify field filter (must include `next` to paginate)
+ */
+export function iteratePlaylistItems(
+  playlistId: string,
+  token: string,
+  fields?: string
+): AsyncGenerator<PlaylistItem[], void, undefined> {
+  const params = new URLSearchParams({
+    limit: PAGINATION.PLAYLIST_ITEMS_PAGE_SIZE.toString(),
+  });
+  if (fields) {
+    params.set('fields', fields);
+  }
+  return paginate<PlaylistItem>(`/playlists/${playlistId}/tracks?${params}`, token);
+}
+
+/**
+ * Collect the IDs of every track in a playlist
+ * @param playlistId - The Spotify playlist ID
+ * @param token - The access token
+ */
+export async function getPlaylistTrackIds(playlistId: string, token: string): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for await (const items of iteratePlaylistItems(playlistId, token, PLAYLIST_ITEM_ID_FIELDS)) {
+    for (const item of items) {
+      if (item.track?.id) ids.add(item.track.id);
+    }
+  }
+  return ids;
+}
+
 /**
  * Check if a track exists in a playlist
+ * Walks every page of the playlist, stopping as soon as the track is found
  * @param playlistId - The Spotify playlist ID
  * @param trackId - The track ID to check
  * @param token - The access token
+ * @param signal - Optional signal that stops the walk early (resolving false)
  * @returns true if the track is in the playlist
  */
 export async function isTrackInPlaylist(
   playlistId: string,
   trackId: string,
-  token: string
+  token: string,
+  signal?: AbortSignal
 ): Promise<boolean> {
-  // Fetch first 100 tracks and check
-  // For very large playlists, this might miss tracks beyond 100
-  // but it's a reasonable trade-off for performance
-  const response = await getPlaylistTracks(playlistId, token, 100);
-  return response.items.some(item => item.track?.id === trackId);
+  for await (const items of iteratePlaylistItems(playlistId, token, PLAYLIST_ITEM_ID_FIELDS)) {
+    if (items.some(item => item.track?.id === trackId)) {
+      return true;
+    }
+    // Nobody is waiting for the answer any more - stop walking pages
+    if (signal?.aborted) {
+      return false;
+    }
+  }
+  return false;
 }
 
 export async function getCurrentlyPlaying(token: string): Promise<CurrentlyPlaying | null> {
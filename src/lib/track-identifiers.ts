@@ -0,0 +1,66 @@
+/**
+ * Track identifier detection
+ * Finds Spotify track URIs/links and ISRCs in pasted lines and CSV cells, so imports can
+ * look tracks up directly instead of searching on their titles.
+ */
+
+// spotify:track:ID, or an open.spotify.com track link (optionally with an intl-xx segment and query)
+const SPOTIFY_TRACK_PATTERN = /(?:spotify:track:|https?:\/\/open\.spotify\.com\/(?:[a-z-]+\/)?track\/)([a-zA-Z0-9]{22})(?:\?\S*)?/;
+const SPOTIFY_ID_PATTERN = /^[a-zA-Z0-9]{22}$/;
+
+// Upper-case only, so ordinary words and numbers in titles aren't taken for ISRCs
+const ISRC_PATTERN = /(?:\bisrc:\s*)?\b([A-Z]{2}-?[A-Z0-9]{3}-?\d{2}-?\d{5})\b/i;
+const ISRC_STRICT_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+/** Identifiers found in a line of text */
+export interface TrackIdentifiers {
+  /** Spotify track URI (spotify:track:ID) */
+  spotifyUri?: string;
+  isrc?: string;
+  /** The line with the identifiers taken out */
+  rest: string;
+}
+
+/**
+ * Normalize a Spotify track URI, open.spotify.com link or bare track ID
+ * @returns The `spotify:track:ID` URI, or undefined if the value isn't one
+ */
+export function toSpotifyTrackUri(value: string): string | undefined {
+  const trimmed = value.trim();
+  const id = SPOTIFY_ID_PATTERN.test(trimmed) ? trimmed : trimmed.match(SPOTIFY_TRACK_PATTERN)?.[1];
+  return id ? `spotify:track:${id}` : undefined;
+}
+
+/**
+ * Normalize an ISRC: upper-case, hyphens removed
+ * @returns The ISRC, or undefined if the value isn't one
+ */
+export function normalizeIsrc(value: string): string | undefined {
+  const isrc = value.trim().replace(/^isrc:\s*/i, '').replace(/-/g, '').toUpperCase();
+  return ISRC_STRICT_PATTERN.test(isrc) ? isrc : undefined;
+}
+
+/**
+ * Find a Spotify track URI/link and an ISRC anywhere in a line
+ * ISRCs are only recognized in upper case (or after an `isrc:` prefix).
+ */
+export function extractTrackIdentifiers(line: string): TrackIdentifiers {
+  let rest = line;
+  const identifiers: TrackIdentifiers = { rest };
+
+  const spotifyMatch = rest.match(SPOTIFY_TRACK_PATTERN);
+  if (spotifyMatch) {
+    identifiers.spotifyUri = `spotify:track:${spotifyMatch[1]}`;
+    rest = rest.replace(spotifyMatch[0], ' ');
+  }
+
+  const isrcMatch = rest.match(ISRC_PATTERN);
+  if (isrcMatch && (/^isrc:/i.test(isrcMatch[0]) || isrcMatch[1] === isrcMatch[1].toUpperCase())) {
+    identifiers.isrc = normalizeIsrc(isrcMatch[1]);
+    if (identifiers.isrc) rest = rest.replace(isrcMatch[0], ' ');
+  }
+
+  // Drop separators left dangling where the identifiers were
+  identifiers.rest = rest.replace(/\s+/g, ' ').replace(/^[\s,;|-]+|[\s,;|-]+$/g, '').trim();
+  return identifiers;
+}
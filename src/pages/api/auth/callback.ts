@@ -1,5 +1,7 @@
 import type { APIRoute } from 'astro';
-import { exchangeCodeForTokens, parseCookies } from '../../../lib/auth';
+import { exchangeCodeForTokens, parseCookies, isPkceEnabled, isValidCodeVerifier } from '../../../lib/auth';
+import { getCurrentUser } from '../../../lib/spotify';
+import { createSession, getSessionCookie } from '../../../lib/session';
 import { getCookieOptions } from '../../../lib/api/security';
 import { COOKIES } from '../../../lib/constants';
 
@@ -32,6 +34,17 @@ export const GET: APIRoute = async ({ request }) => {
     });
   }
 
+  // PKCE: the verifier set at login must still be present
+  const codeVerifier = cookies[COOKIES.AUTH_VERIFIER];
+  if (isPkceEnabled() && !isValidCodeVerifier(codeVerifier)) {
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: '/?error=verifier_mismatch',
+      },
+    });
+  }
+
   if (!code) {
     return new Response(null, {
       status: 302,
@@ -42,22 +55,30 @@ export const GET: APIRoute = async ({ request }) => {
   }
 
   try {
-    const tokens = await exchangeCodeForTokens(code);
+    const tokens = await exchangeCodeForTokens(code, isPkceEnabled() ? codeVerifier : undefined);
+    const user = await getCurrentUser(tokens.access_token);
+
+    // Tokens stay on the server; the browser only gets an opaque session ID
+    const session = await createSession(
+      tokens,
+      user.id,
+      request.headers.get('user-agent') || undefined
+    );
 
     const headers = new Headers();
     headers.append('Location', '/');
+    headers.append('Set-Cookie', getSessionCookie(session.id));
+    // Clear any legacy token cookies
+    headers.append('Set-Cookie', `${COOKIES.ACCESS_TOKEN}=; ${getCookieOptions(0)}`);
+    headers.append('Set-Cookie', `${COOKIES.REFRESH_TOKEN}=; ${getCookieOptions(0)}`);
+    // Clear the state and verifier cookies
     headers.append(
       'Set-Cookie',
-      `${COOKIES.ACCESS_TOKEN}=${tokens.access_token}; ${getCookieOptions(tokens.expires_in)}`
-    );
-    headers.append(
-      'Set-Cookie',
-      `${COOKIES.REFRESH_TOKEN}=${tokens.refresh_token}; ${getCookieOptions(COOKIES.REFRESH_TOKEN_MAX_AGE)}`
+      `${COOKIES.AUTH_STATE}=; ${getCookieOptions(0)}`
     );
-    // Clear the state cookie
     headers.append(
       'Set-Cookie',
-      `${COOKIES.AUTH_STATE}=; ${getCookieOptions(0)}`
+      `${COOKIES.AUTH_VERIFIER}=; ${getCookieOptions(0)}`
     );
 
     return new Response(null, {
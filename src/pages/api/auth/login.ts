@@ -1,18 +1,32 @@
 import type { APIRoute } from 'astro';
-import { getAuthUrl, generateState } from '../../../lib/auth';
+import {
+  getAuthUrl,
+  generateState,
+  isPkceEnabled,
+  generateCodeVerifier,
+  generateCodeChallenge,
+} from '../../../lib/auth';
 import { getCookieOptions } from '../../../lib/api/security';
 import { COOKIES } from '../../../lib/constants';
 
 export const GET: APIRoute = async () => {
   const state = generateState();
+  const headers = new Headers();
+  headers.append('Set-Cookie', `${COOKIES.AUTH_STATE}=${state}; ${getCookieOptions(COOKIES.AUTH_STATE_MAX_AGE)}`);
+
+  // PKCE: keep the verifier in a short-lived cookie and send only its challenge to Spotify
+  let codeChallenge: string | undefined;
+  if (isPkceEnabled()) {
+    const codeVerifier = generateCodeVerifier();
+    codeChallenge = generateCodeChallenge(codeVerifier);
+    headers.append('Set-Cookie', `${COOKIES.AUTH_VERIFIER}=${codeVerifier}; ${getCookieOptions(COOKIES.AUTH_STATE_MAX_AGE)}`);
+  }
+
   // Force consent dialog to ensure users authorize new scopes (e.g., playback control)
-  const authUrl = getAuthUrl(state, true);
+  headers.set('Location', getAuthUrl(state, true, codeChallenge));
 
   return new Response(null, {
     status: 302,
-    headers: {
-      Location: authUrl,
-      'Set-Cookie': `${COOKIES.AUTH_STATE}=${state}; ${getCookieOptions(COOKIES.AUTH_STATE_MAX_AGE)}`,
-    },
+    headers,
   });
 };
@@ -1,11 +1,24 @@
 import type { APIRoute } from 'astro';
+import { getSessionIdFromCookies } from '../../../lib/auth';
+import { revokeSession, getClearSessionCookie } from '../../../lib/session';
 import { COOKIES } from '../../../lib/constants';
 import { getCookieOptions } from '../../../lib/api/security';
 
-export const GET: APIRoute = async () => {
+export const GET: APIRoute = async ({ request }) => {
+  // Invalidate the server-side session so the cookie can't be replayed
+  const sessionId = getSessionIdFromCookies(request.headers.get('cookie'));
+  if (sessionId) {
+    try {
+      await revokeSession(sessionId);
+    } catch (err) {
+      console.error('Session revocation error:', err);
+    }
+  }
+
   const headers = new Headers();
   headers.append('Location', '/');
   // Clear cookies by setting Max-Age=0
+  headers.append('Set-Cookie', getClearSessionCookie());
   headers.append(
     'Set-Cookie',
     `${COOKIES.ACCESS_TOKEN}=; ${getCookieOptions(0)}`
@@ -14,6 +27,11 @@ export const GET: APIRoute = async () => {
     'Set-Cookie',
     `${COOKIES.REFRESH_TOKEN}=; ${getCookieOptions(0)}`
   );
+  // Drop any PKCE verifier left by an unfinished login
+  headers.append(
+    'Set-Cookie',
+    `${COOKIES.AUTH_VERIFIER}=; ${getCookieOptions(0)}`
+  );
 
   return new Response(null, {
     status: 302,
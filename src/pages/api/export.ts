@@ -0,0 +1,50 @@
+import { collectExport, exportFileName, isExportFormat, EXPORT_FORMATS, type ExportSource } from '../../lib/export';
+import { withApiHandler, validatePlaylistId, errorResponse } from '../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS } from '../../lib/constants';
+
+// Download Liked Songs (?source=liked) or a playlist (?source=playlist&id=) as CSV, JSON, M3U or XSPF
+export const GET = withApiHandler(
+  async ({ context, token, headers, logger }) => {
+    const params = context.url.searchParams;
+    const format = params.get('format') ?? 'csv';
+    if (!isExportFormat(format)) {
+      logger.info(400);
+      return errorResponse(`Unsupported format. Use one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`, 400);
+    }
+
+    let source: ExportSource;
+    switch (params.get('source')) {
+      case 'liked':
+        source = { kind: 'liked' };
+        break;
+      case 'playlist': {
+        const playlistId = params.get('id');
+        const playlistValidation = validatePlaylistId(playlistId);
+        if (!playlistValidation.valid) {
+          logger.info(400);
+          return errorResponse(playlistValidation.error!, 400);
+        }
+        source = { kind: 'playlist', playlistId: playlistId! };
+        break;
+      }
+      default:
+        logger.info(400);
+        return errorResponse('source must be "liked" or "playlist"', 400);
+    }
+
+    const collection = await collectExport(source, token);
+    const { contentType, serialize } = EXPORT_FORMATS[format];
+
+    headers.set('Content-Type', contentType);
+    headers.set('Content-Disposition', `attachment; filename="${exportFileName(collection.name, format)}"`);
+    headers.set('Cache-Control', 'no-store');
+
+    logger.info(200);
+    return new Response(serialize(collection), { headers });
+  },
+  {
+    path: API_PATHS.EXPORT,
+    method: 'GET',
+    rateLimit: RATE_LIMIT.EXPORT,
+  }
+);
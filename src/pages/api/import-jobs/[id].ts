@@ -0,0 +1,54 @@
+import { cancelImportJob, getImportJob, toImportJobView } from '../../../lib/jobs';
+import { withApiHandler, errorResponse } from '../../../lib/api-utils';
+import { API_PATHS, IMPORT } from '../../../lib/constants';
+
+/**
+ * Parse a non-negative integer query parameter
+ */
+function parseCount(value: string | null, fallback: number): number {
+  const parsed = value === null ? NaN : Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Get job progress and per-track results (?offset=&limit= pages through results)
+export const GET = withApiHandler(
+  async ({ context, userId, headers, logger }) => {
+    const job = await getImportJob(context.params.id ?? '', userId);
+    if (!job) {
+      logger.info(404);
+      return errorResponse('Import job not found', 404);
+    }
+
+    const { searchParams } = context.url;
+    const offset = parseCount(searchParams.get('offset'), 0);
+    const limit = Math.min(
+      parseCount(searchParams.get('limit'), IMPORT.JOB_RESULTS_PAGE_SIZE),
+      IMPORT.JOB_RESULTS_PAGE_SIZE
+    );
+
+    logger.info(200);
+    return new Response(JSON.stringify({ job: toImportJobView(job, { offset, limit }) }), { headers });
+  },
+  {
+    path: `${API_PATHS.IMPORT_JOBS}/:id`,
+    method: 'GET',
+  }
+);
+
+// Cancel a queued or running job (results matched so far are kept)
+export const DELETE = withApiHandler(
+  async ({ context, userId, headers, logger }) => {
+    const job = await cancelImportJob(context.params.id ?? '', userId);
+    if (!job) {
+      logger.info(404);
+      return errorResponse('Import job not found', 404);
+    }
+
+    logger.info(200);
+    return new Response(JSON.stringify({ job: toImportJobView(job) }), { headers });
+  },
+  {
+    path: `${API_PATHS.IMPORT_JOBS}/:id`,
+    method: 'DELETE',
+  }
+);
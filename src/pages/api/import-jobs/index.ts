@@ -0,0 +1,72 @@
+import { createImportJob, listImportJobs, toImportJobView } from '../../../lib/jobs';
+import { ImportError } from '../../../lib/import';
+import { withApiHandler, withBodyApiHandler, validateMinPlays, validateColumnMapping, errorResponse } from '../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS } from '../../../lib/constants';
+import type { CsvColumn } from '../../../lib/csv';
+
+/** Request body for creating an import job - can be URL or text */
+interface CreateImportJobRequestBody {
+  /** URL of playlist to import, or plain text track list */
+  url: string;
+  /** For listening-history exports, only import tracks played at least this many times */
+  minPlays?: number;
+  /** For CSV track lists with ambiguous headers, the field each column holds */
+  columns?: CsvColumn[];
+}
+
+// Queue a background import; poll GET /api/import-jobs/:id for progress
+export const POST = withBodyApiHandler<CreateImportJobRequestBody>(
+  async ({ userId, sessionId, headers, logger, body }) => {
+    const { url, minPlays, columns } = body;
+
+    if (!url || typeof url !== 'string' || url.trim().length === 0) {
+      logger.info(400);
+      return errorResponse('Missing input. Provide a playlist URL or paste a list of tracks.', 400);
+    }
+
+    const minPlaysValidation = validateMinPlays(minPlays);
+    if (!minPlaysValidation.valid) {
+      logger.info(400);
+      return errorResponse(minPlaysValidation.error!, 400);
+    }
+
+    const columnsValidation = validateColumnMapping(columns);
+    if (!columnsValidation.valid) {
+      logger.info(400);
+      return errorResponse(columnsValidation.error!, 400);
+    }
+
+    try {
+      const job = await createImportJob(url.trim(), userId, sessionId, { minPlays, columns });
+
+      logger.info(202);
+      headers.set('Location', `${API_PATHS.IMPORT_JOBS}/${job.id}`);
+      return new Response(JSON.stringify({ job: toImportJobView(job) }), { status: 202, headers });
+    } catch (error) {
+      if (ImportError.isImportError(error)) {
+        logger.info(error.status);
+        return errorResponse(error.message, error.status);
+      }
+      throw error;
+    }
+  },
+  {
+    path: API_PATHS.IMPORT_JOBS,
+    method: 'POST',
+    rateLimit: RATE_LIMIT.IMPORT_URL,
+  }
+);
+
+// List the current user's import jobs
+export const GET = withApiHandler(
+  async ({ userId, headers, logger }) => {
+    const jobs = await listImportJobs(userId);
+
+    logger.info(200);
+    return new Response(JSON.stringify({ jobs: jobs.map(job => toImportJobView(job)) }), { headers });
+  },
+  {
+    path: API_PATHS.IMPORT_JOBS,
+    method: 'GET',
+  }
+);
@@ -1,5 +1,7 @@
 import { searchTracks, checkSavedTracks, getTrackById } from '../../lib/spotify';
 import { parseTrackUrl } from '../../lib/url-parser';
+import { rankCandidates, type MatchSource } from '../../lib/matching';
+import { extractArtistAndTrack } from '../../lib/fuzzy-search';
 import { withBodyApiHandler, validateExternalUrl, errorResponse } from '../../lib/api-utils';
 import { RATE_LIMIT, API_PATHS, TIMEOUTS } from '../../lib/constants';
 
@@ -136,20 +138,25 @@ export const POST = withBodyApiHandler<ImportUrlRequestBody>(
       searchQuery = title;
     }
 
-    // Search Spotify with the extracted query
+    // Search Spotify with the extracted query, then rank results against it
+    // so covers, karaoke and live versions don't win just by coming first
     const searchResults = await searchTracks(searchQuery, token, 10);
+    const { artist, track: title } = extractArtistAndTrack(searchQuery);
+    const source: MatchSource = artist && title ? { title, artist } : { title: searchQuery };
+    const ranked = rankCandidates(source, searchResults.tracks.items);
 
     // Check which tracks are already liked
-    const trackIds = searchResults.tracks.items.map((track) => track.id);
+    const trackIds = ranked.map(({ track }) => track.id);
     let likedStatus: boolean[] = [];
 
     if (trackIds.length > 0) {
       likedStatus = await checkSavedTracks(trackIds, token);
     }
 
-    const tracksWithLiked = searchResults.tracks.items.map((track, index) => ({
+    const tracksWithLiked = ranked.map(({ track, confidence }, index) => ({
       ...track,
       isLiked: likedStatus[index] || false,
+      confidence,
     }));
 
     logger.info(200);
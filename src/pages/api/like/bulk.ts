@@ -1,6 +1,6 @@
-import { saveTracks } from '../../../lib/spotify';
+import { saveTracks, removeTracks } from '../../../lib/spotify';
 import { withBodyApiHandler, errorResponse } from '../../../lib/api-utils';
-import { RATE_LIMIT, VALIDATION } from '../../../lib/constants';
+import { RATE_LIMIT, API_PATHS, VALIDATION } from '../../../lib/constants';
 
 /** Request body for bulk like operation */
 interface BulkLikeRequestBody {
@@ -8,48 +8,88 @@ interface BulkLikeRequestBody {
   trackIds: string[];
 }
 
+/**
+ * Validate a bulk trackIds array
+ * @returns An error message, or null if the array is valid
+ */
+function validateTrackIds(trackIds: unknown): string | null {
+  if (!trackIds || !Array.isArray(trackIds)) {
+    return 'Missing or invalid trackIds array';
+  }
+
+  if (trackIds.length === 0) {
+    return 'No tracks provided';
+  }
+
+  if (trackIds.length > VALIDATION.MAX_BULK_LIKE_IDS) {
+    return `Maximum ${VALIDATION.MAX_BULK_LIKE_IDS} tracks per request`;
+  }
+
+  // Validate all track IDs
+  const invalidIds = trackIds.filter(id => typeof id !== 'string' || !VALIDATION.SPOTIFY_ID_PATTERN.test(id));
+  if (invalidIds.length > 0) {
+    return `Invalid track ID format: ${invalidIds[0]}`;
+  }
+
+  return null;
+}
+
 /** Save multiple tracks to Liked Songs */
 export const POST = withBodyApiHandler<BulkLikeRequestBody>(
   async ({ token, headers, logger, body }) => {
     const { trackIds } = body;
 
     // Validation
-    if (!trackIds || !Array.isArray(trackIds)) {
+    const validationError = validateTrackIds(trackIds);
+    if (validationError) {
       logger.info(400);
-      return errorResponse('Missing or invalid trackIds array', 400);
+      return errorResponse(validationError, 400);
     }
 
-    if (trackIds.length === 0) {
-      logger.info(400);
-      return errorResponse('No tracks provided', 400);
-    }
+    await saveTracks(trackIds, token);
 
-    if (trackIds.length > 100) {
-      logger.info(400);
-      return errorResponse('Maximum 100 tracks per request', 400);
-    }
+    logger.info(200);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        liked: trackIds.length,
+      }),
+      { headers }
+    );
+  },
+  {
+    path: API_PATHS.LIKE_BULK,
+    method: 'POST',
+    rateLimit: RATE_LIMIT.PLAYLIST, // Use playlist rate limit since it's a bulk operation
+  }
+);
 
-    // Validate all track IDs
-    const invalidIds = trackIds.filter(id => !VALIDATION.SPOTIFY_ID_PATTERN.test(id));
-    if (invalidIds.length > 0) {
+/** Remove multiple tracks from Liked Songs */
+export const DELETE = withBodyApiHandler<BulkLikeRequestBody>(
+  async ({ token, headers, logger, body }) => {
+    const { trackIds } = body;
+
+    // Validation
+    const validationError = validateTrackIds(trackIds);
+    if (validationError) {
       logger.info(400);
-      return errorResponse(`Invalid track ID format: ${invalidIds[0]}`, 400);
+      return errorResponse(validationError, 400);
     }
 
-    await saveTracks(trackIds, token);
+    await removeTracks(trackIds, token);
 
     logger.info(200);
     return new Response(
       JSON.stringify({
         success: true,
-        liked: trackIds.length,
+        unliked: trackIds.length,
       }),
       { headers }
     );
   },
   {
-    path: '/api/like/bulk',
-    method: 'POST',
-    rateLimit: RATE_LIMIT.PLAYLIST, // Use playlist rate limit since it's a bulk operation
+    path: API_PATHS.LIKE_BULK,
+    method: 'DELETE',
+    rateLimit: RATE_LIMIT.PLAYLIST,
   }
 );
@@ -1,15 +1,18 @@
 import { addToPlaylist } from '../../../lib/spotify';
 import { withBodyApiHandler, validatePlaylistId, validateTrackUri, errorResponse } from '../../../lib/api-utils';
-import { RATE_LIMIT, API_PATHS } from '../../../lib/constants';
+import { RATE_LIMIT, API_PATHS, VALIDATION } from '../../../lib/constants';
 
 interface AddToPlaylistRequestBody {
   playlistId: string;
-  trackUri: string;
+  /** A single track to add */
+  trackUri?: string;
+  /** Several tracks to add in order (alternative to trackUri) */
+  trackUris?: string[];
 }
 
 export const POST = withBodyApiHandler<AddToPlaylistRequestBody>(
   async ({ token, headers, logger, body }) => {
-    const { playlistId, trackUri } = body;
+    const { playlistId, trackUri, trackUris } = body;
 
     // Validation
     const playlistValidation = validatePlaylistId(playlistId);
@@ -18,16 +21,29 @@ export const POST = withBodyApiHandler<AddToPlaylistRequestBody>(
       return errorResponse(playlistValidation.error!, 400);
     }
 
-    const trackValidation = validateTrackUri(trackUri);
-    if (!trackValidation.valid) {
+    if (trackUris !== undefined && (!Array.isArray(trackUris) || trackUris.length === 0)) {
       logger.info(400);
-      return errorResponse(trackValidation.error!, 400);
+      return errorResponse('trackUris must be a non-empty array', 400);
     }
 
-    await addToPlaylist(playlistId, trackUri, token);
+    const uris = trackUris ?? [trackUri as string];
+    if (uris.length > VALIDATION.MAX_PLAYLIST_ADD_URIS) {
+      logger.info(400);
+      return errorResponse(`Maximum ${VALIDATION.MAX_PLAYLIST_ADD_URIS} tracks per request`, 400);
+    }
+
+    for (const uri of uris) {
+      const trackValidation = validateTrackUri(uri);
+      if (!trackValidation.valid) {
+        logger.info(400);
+        return errorResponse(trackValidation.error!, 400);
+      }
+    }
+
+    const snapshotId = await addToPlaylist(playlistId, uris, token);
 
     logger.info(200);
-    return new Response(JSON.stringify({ success: true }), { headers });
+    return new Response(JSON.stringify({ success: true, added: uris.length, snapshotId }), { headers });
   },
   {
     path: API_PATHS.PLAYLIST_ADD,
@@ -0,0 +1,85 @@
+import { addToPlaylistInBatches, getPlaylistTrackIds } from '../../../lib/spotify';
+import { withBodyApiHandler, validatePlaylistId, validateTrackUri, errorResponse } from '../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS, VALIDATION } from '../../../lib/constants';
+
+/** Request body for bulk add-to-playlist */
+interface BulkAddRequestBody {
+  playlistId: string;
+  /** Track URIs in the order they should appear */
+  trackUris: string[];
+  /** Zero-based index to insert at (appends when omitted) */
+  position?: number;
+  /** Skip tracks already in the playlist (default true) */
+  skipDuplicates?: boolean;
+}
+
+/** Add many tracks to a playlist, skipping ones it already contains */
+export const POST = withBodyApiHandler<BulkAddRequestBody>(
+  async ({ token, headers, logger, body }) => {
+    const { playlistId, trackUris, position, skipDuplicates = true } = body;
+
+    // Validation
+    const playlistValidation = validatePlaylistId(playlistId);
+    if (!playlistValidation.valid) {
+      logger.info(400);
+      return errorResponse(playlistValidation.error!, 400);
+    }
+
+    if (!Array.isArray(trackUris) || trackUris.length === 0) {
+      logger.info(400);
+      return errorResponse('Missing or invalid trackUris array', 400);
+    }
+
+    if (trackUris.length > VALIDATION.MAX_BULK_PLAYLIST_URIS) {
+      logger.info(400);
+      return errorResponse(`Maximum ${VALIDATION.MAX_BULK_PLAYLIST_URIS} tracks per request`, 400);
+    }
+
+    for (const uri of trackUris) {
+      const trackValidation = validateTrackUri(uri);
+      if (!trackValidation.valid) {
+        logger.info(400);
+        return errorResponse(trackValidation.error!, 400);
+      }
+    }
+
+    if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+      logger.info(400);
+      return errorResponse('position must be a non-negative integer', 400);
+    }
+
+    // Drop repeats within the request, keeping the first occurrence
+    let uris = [...new Set(trackUris)];
+
+    if (skipDuplicates) {
+      const existing = await getPlaylistTrackIds(playlistId, token);
+      uris = uris.filter((uri) => !existing.has(uri.slice('spotify:track:'.length)));
+    }
+
+    const skipped = trackUris.length - uris.length;
+    const { added, addedUris, addedPositions, snapshotId, failed } = await addToPlaylistInBatches(playlistId, uris, token, position);
+    for (const batch of failed) {
+      logger.warn(`Failed to add tracks ${batch.offset}-${batch.offset + batch.count - 1}: ${batch.error}`);
+    }
+
+    logger.info(200);
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        added,
+        addedUris,
+        addedPositions,
+        skipped,
+        snapshotId,
+        failed,
+      }),
+      { headers }
+    );
+  },
+  {
+    path: API_PATHS.PLAYLIST_BULK,
+    method: 'POST',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+    rateLimitKey: 'playlist-bulk',
+  }
+);
@@ -1,15 +1,55 @@
-import { getPlaylistTracks } from '../../../lib/spotify';
-import { withBodyApiHandler, errorResponse } from '../../../lib/api-utils';
-import { RATE_LIMIT, API_PATHS } from '../../../lib/constants';
+import { isTrackInPlaylist } from '../../../lib/spotify';
+import { withBodyApiHandler, errorResponse, ndjsonResponse } from '../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS, PAGINATION } from '../../../lib/constants';
 
 interface CheckDuplicatesRequestBody {
   trackId: string;
   playlistIds: string[];
+  /** Stream one NDJSON line per playlist as each check completes */
+  stream?: boolean;
+}
+
+interface DuplicateCheckResult {
+  playlistId: string;
+  isDuplicate: boolean;
+}
+
+/**
+ * Check every playlist in parallel, yielding results in completion order
+ * Returning the generator early (e.g. the client disconnected) stops the checks still running.
+ */
+async function* checkPlaylists(
+  playlistIds: string[],
+  trackId: string,
+  token: string
+): AsyncGenerator<DuplicateCheckResult> {
+  const controller = new AbortController();
+  const pending = new Map<string, Promise<DuplicateCheckResult>>();
+
+  for (const playlistId of playlistIds) {
+    pending.set(
+      playlistId,
+      isTrackInPlaylist(playlistId, trackId, token, controller.signal)
+        .then((isDuplicate) => ({ playlistId, isDuplicate }))
+        // If we can't check a playlist, assume it's not a duplicate
+        .catch(() => ({ playlistId, isDuplicate: false }))
+    );
+  }
+
+  try {
+    while (pending.size > 0) {
+      const result = await Promise.race(pending.values());
+      pending.delete(result.playlistId);
+      yield result;
+    }
+  } finally {
+    controller.abort();
+  }
 }
 
 export const POST = withBodyApiHandler<CheckDuplicatesRequestBody>(
   async ({ token, headers, logger, body }) => {
-    const { trackId, playlistIds } = body;
+    const { trackId, playlistIds, stream } = body;
 
     if (!trackId || typeof trackId !== 'string') {
       logger.info(400);
@@ -21,26 +61,17 @@ export const POST = withBodyApiHandler<CheckDuplicatesRequestBody>(
       return errorResponse('Missing or invalid playlistIds', 400);
     }
 
-    // Limit to checking 20 playlists at a time for performance
-    const playlistsToCheck = playlistIds.slice(0, 20);
-
-    // Check each playlist in parallel
-    const results = await Promise.all(
-      playlistsToCheck.map(async (playlistId) => {
-        try {
-          const response = await getPlaylistTracks(playlistId, token, 100);
-          const isDuplicate = response.items.some(item => item.track?.id === trackId);
-          return { playlistId, isDuplicate };
-        } catch {
-          // If we can't check a playlist, assume it's not a duplicate
-          return { playlistId, isDuplicate: false };
-        }
-      })
-    );
+    // Limit the number of playlists checked per request; clients batch by page
+    const playlistsToCheck = [...new Set(playlistIds)].slice(0, PAGINATION.MAX_DUPLICATE_CHECK_PLAYLISTS);
+
+    if (stream) {
+      logger.info(200);
+      return ndjsonResponse(checkPlaylists(playlistsToCheck, trackId, token), headers);
+    }
 
     // Convert to a map of playlistId -> isDuplicate
     const duplicates: Record<string, boolean> = {};
-    for (const result of results) {
+    for await (const result of checkPlaylists(playlistsToCheck, trackId, token)) {
       duplicates[result.playlistId] = result.isDuplicate;
     }
 
@@ -0,0 +1,88 @@
+import { createPlaylist, addToPlaylistInBatches } from '../../../lib/spotify';
+import { withBodyApiHandler, validateRequiredString, validateTrackUri, errorResponse } from '../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS, VALIDATION } from '../../../lib/constants';
+
+interface CreatePlaylistRequestBody {
+  name: string;
+  description?: string;
+  isPublic?: boolean;
+  /** Tracks to add, in the order they should appear */
+  trackUris?: string[];
+}
+
+// Create a playlist and fill it with tracks, reporting any batches that failed
+export const POST = withBodyApiHandler<CreatePlaylistRequestBody>(
+  async ({ token, headers, logger, body }) => {
+    const { name, description, isPublic, trackUris = [] } = body;
+
+    // Validation
+    const nameValidation = validateRequiredString(name, 'playlist name');
+    if (!nameValidation.valid) {
+      logger.info(400);
+      return errorResponse(nameValidation.error!, 400);
+    }
+
+    if (name.length > VALIDATION.MAX_PLAYLIST_NAME_LENGTH) {
+      logger.info(400);
+      return errorResponse(`Playlist name too long (max ${VALIDATION.MAX_PLAYLIST_NAME_LENGTH} characters)`, 400);
+    }
+
+    if (description !== undefined && typeof description !== 'string') {
+      logger.info(400);
+      return errorResponse('Invalid description', 400);
+    }
+
+    if (!Array.isArray(trackUris)) {
+      logger.info(400);
+      return errorResponse('trackUris must be an array', 400);
+    }
+
+    if (trackUris.length > VALIDATION.MAX_PLAYLIST_TRACKS) {
+      logger.info(400);
+      return errorResponse(`Maximum ${VALIDATION.MAX_PLAYLIST_TRACKS} tracks per playlist`, 400);
+    }
+
+    for (const uri of trackUris) {
+      const trackValidation = validateTrackUri(uri);
+      if (!trackValidation.valid) {
+        logger.info(400);
+        return errorResponse(trackValidation.error!, 400);
+      }
+    }
+
+    const playlist = await createPlaylist(
+      name.trim(),
+      {
+        description: description?.trim().slice(0, VALIDATION.MAX_PLAYLIST_DESCRIPTION_LENGTH),
+        isPublic: isPublic === true,
+      },
+      token
+    );
+
+    const { added, failed } = await addToPlaylistInBatches(playlist.id, trackUris, token);
+    for (const batch of failed) {
+      logger.warn(`Failed to add tracks ${batch.offset}-${batch.offset + batch.count - 1}: ${batch.error}`);
+    }
+
+    logger.info(201);
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        playlist: {
+          id: playlist.id,
+          name: playlist.name,
+          url: playlist.external_urls?.spotify ?? `https://open.spotify.com/playlist/${playlist.id}`,
+        },
+        added,
+        failed,
+      }),
+      { status: 201, headers }
+    );
+  },
+  {
+    path: API_PATHS.PLAYLIST_CREATE,
+    method: 'POST',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+    rateLimitKey: 'playlist-create',
+  }
+);
@@ -1,16 +1,32 @@
-import { getPlaylists } from '../../lib/spotify';
-import { withApiHandler } from '../../lib/api-utils';
+import { iteratePlaylists, collectPages } from '../../lib/spotify';
+import { withApiHandler, ndjsonResponse } from '../../lib/api-utils';
 import { RATE_LIMIT, API_PATHS } from '../../lib/constants';
 
 export const GET = withApiHandler(
-  async ({ token, headers, logger }) => {
-    const playlistsResponse = await getPlaylists(token);
+  async ({ context, token, headers, logger }) => {
+    const url = new URL(context.request.url);
+
+    // Stream one NDJSON line per page so the UI can render playlists as they arrive
+    if (url.searchParams.get('stream') === 'true') {
+      logger.info(200);
+      return ndjsonResponse(
+        (async function* () {
+          for await (const page of iteratePlaylists(token)) {
+            yield { playlists: page };
+          }
+        })(),
+        headers,
+        (error) => logger.warn(`Playlist stream failed: ${error instanceof Error ? error.message : error}`)
+      );
+    }
+
+    const playlists = await collectPages(iteratePlaylists(token));
 
     logger.info(200);
     return new Response(
       JSON.stringify({
-        playlists: playlistsResponse.items,
-        total: playlistsResponse.total,
+        playlists,
+        total: playlists.length,
       }),
       { headers }
     );
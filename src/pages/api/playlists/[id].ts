@@ -0,0 +1,52 @@
+import { getPlaylist, getPlaylistItems } from '../../../lib/spotify';
+import { withApiHandler, validatePlaylistId, errorResponse } from '../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS } from '../../../lib/constants';
+
+// Get a playlist's details and one page of its tracks (?offset= pages through items)
+export const GET = withApiHandler(
+  async ({ context, token, headers, logger }) => {
+    const playlistId = context.params.id;
+    const playlistValidation = validatePlaylistId(playlistId);
+    if (!playlistValidation.valid) {
+      logger.info(400);
+      return errorResponse(playlistValidation.error!, 400);
+    }
+
+    const parsedOffset = Number.parseInt(context.url.searchParams.get('offset') ?? '0', 10);
+    const offset = Number.isFinite(parsedOffset) && parsedOffset >= 0 ? parsedOffset : 0;
+
+    const [playlist, page] = await Promise.all([
+      getPlaylist(playlistId!, token),
+      getPlaylistItems(playlistId!, token, offset),
+    ]);
+
+    logger.info(200);
+    return new Response(
+      JSON.stringify({
+        playlist: {
+          id: playlist.id,
+          name: playlist.name,
+          description: playlist.description ?? null,
+          images: playlist.images,
+          owner: playlist.owner,
+          url: playlist.external_urls?.spotify ?? `https://open.spotify.com/playlist/${playlist.id}`,
+          snapshotId: playlist.snapshot_id ?? null,
+        },
+        // Positions let the client reorder and remove against the exact item it shows
+        items: page.items.map((item, index) => ({
+          position: page.offset + index,
+          addedAt: item.added_at,
+          track: item.track,
+        })),
+        total: page.total,
+        nextOffset: page.next ? page.offset + page.items.length : null,
+      }),
+      { headers }
+    );
+  },
+  {
+    path: `${API_PATHS.PLAYLISTS}/:id`,
+    method: 'GET',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+  }
+);
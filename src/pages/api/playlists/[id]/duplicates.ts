@@ -0,0 +1,142 @@
+import { getPlaylist, iteratePlaylistItems, removePlaylistPositions } from '../../../../lib/spotify';
+import { findDuplicateGroups, type PlaylistEntry } from '../../../../lib/playlist-dedupe';
+import { withApiHandler, withBodyApiHandler, validatePlaylistId, validateTrackUri, errorResponse } from '../../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS, VALIDATION } from '../../../../lib/constants';
+
+/** Track fields the duplicate scan needs, plus `next` to paginate */
+const DUPLICATE_SCAN_FIELDS =
+  'items(track(id,uri,name,duration_ms,artists(name),album(name,images))),next';
+
+// A playlist edited during every attempt is reported as a conflict instead of scanned again
+const MAX_SCAN_ATTEMPTS = 2;
+
+/** Request body for removing chosen duplicates */
+interface RemoveDuplicatesRequestBody {
+  /** Playlist version the scan was made against */
+  snapshotId: string;
+  /** Exact occurrences to remove */
+  items: { uri: string; position: number }[];
+}
+
+/**
+ * Read every playlist entry with its position
+ */
+async function scanPlaylist(playlistId: string, token: string): Promise<{ entries: PlaylistEntry[]; total: number }> {
+  const entries: PlaylistEntry[] = [];
+  let position = 0;
+  for await (const items of iteratePlaylistItems(playlistId, token, DUPLICATE_SCAN_FIELDS)) {
+    for (const item of items) {
+      // Unavailable and local tracks have no ID to compare, but still occupy a position
+      if (item.track?.id) {
+        entries.push({ position, track: item.track });
+      }
+      position++;
+    }
+  }
+  return { entries, total: position };
+}
+
+// Scan a whole playlist for repeated tracks and different releases of the same song
+export const GET = withApiHandler(
+  async ({ context, token, headers, logger }) => {
+    const playlistId = context.params.id;
+    const playlistValidation = validatePlaylistId(playlistId);
+    if (!playlistValidation.valid) {
+      logger.info(400);
+      return errorResponse(playlistValidation.error!, 400);
+    }
+
+    // Item pages don't say which snapshot they came from, so positions only match the snapshot
+    // if it's the same before and after the scan - otherwise the playlist was edited mid-scan
+    for (let attempt = 0; attempt < MAX_SCAN_ATTEMPTS; attempt++) {
+      const before = await getPlaylist(playlistId!, token);
+      const { entries, total } = await scanPlaylist(playlistId!, token);
+      const after = await getPlaylist(playlistId!, token);
+
+      if (before.snapshot_id === after.snapshot_id) {
+        logger.info(200);
+        return new Response(
+          JSON.stringify({
+            snapshotId: after.snapshot_id ?? null,
+            total,
+            groups: findDuplicateGroups(entries),
+          }),
+          { headers }
+        );
+      }
+
+      logger.warn('Playlist changed during the duplicate scan');
+    }
+
+    logger.info(409);
+    return errorResponse('The playlist changed while it was being scanned. Try again.', 409);
+  },
+  {
+    path: `${API_PATHS.PLAYLISTS}/:id/duplicates`,
+    method: 'GET',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+  }
+);
+
+// Remove the chosen occurrences in one operation against the scanned snapshot
+export const DELETE = withBodyApiHandler<RemoveDuplicatesRequestBody>(
+  async ({ context, token, headers, logger, body }) => {
+    const playlistId = context.params.id;
+    const { snapshotId, items } = body;
+
+    // Validation
+    const playlistValidation = validatePlaylistId(playlistId);
+    if (!playlistValidation.valid) {
+      logger.info(400);
+      return errorResponse(playlistValidation.error!, 400);
+    }
+
+    // Positions only mean something for the version they were read from
+    if (typeof snapshotId !== 'string' || snapshotId.length === 0) {
+      logger.info(400);
+      return errorResponse('Missing snapshotId', 400);
+    }
+
+    if (!Array.isArray(items) || items.length === 0) {
+      logger.info(400);
+      return errorResponse('Missing or invalid items array', 400);
+    }
+
+    if (items.length > VALIDATION.MAX_BULK_PLAYLIST_URIS) {
+      logger.info(400);
+      return errorResponse(`Maximum ${VALIDATION.MAX_BULK_PLAYLIST_URIS} tracks per request`, 400);
+    }
+
+    const seenPositions = new Set<number>();
+    for (const item of items) {
+      const trackValidation = validateTrackUri(item?.uri);
+      if (!trackValidation.valid) {
+        logger.info(400);
+        return errorResponse(trackValidation.error!, 400);
+      }
+      if (!Number.isInteger(item.position) || item.position < 0 || seenPositions.has(item.position)) {
+        logger.info(400);
+        return errorResponse('Each position must be a distinct non-negative integer', 400);
+      }
+      seenPositions.add(item.position);
+    }
+
+    const newSnapshotId = await removePlaylistPositions(playlistId!, items, snapshotId, token);
+
+    logger.info(200);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        removed: items.length,
+        snapshotId: newSnapshotId,
+      }),
+      { headers }
+    );
+  },
+  {
+    path: `${API_PATHS.PLAYLISTS}/:id/duplicates`,
+    method: 'DELETE',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+    rateLimitKey: 'playlist-duplicates',
+  }
+);
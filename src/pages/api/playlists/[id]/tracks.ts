@@ -0,0 +1,140 @@
+import { removeFromPlaylist, reorderPlaylistItems } from '../../../../lib/spotify';
+import { withBodyApiHandler, validatePlaylistId, validateTrackUri, errorResponse } from '../../../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS, VALIDATION } from '../../../../lib/constants';
+
+/** Request body for removing tracks from a playlist */
+interface RemoveTracksRequestBody {
+  /** Track URIs to remove (every occurrence is removed) */
+  trackUris: string[];
+  /** Playlist version the removal applies to */
+  snapshotId?: string;
+}
+
+/** Request body for moving a range of playlist items */
+interface ReorderRequestBody {
+  /** Position of the first item to move */
+  rangeStart: number;
+  /** Position the range should end up before, counted before the move */
+  insertBefore: number;
+  /** Number of items to move (default 1) */
+  rangeLength?: number;
+  /** Playlist version the move applies to */
+  snapshotId?: string;
+}
+
+/**
+ * Check that a value is a non-negative integer
+ */
+function isIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validate an optional snapshot ID from a request body
+ */
+function isValidSnapshotId(snapshotId: unknown): boolean {
+  return snapshotId === undefined || (typeof snapshotId === 'string' && snapshotId.length > 0);
+}
+
+// Remove tracks from a playlist
+export const DELETE = withBodyApiHandler<RemoveTracksRequestBody>(
+  async ({ context, token, headers, logger, body }) => {
+    const playlistId = context.params.id;
+    const { trackUris, snapshotId } = body;
+
+    // Validation
+    const playlistValidation = validatePlaylistId(playlistId);
+    if (!playlistValidation.valid) {
+      logger.info(400);
+      return errorResponse(playlistValidation.error!, 400);
+    }
+
+    if (!Array.isArray(trackUris) || trackUris.length === 0) {
+      logger.info(400);
+      return errorResponse('Missing or invalid trackUris array', 400);
+    }
+
+    if (trackUris.length > VALIDATION.MAX_BULK_PLAYLIST_URIS) {
+      logger.info(400);
+      return errorResponse(`Maximum ${VALIDATION.MAX_BULK_PLAYLIST_URIS} tracks per request`, 400);
+    }
+
+    for (const uri of trackUris) {
+      const trackValidation = validateTrackUri(uri);
+      if (!trackValidation.valid) {
+        logger.info(400);
+        return errorResponse(trackValidation.error!, 400);
+      }
+    }
+
+    if (!isValidSnapshotId(snapshotId)) {
+      logger.info(400);
+      return errorResponse('Invalid snapshotId', 400);
+    }
+
+    const uris = [...new Set(trackUris)];
+    const newSnapshotId = await removeFromPlaylist(playlistId!, uris, token, snapshotId);
+
+    logger.info(200);
+    return new Response(
+      JSON.stringify({
+        success: true,
+        removed: uris.length,
+        snapshotId: newSnapshotId,
+      }),
+      { headers }
+    );
+  },
+  {
+    path: `${API_PATHS.PLAYLISTS}/:id/tracks`,
+    method: 'DELETE',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+    rateLimitKey: 'playlist-tracks',
+  }
+);
+
+// Move a range of items within a playlist
+export const PUT = withBodyApiHandler<ReorderRequestBody>(
+  async ({ context, token, headers, logger, body }) => {
+    const playlistId = context.params.id;
+    const { rangeStart, insertBefore, rangeLength = 1, snapshotId } = body;
+
+    // Validation
+    const playlistValidation = validatePlaylistId(playlistId);
+    if (!playlistValidation.valid) {
+      logger.info(400);
+      return errorResponse(playlistValidation.error!, 400);
+    }
+
+    if (!isIndex(rangeStart) || !isIndex(insertBefore)) {
+      logger.info(400);
+      return errorResponse('rangeStart and insertBefore must be non-negative integers', 400);
+    }
+
+    if (!isIndex(rangeLength) || rangeLength === 0) {
+      logger.info(400);
+      return errorResponse('rangeLength must be a positive integer', 400);
+    }
+
+    if (!isValidSnapshotId(snapshotId)) {
+      logger.info(400);
+      return errorResponse('Invalid snapshotId', 400);
+    }
+
+    const newSnapshotId = await reorderPlaylistItems(
+      playlistId!,
+      { rangeStart, insertBefore, rangeLength },
+      token,
+      snapshotId
+    );
+
+    logger.info(200);
+    return new Response(JSON.stringify({ success: true, snapshotId: newSnapshotId }), { headers });
+  },
+  {
+    path: `${API_PATHS.PLAYLISTS}/:id/tracks`,
+    method: 'PUT',
+    rateLimit: RATE_LIMIT.PLAYLIST,
+    rateLimitKey: 'playlist-tracks',
+  }
+);
@@ -0,0 +1,68 @@
+import {
+  listUserSessions,
+  revokeUserSessionByHandle,
+  revokeUserSessions,
+  getClearSessionCookie,
+} from '../../lib/session';
+import { withApiHandler, withBodyApiHandler, errorResponse } from '../../lib/api-utils';
+import { RATE_LIMIT, API_PATHS } from '../../lib/constants';
+
+/** Request body for revoking sessions */
+interface RevokeSessionsRequestBody {
+  /** Public handle of a single session to revoke */
+  handle?: string;
+  /** Revoke every session except the current one */
+  others?: boolean;
+}
+
+// List the current user's active sessions
+export const GET = withApiHandler(
+  async ({ userId, sessionId, headers, logger }) => {
+    const sessions = await listUserSessions(userId, sessionId);
+
+    logger.info(200);
+    return new Response(JSON.stringify({ sessions }), { headers });
+  },
+  {
+    path: API_PATHS.SESSIONS,
+    method: 'GET',
+    rateLimit: RATE_LIMIT.ME,
+  }
+);
+
+// Revoke one session by handle, or all other sessions
+export const DELETE = withBodyApiHandler<RevokeSessionsRequestBody>(
+  async ({ userId, sessionId, headers, logger, body }) => {
+    const { handle, others } = body;
+
+    if (others === true) {
+      const revoked = await revokeUserSessions(userId, sessionId);
+      logger.info(200);
+      return new Response(JSON.stringify({ success: true, revoked }), { headers });
+    }
+
+    if (!handle || typeof handle !== 'string') {
+      logger.info(400);
+      return errorResponse('Provide a session handle or set "others": true', 400);
+    }
+
+    const revokedId = await revokeUserSessionByHandle(userId, handle);
+    if (!revokedId) {
+      logger.info(404);
+      return errorResponse('Session not found', 404);
+    }
+
+    // Revoking the current session logs this browser out too
+    if (revokedId === sessionId) {
+      headers.append('Set-Cookie', getClearSessionCookie());
+    }
+
+    logger.info(200);
+    return new Response(JSON.stringify({ success: true, revoked: 1 }), { headers });
+  },
+  {
+    path: API_PATHS.SESSIONS,
+    method: 'DELETE',
+    rateLimit: RATE_LIMIT.ME,
+  }
+);
@@ -0,0 +1,2 @@
+// Synthetic fixture: hand-written in the shape of the real bundle, not recorded. Not re-recorded by fixtures:refresh.
+(self.webpackChunk_sc=self.webpackChunk_sc||[]).push([[49],{7712:function(e,t,n){"use strict";n.d(t,{c:function(){return r}});var r={client_id:"Xq3LBZ7vTsA1kNn9RcW2pYhG5dUe8fJm",app_version:"1717430000",app_locale:"en"}}}]);
@@ -0,0 +1,2 @@
+// Synthetic fixture: hand-written in the shape of the real bundle, not recorded. Not re-recorded by fixtures:refresh.
+(self.webpackChunk_sc=self.webpackChunk_sc||[]).push([[0],{1:function(e){e.exports={}}}]);
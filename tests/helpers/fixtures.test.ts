@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { interceptFetch, loadFixtures, readFixture } from './fixtures';
+
+const OEMBED_URL = 'https://www.youtube.com/oembed?url=https://www.youtube.com/watch?v=dQw4w9WgXcQ&format=json';
+
+describe('fixture harness', () => {
+  it('lists only fixtures whose files exist', () => {
+    for (const fixture of loadFixtures()) {
+      expect(() => readFixture(fixture.file), fixture.file).not.toThrow();
+    }
+  });
+
+  it('replays a saved response with its content type', async () => {
+    const requests = interceptFetch();
+
+    const response = await fetch(OEMBED_URL);
+
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toMatchObject({ title: 'Rick Astley - Never Gonna Give You Up (Official Music Video)' });
+    expect(requests).toEqual([{ method: 'GET', url: new URL(OEMBED_URL).href, body: undefined }]);
+  });
+
+  it('rejects requests with no fixture instead of going online', async () => {
+    interceptFetch();
+
+    await expect(fetch('https://example.com/')).rejects.toThrow('No fixture for GET https://example.com/');
+    await expect(fetch(OEMBED_URL, { method: 'POST' })).rejects.toThrow('No fixture for POST');
+  });
+});
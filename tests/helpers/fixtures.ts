@@ -0,0 +1,89 @@
+/**
+ * Offline fixture harness
+ * Replays saved pages and API responses (listed in tests/fixtures/fixtures.json) in place of
+ * the network, so scrapers are tested against recorded markup and never go online.
+ * Re-record the saved files with `npm run fixtures:refresh`.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { vi } from 'vitest';
+
+/** A saved response for one request */
+export interface Fixture {
+  /** Request URL */
+  url: string;
+  /** Request method (default GET) */
+  method?: string;
+  /** Request body sent when re-recording (POST APIs) */
+  body?: string;
+  /** Path of the saved response under tests/fixtures */
+  file: string;
+  /** Response status (default 200) */
+  status?: number;
+  /** Hand-written in the shape of the real response rather than recorded, so never re-recorded */
+  synthetic?: boolean;
+}
+
+/** A request the code under test made */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  body?: string;
+}
+
+const FIXTURES_DIR = new URL('../fixtures/', import.meta.url);
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.json': 'application/json',
+  '.js': 'application/javascript',
+  '.xml': 'application/xml',
+};
+
+/**
+ * Read a saved response
+ * @param file - Path under tests/fixtures
+ */
+export function readFixture(file: string): string {
+  return readFileSync(fileURLToPath(new URL(file, FIXTURES_DIR)), 'utf8');
+}
+
+/**
+ * Read the fixture list
+ */
+export function loadFixtures(): Fixture[] {
+  return JSON.parse(readFixture('fixtures.json')) as Fixture[];
+}
+
+/**
+ * Replace global fetch with one that answers from fixtures
+ * Requests with no fixture reject, so a scraper that starts calling a new URL fails loudly.
+ * The stub is removed after each test (unstubGlobals in vitest.config.ts).
+ * @returns The requests made, in order
+ */
+export function interceptFetch(): RecordedRequest[] {
+  const fixtures = loadFixtures();
+  const requests: RecordedRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : input).href;
+    const method = (init.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    requests.push({ method, url, body: typeof init.body === 'string' ? init.body : undefined });
+
+    const fixture = fixtures.find(
+      (candidate) => new URL(candidate.url).href === url && (candidate.method ?? 'GET').toUpperCase() === method
+    );
+    if (!fixture) {
+      throw new TypeError(`No fixture for ${method} ${url}`);
+    }
+
+    return new Response(readFixture(fixture.file), {
+      status: fixture.status ?? 200,
+      headers: { 'Content-Type': CONTENT_TYPES[extname(fixture.file)] ?? 'text/plain' },
+    });
+  }));
+
+  return requests;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseLibraryExport } from '../src/lib/library-exports';
+
+const APPLE_LIBRARY_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>Tracks</key>
+  <dict>
+    <key>101</key>
+    <dict>
+      <key>Track ID</key><integer>101</integer>
+      <key>Name</key><string>Heroes</string>
+      <key>Artist</key><string>David Bowie</string>
+      <key>Play Count</key><integer>4</integer>
+    </dict>
+    <key>102</key>
+    <dict>
+      <key>Track ID</key><integer>102</integer>
+      <key>Name</key><string>Station to Station</string>
+      <key>Artist</key><string>David Bowie</string>
+    </dict>
+  </dict>
+</dict>
+</plist>`;
+
+const SPOTIFY_HISTORY = JSON.stringify([
+  { endTime: '2024-05-01 08:00', artistName: 'Björk', trackName: 'Hyperballad', msPlayed: 321000 },
+  { endTime: '2024-05-01 08:06', artistName: 'Björk', trackName: 'Army of Me', msPlayed: 4000 },
+]);
+
+describe('parseLibraryExport', () => {
+  it('imports library tracks that were never played', () => {
+    const parsed = parseLibraryExport(APPLE_LIBRARY_XML);
+
+    expect(parsed?.hasPlayCounts).toBe(true);
+    expect(parsed?.tracks.map((track) => [track.title, track.plays])).toEqual([
+      ['Heroes', 4],
+      ['Station to Station', 0],
+    ]);
+  });
+
+  it('applies a minimum play count to library exports only when one is given', () => {
+    expect(parseLibraryExport(APPLE_LIBRARY_XML, { minPlays: 1 })?.tracks.map((track) => track.title))
+      .toEqual(['Heroes']);
+  });
+
+  it('leaves streams that never counted as a play out of listening histories', () => {
+    expect(parseLibraryExport(SPOTIFY_HISTORY)?.tracks.map((track) => track.title)).toEqual(['Hyperballad']);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getSupportedPlaylistPlatforms,
+  parsePlaylistUrl,
+  parseTextTracks,
+  type ParsedPlaylistUrl,
+  type ParsedTextTrack,
+} from '../src/lib/playlist-parser';
+
+const PLAYLIST_URL_CASES: { url: string; expected: Omit<ParsedPlaylistUrl, 'url'> }[] = [
+  {
+    url: 'https://www.youtube.com/playlist?list=PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI',
+    expected: { platform: 'youtube', playlistId: 'PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI' },
+  },
+  {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI',
+    expected: { platform: 'youtube', playlistId: 'PLFgquLnL59alCl_2TQvOiD5Vgm1hCaGSI' },
+  },
+  {
+    url: 'https://music.youtube.com/playlist?list=RDCLAK5uy_kmPRjHDECIcuVwnKsx2Ng7fyNgFKWNJFs',
+    expected: { platform: 'youtube', playlistId: 'RDCLAK5uy_kmPRjHDECIcuVwnKsx2Ng7fyNgFKWNJFs' },
+  },
+  {
+    url: 'https://soundcloud.com/daft-punk/sets/discovery',
+    expected: { platform: 'soundcloud', playlistId: 'https://soundcloud.com/daft-punk/sets/discovery' },
+  },
+  {
+    url: 'https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M',
+    expected: { platform: 'spotify', playlistId: '37i9dQZF1DXcBWIGoYBM5M' },
+  },
+  {
+    url: 'https://www.deezer.com/en/playlist/1313621735',
+    expected: { platform: 'deezer', playlistId: '1313621735' },
+  },
+  {
+    url: 'https://music.apple.com/us/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb',
+    expected: {
+      platform: 'apple-music',
+      playlistId: 'https://music.apple.com/us/playlist/todays-hits/pl.f4d106fed2bd41149aaacabb233eb5eb',
+    },
+  },
+  {
+    url: 'https://tidal.com/browse/playlist/1b087082-ab54-4e7d-a0d3-b1cf1cf18ebc',
+    expected: { platform: 'tidal', playlistId: '1b087082-ab54-4e7d-a0d3-b1cf1cf18ebc' },
+  },
+  {
+    url: 'https://listen.tidal.com/playlist/1b087082-ab54-4e7d-a0d3-b1cf1cf18ebc',
+    expected: { platform: 'tidal', playlistId: '1b087082-ab54-4e7d-a0d3-b1cf1cf18ebc' },
+  },
+  {
+    url: 'https://music.amazon.com/playlists/B01M11SBC8',
+    expected: { platform: 'amazon-music', playlistId: 'https://music.amazon.com/playlists/B01M11SBC8' },
+  },
+  {
+    url: 'https://music.amazon.com/user-playlists/4c1b2c3d4e5f',
+    expected: { platform: 'amazon-music', playlistId: 'https://music.amazon.com/user-playlists/4c1b2c3d4e5f' },
+  },
+  {
+    url: 'https://www.example-radio.com/playlists/friday',
+    expected: { platform: 'generic', playlistId: 'https://www.example-radio.com/playlists/friday' },
+  },
+];
+
+const NON_PLAYLIST_URLS = [
+  'not a url',
+  'ftp://example.com/playlist.m3u',
+  // Single tracks on supported platforms are left to track import
+  'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC',
+  'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+  'https://www.deezer.com/en/track/3135556',
+];
+
+describe('parsePlaylistUrl', () => {
+  it.each(PLAYLIST_URL_CASES)('parses $url', ({ url, expected }) => {
+    expect(parsePlaylistUrl(url)).toEqual({ ...expected, url });
+  });
+
+  it.each(NON_PLAYLIST_URLS)('returns null for %j', (url) => {
+    expect(parsePlaylistUrl(url)).toBeNull();
+  });
+
+  it('has cases for every registered parser', () => {
+    const covered = new Set(PLAYLIST_URL_CASES.map(({ expected }) => expected.platform));
+    expect([...covered].sort()).toEqual([...getSupportedPlaylistPlatforms()].sort());
+  });
+});
+
+const TEXT_TRACK_CASES: { name: string; text: string; expected: ParsedTextTrack[] }[] = [
+  {
+    name: 'Artist - Title',
+    text: 'Daft Punk - One More Time',
+    expected: [{ title: 'One More Time', artist: 'Daft Punk' }],
+  },
+  {
+    name: 'Title by Artist',
+    text: 'Harder Better Faster Stronger by Daft Punk',
+    expected: [{ title: 'Harder Better Faster Stronger', artist: 'Daft Punk' }],
+  },
+  {
+    name: 'Artist: Title',
+    text: 'Daft Punk: Digital Love',
+    expected: [{ title: 'Digital Love', artist: 'Daft Punk' }],
+  },
+  {
+    name: 'numbered titles',
+    text: '1. Aerodynamic\n2) Voyager',
+    expected: [{ title: 'Aerodynamic' }, { title: 'Voyager' }],
+  },
+  {
+    name: 'video suffixes',
+    text: 'Daft Punk - Around the World (Official Video)\nDaft Punk - Da Funk [HD]',
+    expected: [
+      { title: 'Around the World', artist: 'Daft Punk' },
+      { title: 'Da Funk', artist: 'Daft Punk' },
+    ],
+  },
+  {
+    name: 'comments and blank lines',
+    text: '# Friday mix\n\nDaft Punk - Veridis Quo\r\n\r\n',
+    expected: [{ title: 'Veridis Quo', artist: 'Daft Punk' }],
+  },
+  {
+    name: 'lines holding only an identifier',
+    text: 'spotify:track:4uLU6hMCjMI75M1A2tKUQC\nGBDUW0000059',
+    expected: [
+      { title: 'spotify:track:4uLU6hMCjMI75M1A2tKUQC', spotifyUri: 'spotify:track:4uLU6hMCjMI75M1A2tKUQC' },
+      { title: 'GBDUW0000059', isrc: 'GBDUW0000059' },
+    ],
+  },
+  {
+    name: 'identifiers alongside text',
+    text: 'Daft Punk - One More Time https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC',
+    expected: [{ title: 'One More Time', artist: 'Daft Punk', spotifyUri: 'spotify:track:4uLU6hMCjMI75M1A2tKUQC' }],
+  },
+  {
+    name: 'CSV with a header row',
+    text: 'Title,Artist,Album\nOne More Time,Daft Punk,Discovery\n"Digital Love, Pt. 1",Daft Punk,Discovery',
+    expected: [
+      { title: 'One More Time', artist: 'Daft Punk', album: 'Discovery' },
+      { title: 'Digital Love, Pt. 1', artist: 'Daft Punk', album: 'Discovery' },
+    ],
+  },
+];
+
+describe('parseTextTracks', () => {
+  it.each(TEXT_TRACK_CASES)('parses $name', ({ text, expected }) => {
+    expect(parseTextTracks(text)).toEqual(expected);
+  });
+
+  it.each(['', '   \n\n', '# just a comment', '-'])('returns null for %j', (text) => {
+    expect(parseTextTracks(text)).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { interceptFetch, readFixture } from '../helpers/fixtures';
+import { AmazonMusicPlaylistSource, scrapePlaylist } from '../../src/lib/import/sources';
+
+describe('AmazonMusicPlaylistSource', () => {
+  const source = new AmazonMusicPlaylistSource();
+
+  it('extracts title and artist pairs from the embedded state, keeping songs listed twice', () => {
+    expect(source.extract(readFixture('amazon-music/playlist.html'))).toEqual([
+      { title: 'Tennessee Whiskey', artist: 'Chris Stapleton' },
+      { title: 'Fast Car', artist: 'Luke Combs' },
+      { title: 'Tennessee Whiskey', artist: 'Chris Stapleton' },
+    ]);
+  });
+
+  it('reads the playlist details from Open Graph tags', () => {
+    expect(source.metadata(readFixture('amazon-music/playlist.html'))).toEqual({
+      name: 'Top Country',
+      description: 'The biggest country songs right now.',
+      imageUrl: 'https://m.media-amazon.com/images/I/81top-country._SX500_.jpg',
+    });
+  });
+
+  it('falls back to structured data when the page has no embedded state', async () => {
+    interceptFetch();
+
+    const result = await scrapePlaylist('https://music.amazon.com/playlists/B08KWJ7S2N');
+
+    expect(result.tracks).toEqual([
+      { title: 'Hallelujah', artist: 'Jeff Buckley', durationMs: 413000 },
+      { title: 'Hurt', artist: 'Johnny Cash', durationMs: 218000 },
+    ]);
+    expect(result.metadata).toMatchObject({ name: 'Acoustic Covers', trackCount: 2 });
+  });
+});
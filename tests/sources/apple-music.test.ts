@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { interceptFetch, readFixture } from '../helpers/fixtures';
+import { AppleMusicPlaylistSource, scrapePlaylist } from '../../src/lib/import/sources';
+
+const PLAYLIST_URL = 'https://music.apple.com/us/playlist/chill-house/pl.ba2404fbc4464b8ba2d60399189cf24e';
+
+describe('AppleMusicPlaylistSource', () => {
+  const source = new AppleMusicPlaylistSource();
+
+  it('extracts tracks from the JSON-LD playlist', () => {
+    expect(source.extract(readFixture('apple-music/playlist.html'))).toEqual([
+      { title: 'Innerbloom', artist: 'RÜFÜS DU SOL' },
+      { title: 'Cola', artist: 'CamelPhat & Elderbrook' },
+      { title: 'Strings of Life', artist: 'Rhythim Is Rhythim' },
+    ]);
+  });
+
+  it('reads the playlist details from the JSON-LD playlist', () => {
+    expect(source.metadata(readFixture('apple-music/playlist.html'))).toEqual({
+      name: 'Chill House',
+      owner: 'Apple Music Dance',
+      description: 'Laid-back house for long afternoons.',
+      imageUrl: 'https://is1-ssl.mzstatic.com/image/thumb/Features/v4/chill-house/1200x1200bb.jpg',
+      trackCount: 3,
+    });
+  });
+
+  it('truncates to the limit', async () => {
+    interceptFetch();
+
+    const result = await scrapePlaylist(PLAYLIST_URL, 2);
+
+    expect(result.tracks.map((track) => track.title)).toEqual(['Innerbloom', 'Cola']);
+    expect(result.truncated).toBe(1);
+  });
+});
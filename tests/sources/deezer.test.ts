@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { interceptFetch, readFixture } from '../helpers/fixtures';
+import { DeezerPlaylistSource, scrapePlaylist } from '../../src/lib/import/sources';
+
+const PLAYLIST_URL = 'https://www.deezer.com/en/playlist/1313621735';
+
+describe('DeezerPlaylistSource', () => {
+  const source = new DeezerPlaylistSource();
+
+  it('extracts the songs embedded in the app state', () => {
+    expect(source.extract(readFixture('deezer/playlist.html'))).toEqual([
+      { title: 'One More Time', artist: 'Daft Punk' },
+      { title: 'Music Sounds Better With You', artist: 'Stardust' },
+    ]);
+  });
+
+  it('reads the playlist details from the app state', () => {
+    expect(source.metadata(readFixture('deezer/playlist.html'))).toEqual({
+      name: 'French Touch Classics',
+      owner: 'Deezer Electronic Editor',
+      description: 'Filtered disco from Paris, 1996-2003.',
+      imageUrl: 'https://cdn-images.dzcdn.net/images/playlist/5f1c/500x500-000000-80-0-0.jpg',
+      trackCount: 5,
+    });
+  });
+
+  it('pages through the public API from the first song the page left out', async () => {
+    const requests = interceptFetch();
+
+    const result = await scrapePlaylist(PLAYLIST_URL);
+
+    expect(result.tracks).toHaveLength(5);
+    expect(result.tracks[2]).toEqual({
+      title: 'Lady (Hear Me Tonight)',
+      artist: 'Modjo',
+      album: 'Modjo',
+      durationMs: 309000,
+    });
+    expect(result.tracks[4].title).toBe('Hey Boy Hey Girl');
+    expect(result.truncated).toBe(0);
+    expect(requests.map(({ url }) => url)).toEqual([
+      PLAYLIST_URL,
+      'https://api.deezer.com/playlist/1313621735/tracks?index=2&limit=100',
+      'https://api.deezer.com/playlist/1313621735/tracks?index=4&limit=100',
+    ]);
+  });
+
+  it('stops paging once the limit is reached and counts the rest from the playlist size', async () => {
+    const requests = interceptFetch();
+
+    const result = await scrapePlaylist(PLAYLIST_URL, 3);
+
+    expect(result.tracks.map((track) => track.title)).toEqual([
+      'One More Time',
+      'Music Sounds Better With You',
+      'Lady (Hear Me Tonight)',
+    ]);
+    expect(result.truncated).toBe(2);
+    expect(requests).toHaveLength(2);
+  });
+});
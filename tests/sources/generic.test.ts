@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { readFixture } from '../helpers/fixtures';
+import { GenericPlaylistSource } from '../../src/lib/import/sources';
+
+// Generic pages are fetched through a DNS check on the host, so these run the extractor on saved pages
+describe('GenericPlaylistSource', () => {
+  const source = new GenericPlaylistSource();
+
+  it('extracts JSON-LD recordings from a @graph', () => {
+    expect(source.extract(readFixture('generic/radio-show.html'))).toEqual([
+      {
+        title: 'Tainted Love',
+        artist: 'Gloria Jones',
+        album: 'Tainted Love',
+        durationMs: 152000,
+        isrc: 'USMO16500123',
+      },
+      { title: 'Do I Love You (Indeed I Do)', artist: 'Frank Wilson', durationMs: 160000 },
+    ]);
+  });
+
+  it('reads the JSON-LD playlist details', () => {
+    expect(source.metadata(readFixture('generic/radio-show.html'))).toEqual({
+      name: 'Friday Night Selector, 14 June',
+      owner: 'DJ Marlena',
+      description: 'Two hours of northern soul and rare groove.',
+      imageUrl: 'https://static.fridaynightselector.example/shows/2024-06-14.jpg',
+      trackCount: 2,
+    });
+  });
+
+  it('extracts microdata recordings', () => {
+    expect(source.extract(readFixture('generic/microdata-album.html'))).toEqual([
+      { title: 'Safe from Harm', durationMs: 318000 },
+      { title: 'Unfinished Sympathy', durationMs: 308000 },
+    ]);
+  });
+
+  it('lists a track described in both JSON-LD and microdata once', () => {
+    const html = `
+      <script type="application/ld+json">{"@type":"MusicRecording","name":"Teardrop","byArtist":{"@type":"MusicGroup","name":"Massive Attack"}}</script>
+      <div itemscope itemtype="https://schema.org/MusicRecording">
+        <span itemprop="name">Teardrop</span>
+        <span itemprop="byArtist">Massive Attack</span>
+      </div>`;
+
+    expect(source.extract(html)).toEqual([{ title: 'Teardrop', artist: 'Massive Attack' }]);
+  });
+
+  it('falls back to common track-name markup', () => {
+    expect(source.extract(readFixture('generic/markup-only.html'))).toEqual([
+      { title: 'Go Your Own Way' },
+      { title: 'Born to Run' },
+    ]);
+  });
+});
@@ -0,0 +1,146 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { lookup } from 'node:dns/promises';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { appendNewTracks, fetchPublicPage } from '../../src/lib/import/sources/html';
+import type { PlaylistTrackInfo } from '../../src/lib/import/types';
+
+// Test hostnames resolve through this table only, never real DNS
+const HOSTS: Record<string, string> = {
+  'playlists.test': '127.0.0.1',
+  'rebind.test': '10.0.0.1',
+};
+
+vi.mock('node:dns/promises', () => ({ lookup: vi.fn() }));
+
+// Treat the loopback test server as public; every other private range stays blocked
+vi.mock('../../src/lib/api/validators', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/lib/api/validators')>();
+  return { ...actual, isBlockedIp: (hostname: string) => hostname !== '127.0.0.1' && actual.isBlockedIp(hostname) };
+});
+
+/**
+ * Append pages in order through appendNewTracks
+ */
+function collect(...pages: PlaylistTrackInfo[][]): PlaylistTrackInfo[] {
+  const tracks: PlaylistTrackInfo[] = [];
+  const seen = new Set<string>();
+  pages.forEach((page) => appendNewTracks(tracks, page, seen));
+  return tracks;
+}
+
+describe('appendNewTracks', () => {
+  it('keeps repeats within one page', () => {
+    expect(collect([
+      { title: 'Intro', artist: 'The xx' },
+      { title: 'Intro', artist: 'The xx' },
+    ])).toHaveLength(2);
+  });
+
+  it('skips tracks an earlier page listed, ignoring case, accents and punctuation', () => {
+    expect(collect(
+      [{ title: 'Innerbloom', artist: 'RÜFÜS DU SOL' }, { title: 'Cola', artist: 'CamelPhat & Elderbrook' }],
+      [{ title: 'Cola!', artist: 'CamelPhat, Elderbrook' }, { title: 'Strings of Life', artist: 'Rhythim Is Rhythim' }],
+    ).map((track) => track.title)).toEqual(['Innerbloom', 'Cola', 'Strings of Life']);
+  });
+
+  it('keeps different songs that share a title', () => {
+    expect(collect(
+      [{ title: 'Intro', artist: 'The xx' }],
+      [{ title: 'Intro', artist: 'M83' }],
+    )).toHaveLength(2);
+  });
+
+  it('goes by track IDs when tracks have them', () => {
+    expect(collect(
+      [{ title: 'Hurt', artist: 'Johnny Cash', isrc: 'USUM70209881' }],
+      [
+        { title: 'Hurt', artist: 'Johnny Cash', isrc: 'USUM70209882' },
+        { title: 'Hurt (Live in Sydney)', artist: 'Johnny Cash', spotifyUri: 'spotify:track:28cnXtME493VX9NOw9cIUh' },
+      ],
+      [{ title: 'Hurt - Live', artist: 'Johnny Cash', spotifyUri: 'spotify:track:28cnXtME493VX9NOw9cIUh' }],
+    ).map((track) => track.isrc ?? track.spotifyUri)).toEqual([
+      'USUM70209881',
+      'USUM70209882',
+      'spotify:track:28cnXtME493VX9NOw9cIUh',
+    ]);
+  });
+});
+
+describe('fetchPublicPage', () => {
+  let server: Server;
+  let origin: string;
+  const served: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      served.push(req.url ?? '');
+      res.on('error', () => undefined);
+      switch (req.url) {
+        case '/playlist':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end('<title>Road Trip Mix</title>');
+          break;
+        case '/moved':
+          res.writeHead(302, { Location: '/playlist' }).end();
+          break;
+        case '/rebind':
+          res.writeHead(302, { Location: `http://rebind.test:${(server.address() as AddressInfo).port}/playlist` }).end();
+          break;
+        case '/feed.json':
+          res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"tracks":[]}');
+          break;
+        case '/huge':
+          // Chunked, so the size is only known by reading
+          res.writeHead(200, { 'Content-Type': 'text/html' });
+          for (let i = 0; i < 6; i++) res.write('a'.repeat(1024 * 1024));
+          res.end();
+          break;
+        default:
+          res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://playlists.test:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    served.length = 0;
+    vi.mocked(lookup).mockReset().mockImplementation((async (hostname: string) => {
+      const address = HOSTS[hostname];
+      if (!address) throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+      return [{ address, family: 4 }];
+    }) as unknown as typeof lookup);
+  });
+
+  it('connects to the address it checked, without resolving the host again', async () => {
+    expect(await fetchPublicPage(`${origin}/playlist`)).toBe('<title>Road Trip Mix</title>');
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks every redirect hop', async () => {
+    expect(await fetchPublicPage(`${origin}/moved`)).toBe('<title>Road Trip Mix</title>');
+    expect(vi.mocked(lookup).mock.calls.map(([hostname]) => hostname)).toEqual(['playlists.test', 'playlists.test']);
+
+    expect(await fetchPublicPage(`${origin}/rebind`)).toBeNull();
+    expect(served).toEqual(['/moved', '/playlist', '/rebind']);
+  });
+
+  it('refuses hosts that resolve to a private address', async () => {
+    expect(await fetchPublicPage('http://rebind.test/playlist')).toBeNull();
+    expect(served).toEqual([]);
+  });
+
+  it('only reads HTML', async () => {
+    expect(await fetchPublicPage(`${origin}/feed.json`)).toBeNull();
+    expect(await fetchPublicPage(`${origin}/missing`)).toBeNull();
+  });
+
+  it('gives up on pages over the size limit', async () => {
+    expect(await fetchPublicPage(`${origin}/huge`)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { interceptFetch, readFixture } from '../helpers/fixtures';
+import { scrapePlaylist, SoundCloudPlaylistSource } from '../../src/lib/import/sources';
+
+const SET_URL = 'https://soundcloud.com/daftpunkofficialmusic/sets/discovery';
+
+describe('SoundCloudPlaylistSource', () => {
+  const source = new SoundCloudPlaylistSource();
+
+  it('extracts the tracks the hydration data includes in full', () => {
+    expect(source.extract(readFixture('soundcloud/set.html')).map((track) => track.title)).toEqual([
+      'One More Time',
+      'Aerodynamic',
+    ]);
+  });
+
+  it('reads the set details, asking for the larger artwork', () => {
+    expect(source.metadata(readFixture('soundcloud/set.html'))).toEqual({
+      name: 'Discovery',
+      owner: 'Daft Punk',
+      description: 'The 2001 album, in full.',
+      imageUrl: 'https://i1.sndcdn.com/artworks-000123456789-abcdef-t500x500.jpg',
+      trackCount: 4,
+    });
+  });
+
+  it('looks up ID-only tracks with the client ID from the app bundle, in playlist order', async () => {
+    const requests = interceptFetch();
+
+    const result = await scrapePlaylist(SET_URL);
+
+    expect(result.tracks.slice(2)).toEqual([
+      { title: 'Digital Love', artist: 'Daft Punk', durationMs: 301000 },
+      { title: 'Harder, Better, Faster, Stronger', artist: 'Daft Punk', durationMs: 224693 },
+    ]);
+    expect(result.truncated).toBe(0);
+    // Bundles are searched from the last, so the vendor bundle is never fetched
+    expect(requests.map(({ url }) => url)).toEqual([
+      SET_URL,
+      'https://a-v2.sndcdn.com/assets/49-8c3d2e1f.js',
+      'https://api-v2.soundcloud.com/tracks?ids=1003,1004&client_id=Xq3LBZ7vTsA1kNn9RcW2pYhG5dUe8fJm',
+    ]);
+  });
+
+  it('skips the lookup when the hydrated tracks already reach the limit', async () => {
+    const requests = interceptFetch();
+
+    const result = await scrapePlaylist(SET_URL, 1);
+
+    expect(result.tracks.map((track) => track.title)).toEqual(['One More Time']);
+    expect(result.truncated).toBe(3);
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { interceptFetch, readFixture } from '../helpers/fixtures';
+import { scrapePlaylist, TidalPlaylistSource } from '../../src/lib/import/sources';
+
+const PLAYLIST_URL = 'https://tidal.com/browse/playlist/36ea71a8-445e-41a4-82ab-6628c581535d';
+
+describe('TidalPlaylistSource', () => {
+  const source = new TidalPlaylistSource();
+
+  it('extracts tracks from the Next.js page data, skipping videos', () => {
+    expect(source.extract(readFixture('tidal/playlist.html'))).toEqual([
+      { title: 'So What', artist: 'Miles Davis' },
+      { title: 'Take Five', artist: 'The Dave Brubeck Quartet' },
+      { title: 'A Love Supreme, Pt. I - Acknowledgement', artist: 'John Coltrane' },
+    ]);
+  });
+
+  it('reads the playlist details from the page data', () => {
+    expect(source.metadata(readFixture('tidal/playlist.html'))).toEqual({
+      name: 'Jazz Essentials',
+      owner: 'TIDAL',
+      description: 'The records every jazz collection starts with.',
+      imageUrl: 'https://resources.tidal.com/images/5a1b2c3d/e4f5/6789/abcd/ef0123456789/750x750.jpg',
+    });
+  });
+
+  it('scrapes the fetched page', async () => {
+    const requests = interceptFetch();
+
+    const result = await scrapePlaylist(PLAYLIST_URL);
+
+    expect(result.tracks).toHaveLength(3);
+    expect(result.metadata.name).toBe('Jazz Essentials');
+    expect(result.truncated).toBe(0);
+    expect(requests.map(({ url }) => url)).toEqual([PLAYLIST_URL]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { getSupportedPlatforms, parseTrackUrl, type ParsedUrl } from '../src/lib/url-parser';
+
+const TRACK_URL_CASES: { url: string; expected: ParsedUrl }[] = [
+  { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', expected: { platform: 'youtube', query: 'dQw4w9WgXcQ' } },
+  { url: 'https://youtu.be/dQw4w9WgXcQ', expected: { platform: 'youtube', query: 'dQw4w9WgXcQ' } },
+  { url: 'https://m.youtube.com/watch?v=dQw4w9WgXcQ&t=42', expected: { platform: 'youtube', query: 'dQw4w9WgXcQ' } },
+  { url: 'https://music.youtube.com/watch?v=dQw4w9WgXcQ', expected: { platform: 'youtube', query: 'dQw4w9WgXcQ' } },
+  { url: 'https://www.youtube.com/shorts/abc123XYZ', expected: { platform: 'youtube', query: 'abc123XYZ' } },
+  { url: 'https://www.youtube.com/embed/dQw4w9WgXcQ', expected: { platform: 'youtube', query: 'dQw4w9WgXcQ' } },
+  { url: 'https://soundcloud.com/daft-punk/one-more-time', expected: { platform: 'soundcloud', query: 'daft punk one more time' } },
+  {
+    url: 'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC',
+    expected: { platform: 'spotify', query: '4uLU6hMCjMI75M1A2tKUQC' },
+  },
+  {
+    url: 'https://open.spotify.com/intl-de/track/4uLU6hMCjMI75M1A2tKUQC?si=abc',
+    expected: { platform: 'spotify', query: '4uLU6hMCjMI75M1A2tKUQC' },
+  },
+  {
+    url: 'https://www.deezer.com/en/track/3135556',
+    expected: { platform: 'deezer', query: 'https://www.deezer.com/en/track/3135556' },
+  },
+  {
+    url: 'https://music.apple.com/us/album/one-more-time/697194953?i=697195462',
+    expected: { platform: 'apple-music', query: 'https://music.apple.com/us/album/one-more-time/697194953?i=697195462' },
+  },
+  {
+    url: 'https://music.apple.com/us/song/one-more-time/697195462',
+    expected: { platform: 'apple-music', query: 'https://music.apple.com/us/song/one-more-time/697195462' },
+  },
+  {
+    url: 'https://artist.bandcamp.com/track/song-name',
+    expected: { platform: 'bandcamp', query: 'https://artist.bandcamp.com/track/song-name' },
+  },
+  {
+    url: 'https://tidal.com/browse/track/123456',
+    expected: { platform: 'tidal', query: 'https://tidal.com/browse/track/123456' },
+  },
+  {
+    url: 'https://listen.tidal.com/track/123456',
+    expected: { platform: 'tidal', query: 'https://listen.tidal.com/track/123456' },
+  },
+  {
+    url: 'https://music.amazon.com/tracks/B08L5R2ZZY',
+    expected: { platform: 'amazon-music', query: 'https://music.amazon.com/tracks/B08L5R2ZZY' },
+  },
+  {
+    url: 'https://www.mixcloud.com/someone/friday-mix/',
+    expected: { platform: 'mixcloud', query: 'https://www.mixcloud.com/someone/friday-mix/' },
+  },
+  {
+    url: 'https://www.beatport.com/track/one-more-time/123456',
+    expected: { platform: 'beatport', query: 'https://www.beatport.com/track/one-more-time/123456' },
+  },
+];
+
+const UNSUPPORTED_URLS = [
+  'not a url',
+  '',
+  'https://example.com/track/123',
+  // Matching hosts, but not a track
+  'https://www.youtube.com/feed/subscriptions',
+  'https://soundcloud.com/daft-punk',
+  'https://open.spotify.com/album/2noRn2Aes5aoNVsU6iWThc',
+  'https://open.spotify.com/track/tooshort',
+  'https://www.deezer.com/en/album/302127',
+  'https://music.apple.com/us/browse',
+  'https://bandcamp.com/discover',
+  'https://tidal.com/browse/album/123',
+  'https://www.mixcloud.com/someone/',
+  'https://www.beatport.com/genre/house/5',
+];
+
+describe('parseTrackUrl', () => {
+  it.each(TRACK_URL_CASES)('parses $url', ({ url, expected }) => {
+    expect(parseTrackUrl(url)).toEqual(expected);
+  });
+
+  it.each(UNSUPPORTED_URLS)('returns null for %j', (url) => {
+    expect(parseTrackUrl(url)).toBeNull();
+  });
+
+  it('has cases for every registered parser', () => {
+    const covered = new Set(TRACK_URL_CASES.map(({ expected }) => expected.platform));
+    expect([...covered].sort()).toEqual([...getSupportedPlatforms()].sort());
+  });
+});
@@ -0,0 +1,12 @@
+/// <reference types="vitest/config" />
+import { getViteConfig } from 'astro/config';
+
+// Runs tests through Astro's Vite setup so import.meta.env and TS paths resolve as they do in the app
+export default getViteConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    // Undo interceptFetch (tests/helpers/fixtures.ts) after every test
+    unstubGlobals: true,
+  },
+});